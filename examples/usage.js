@@ -51,8 +51,8 @@ async function main() {
             line_item_budget: 25000, // $250.00
             bid_price: 250, // $2.50 CPM
             targeting: {
-              geo: { country: ['US'] },
-              device_type: ['desktop']
+              geo: [{ include: { country: ['USA'] } }],
+              device: [{ include: { device_type: ['desktop'] } }]
             },
             creatives: [
               {
@@ -68,8 +68,8 @@ async function main() {
             line_item_budget: 25000, // $250.00
             bid_price: 200, // $2.00 CPM
             targeting: {
-              geo: { country: ['US'] },
-              device_type: ['mobile']
+              geo: [{ include: { country: ['USA'] } }],
+              device: [{ include: { device_type: ['mobile'] } }]
             },
             creatives: [
               {
@@ -1,12 +1,17 @@
 import axios, { AxiosInstance, AxiosRequestConfig, Method } from 'axios';
 import axiosRetry from 'axios-retry';
 import FormData from 'form-data';
+import { Readable, Stream, pipeline } from 'stream';
 import { 
+  BeeswaxApiVersion,
   BeeswaxClientOptions, 
   BeeswaxCredentials, 
   BeeswaxResponse, 
+  RateLimitOptions,
+  RequestOptions,
   UploadCreativeAssetParams,
-  CreativeAsset
+  CreativeAsset,
+  TargetingExpressionTargeting
 } from './types';
 import {
   AdvertiserResource,
@@ -15,43 +20,103 @@ import {
   CreativeResource,
   CreativeLineItemResource,
   TargetingTemplateResource,
+  TargetingExpressionResource,
   CreativeAssetResource,
   SegmentResource,
-  ReportResource
+  ReportResource,
+  AdvertiserV2Resource,
+  CampaignV2Resource,
+  LineItemV2Resource,
+  CreativeV2Resource,
+  CreativeLineItemV2Resource
 } from './resources';
+import { BaseResource } from './resources/BaseResource';
 import { CampaignMacros } from './macros/CampaignMacros';
+import { EntityModels, createEntityModels } from './models/EntityModel';
+import { TargetingExpressionBuilder, resolveTargeting } from './targeting/TargetingExpressionBuilder';
+import {
+  BeeswaxAssetValidationError,
+  BeeswaxRateLimitError,
+  BeeswaxUploadError,
+  createBeeswaxError,
+  toBeeswaxError
+} from './errors';
+import { AuthStrategy, PasswordAuthStrategy } from './auth/AuthStrategy';
+import { Middleware, RequestContext, runMiddleware } from './middleware/Middleware';
+import { RateLimiter } from './utils/RateLimiter';
+import { SPAN_KIND_CLIENT, Telemetry, endpointTemplate } from './telemetry/Telemetry';
+import { ResponseCache } from './cache/ResponseCache';
+import { DryRun, DryRunResult } from './dryrun/DryRun';
+import { BatchLoaderOptions } from './utils/BatchLoader';
+import { delay } from './utils/helpers';
+import {
+  DEFAULT_REDACTED_FIELDS,
+  Logger,
+  createConsoleLogger,
+  createCorrelationId,
+  errorFields,
+  withRedaction
+} from './utils/logger';
+import { UploadTracker, bufferUploadSource, resolveUploadSource } from './utils/upload';
+import { validateCreativeAsset } from './assets/validateAsset';
+
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = { requestsPerSecond: 10, maxConcurrent: 5 };
+const DEFAULT_MAX_RATE_LIMIT_RETRIES = 3;
 
 export class BeeswaxClient {
   private apiRoot: string;
-  private creds: BeeswaxCredentials;
   private axiosInstance: AxiosInstance;
+  private authHttp: AxiosInstance;
+  private externalHttp: AxiosInstance;
+  private authStrategy: AuthStrategy;
   private authPromise?: Promise<void>;
-  private sessionCookies?: string;
+  private reauthPromise?: Promise<boolean>;
+  private rateLimiter?: RateLimiter;
+  private maxRateLimitRetries: number;
+  private middleware: Middleware[];
+  public readonly apiVersion: BeeswaxApiVersion;
+  public readonly logger: Logger; // Redacts credentials and PII from every field
+  public readonly telemetry: Telemetry;
+  public readonly cache?: ResponseCache;
+  public readonly findBatching: BatchLoaderOptions | false;
+  public readonly dryRunner: DryRun;
+  public readonly schemaValidation: boolean | 'strict';
 
   // Resources
-  public advertisers: AdvertiserResource;
-  public campaigns: CampaignResource;
-  public lineItems: LineItemResource;
-  public creatives: CreativeResource;
-  public creativeLineItems: CreativeLineItemResource;
+  public advertisers: AdvertiserResource | AdvertiserV2Resource;
+  public campaigns: CampaignResource | CampaignV2Resource;
+  public lineItems: LineItemResource | LineItemV2Resource;
+  public creatives: CreativeResource | CreativeV2Resource;
+  public creativeLineItems: CreativeLineItemResource | CreativeLineItemV2Resource;
   public targetingTemplates: TargetingTemplateResource;
+  public targetingExpressions: TargetingExpressionResource;
   public creativeAssets: CreativeAssetResource;
   public segments: SegmentResource;
   public reports: ReportResource;
 
+  // Strict typed models over the resources
+  public models: EntityModels;
+
   // Macros
   public macros: CampaignMacros;
 
   constructor(options: BeeswaxClientOptions) {
-    if (!options.creds || !options.creds.email || !options.creds.password) {
-      throw new Error('Must provide creds object with email + password');
-    }
-
     if (!options.apiRoot) {
       throw new Error('Must provide apiRoot in options (e.g., https://example.api.beeswax.com)');
     }
+    if (options.apiVersion && options.apiVersion !== 'v1' && options.apiVersion !== 'v2') {
+      throw new Error(`Unsupported apiVersion: ${options.apiVersion} (expected 'v1' or 'v2')`);
+    }
     this.apiRoot = options.apiRoot;
-    this.creds = options.creds;
+    this.authStrategy = options.auth || new PasswordAuthStrategy(options.creds as BeeswaxCredentials, {
+      sessionStore: options.sessionStore
+    });
+    this.authStrategy.attach?.(this.apiRoot);
+    this.apiVersion = options.apiVersion || 'v1';
+    this.logger = withRedaction(
+      options.logger || createConsoleLogger(process.env.DEBUG_BEESWAX ? 'debug' : 'warn'),
+      [...DEFAULT_REDACTED_FIELDS, ...(options.redactFields || [])]
+    );
 
     // Setup axios instance with defaults
     this.axiosInstance = axios.create({
@@ -61,7 +126,25 @@ export class BeeswaxClient {
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       },
-      withCredentials: true
+      withCredentials: true,
+      adapter: options.adapter
+    });
+
+    // Bare instance for login/refresh calls made by the auth strategy
+    this.authHttp = axios.create({
+      baseURL: this.apiRoot,
+      timeout: options.timeout || 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      adapter: options.adapter
+    });
+
+    // Bare instance for URLs outside the API, e.g. pre-signed report downloads
+    this.externalHttp = axios.create({
+      timeout: options.timeout || 30000,
+      adapter: options.adapter
     });
 
     // Setup retry logic
@@ -73,52 +156,81 @@ export class BeeswaxClient {
       });
     }
 
+    // Setup client-side rate limiting
+    this.maxRateLimitRetries = DEFAULT_MAX_RATE_LIMIT_RETRIES;
+    if (options.rateLimit instanceof RateLimiter) {
+      this.rateLimiter = options.rateLimit;
+    } else if (options.rateLimit !== false) {
+      const { maxRateLimitRetries, ...limiterOptions } = options.rateLimit || DEFAULT_RATE_LIMIT;
+      this.rateLimiter = new RateLimiter(limiterOptions);
+      if (maxRateLimitRetries !== undefined) {
+        this.maxRateLimitRetries = maxRateLimitRetries;
+      }
+    }
+
+    this.middleware = [...(options.middleware || [])];
+    this.telemetry = new Telemetry(options.telemetry);
+    this.findBatching = options.findBatching === true ? {} : options.findBatching || false;
+    if (options.cache) {
+      this.cache = new ResponseCache(options.cache === true ? {} : options.cache);
+    }
+    this.schemaValidation = options.schemaValidation ?? false;
+    this.dryRunner = new DryRun(options.dryRun === true, this.logger);
+    this.createLineItem = this.dryRunner.wrap(this.createLineItem.bind(this));
+
     // Setup request/response interceptors
     this.setupInterceptors();
 
     // Initialize resources
-    this.advertisers = new AdvertiserResource(this);
-    this.campaigns = new CampaignResource(this);
-    this.lineItems = new LineItemResource(this);
-    this.creatives = new CreativeResource(this);
-    this.creativeLineItems = new CreativeLineItemResource(this);
+    if (this.apiVersion === 'v2') {
+      this.advertisers = new AdvertiserV2Resource(this);
+      this.campaigns = new CampaignV2Resource(this);
+      this.lineItems = new LineItemV2Resource(this);
+      this.creatives = new CreativeV2Resource(this);
+      this.creativeLineItems = new CreativeLineItemV2Resource(this);
+    } else {
+      this.advertisers = new AdvertiserResource(this);
+      this.campaigns = new CampaignResource(this);
+      this.lineItems = new LineItemResource(this);
+      this.creatives = new CreativeResource(this);
+      this.creativeLineItems = new CreativeLineItemResource(this);
+    }
     this.targetingTemplates = new TargetingTemplateResource(this);
+    this.targetingExpressions = new TargetingExpressionResource(this);
     this.creativeAssets = new CreativeAssetResource(this);
     this.segments = new SegmentResource(this);
     this.reports = new ReportResource(this);
 
+    // Strict typed views over the resources above
+    this.models = createEntityModels(this);
+
     // Initialize macros
     this.macros = new CampaignMacros(this);
   }
 
   private setupInterceptors(): void {
-    // Request interceptor to add cookies
+    // Request interceptor to add credentials
     this.axiosInstance.interceptors.request.use(
       (config) => {
-        if (this.sessionCookies) {
-          config.headers['Cookie'] = this.sessionCookies;
-        }
+        this.authStrategy.applyAuth(config.headers, this.axiosInstance.getUri(config));
         return config;
       },
       (error) => Promise.reject(error)
     );
 
-    // Response interceptor to save cookies and handle errors
+    // Response interceptor to capture session state and handle errors
     this.axiosInstance.interceptors.response.use(
       (response) => {
-        // Save cookies from set-cookie header
-        const setCookies = response.headers['set-cookie'];
-        if (setCookies) {
-          this.sessionCookies = setCookies.join('; ');
-        }
+        this.authStrategy.onResponse?.(response, this.axiosInstance.getUri(response.config));
         return response;
       },
       async (error) => {
         // Handle 401 unauthorized
-        if (error.response?.status === 401 && !error.config._retry) {
+        if (error.response?.status === 401 && error.config && !error.config._retry) {
           error.config._retry = true;
-          await this.authenticate();
-          return this.axiosInstance(error.config);
+          if (await this.reauthenticate(error)) {
+            return this.axiosInstance(error.config);
+          }
         }
         return Promise.reject(error);
       }
@@ -131,7 +243,7 @@ export class BeeswaxClient {
       return this.authPromise;
     }
 
-    this.authPromise = this.performAuthentication();
+    this.authPromise = this.authStrategy.authenticate(this.authHttp);
     
     try {
       await this.authPromise;
@@ -140,129 +252,318 @@ export class BeeswaxClient {
     }
   }
 
-  private async performAuthentication(): Promise<void> {
+  // Concurrent 401s share one re-authentication
+  private async reauthenticate(error: any): Promise<boolean> {
+    if (!this.reauthPromise) {
+      this.logger.info({ url: error.config?.url }, 'Request unauthorized, re-authenticating');
+      this.reauthPromise = this.authStrategy.onUnauthorized(this.authHttp, error);
+    }
+
     try {
-      const response = await this.axiosInstance.post('/rest/authenticate', {
-        email: this.creds.email,
-        password: this.creds.password,
-        keep_logged_in: true
-      });
+      return await this.reauthPromise;
+    } finally {
+      this.reauthPromise = undefined;
+    }
+  }
+
+  /**
+   * Add middleware to the end of the chain around request()
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Run `operation` without sending any writes: creates, edits and deletes
+   * made by it (macros included) are recorded and answered with synthetic
+   * responses, while reads still hit the API. Resolves with the operation's
+   * result and the calls it would have made.
+   *
+   *   const { result, calls } = await client.dryRun(() => client.macros.createFullCampaign(options));
+   */
+  async dryRun<T>(operation: () => Promise<T>): Promise<DryRunResult<T>> {
+    return this.dryRunner.run(operation);
+  }
+
+  async request<T = any>(method: Method, endpoint: string, options: RequestOptions = {}): Promise<BeeswaxResponse<T>> {
+    const context: RequestContext = {
+      method,
+      endpoint,
+      resource: options.resource || this.resourceFor(endpoint),
+      body: options.body,
+      params: options.params,
+      headers: { ...options.headers },
+      responseType: options.responseType,
+      // Ties together the log lines of this request, retries included
+      correlationId: createCorrelationId(),
+      retries: 0,
+      state: {}
+    };
+    const template = endpointTemplate(endpoint);
+    const attributes = {
+      'http.request.method': method.toUpperCase(),
+      'url.template': template,
+      'beeswax.resource': context.resource
+    };
 
-      if (response.data.success === false) {
-        throw new Error(`Authentication failed: ${JSON.stringify(response.data)}`);
+    return this.telemetry.span(`Beeswax ${method.toUpperCase()} ${template}`, SPAN_KIND_CLIENT, attributes, async span => {
+      const startedAt = Date.now();
+      let failure: any;
+      try {
+        return await runMiddleware(this.middleware, context, () => this.dryRunner.active
+          ? this.dryRunner.send(context, dryRunContext => this.dispatch(dryRunContext))
+          : this.dispatch<T>(context));
+      } catch (error: any) {
+        failure = error;
+        throw error;
+      } finally {
+        const status = context.status ?? failure?.status;
+        span?.setAttribute('beeswax.retry_count', context.retries);
+        if (status !== undefined) {
+          span?.setAttribute('http.response.status_code', status);
+        }
+        this.telemetry.recordRequest({ ...attributes, 'http.response.status_code': status }, Date.now() - startedAt, failure);
       }
+    });
+  }
+
+  /**
+   * Whether `url` is a path on the API or an absolute URL on apiRoot's origin
+   */
+  isApiUrl(url: string): boolean {
+    return new URL(url, this.apiRoot).origin === new URL(this.apiRoot).origin;
+  }
+
+  /**
+   * GET a URL outside the API, resolving with the response body. Uses a bare
+   * axios call: no credentials, middleware, rate limiting or retries.
+   */
+  async fetchExternal(url: string, options: Pick<RequestOptions, 'headers' | 'responseType'> = {}): Promise<any> {
+    try {
+      const response = await this.externalHttp.get(url, { headers: options.headers, responseType: options.responseType });
+      return response.data;
     } catch (error: any) {
-      if (error.response) {
-        throw new Error(`Authentication failed: ${error.response.status} - ${JSON.stringify(error.response.data)}`);
-      }
-      throw error;
+      // Pre-signed URLs carry their signature in the query string
+      throw toBeeswaxError(error, { endpoint: url.split('?')[0], method: 'GET' });
     }
   }
 
-  async request<T = any>(
-    method: Method, 
-    endpoint: string, 
-    options?: { 
-      body?: any; 
-      params?: any; 
-      headers?: any;
-    }
-  ): Promise<BeeswaxResponse<T>> {
+  private resourceFor(endpoint: string): string | undefined {
+    const resources: BaseResource<any>[] = [
+      this.advertisers,
+      this.campaigns,
+      this.lineItems,
+      this.creatives,
+      this.creativeLineItems,
+      this.targetingTemplates,
+      this.targetingExpressions,
+      this.creativeAssets,
+      this.segments,
+      this.reports
+    ];
+    return resources.find(resource => resource.handles(endpoint))?.resourceName;
+  }
+
+  private async dispatch<T>(context: RequestContext): Promise<BeeswaxResponse<T>> {
+    const { method, endpoint, correlationId } = context;
     const config: AxiosRequestConfig = {
       method,
       url: endpoint,
-      headers: options?.headers
+      headers: context.headers,
+      responseType: context.responseType
     };
 
     // For GET requests, use params instead of data
     if (method.toUpperCase() === 'GET') {
-      config.params = options?.body || options?.params;
+      config.params = context.body || context.params;
     } else {
-      config.data = options?.body;
-      config.params = options?.params;
+      config.data = context.body;
+      config.params = context.params;
     }
 
-    // Debug logging
-    if (process.env.DEBUG_BEESWAX) {
-      console.log(`BeeswaxClient.request - ${method} ${endpoint}`);
-      console.log('Request data:', JSON.stringify(config.data, null, 2));
+    this.logger.debug({ correlationId, method, endpoint, params: config.params, body: config.data }, 'Beeswax request');
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return this.rateLimiter
+          ? await this.rateLimiter.schedule(() => this.send<T>(config, context))
+          : await this.send<T>(config, context);
+      } catch (error: any) {
+        // A streamed body (an upload) was consumed by the first attempt
+        if (!(error instanceof BeeswaxRateLimitError) || attempt >= this.maxRateLimitRetries || context.body instanceof Stream) {
+          throw error;
+        }
+
+        // Honor Retry-After, falling back to exponential backoff. Pausing the
+        // limiter holds back every other queued request as well.
+        const waitMs = error.retryAfter !== undefined
+          ? error.retryAfter * 1000
+          : Math.min(1000 * 2 ** attempt, 30000);
+        this.logger.warn({ correlationId, method, endpoint, attempt: attempt + 1, waitMs }, 'Rate limited, retrying');
+        context.retries = attempt + 1;
+        if (this.rateLimiter) {
+          this.rateLimiter.pause(waitMs);
+        } else {
+          await delay(waitMs);
+        }
+      }
     }
-    
+  }
+
+  private async send<T>(config: AxiosRequestConfig, context: RequestContext): Promise<BeeswaxResponse<T>> {
+    const { method, endpoint, correlationId } = context;
+    const startedAt = Date.now();
     try {
       const response = await this.axiosInstance.request(config);
-      
-      if (process.env.DEBUG_BEESWAX) {
-        console.log('Response:', JSON.stringify(response.data, null, 2));
-      }
-      
-      if (response.data.success === false) {
-        throw new Error(JSON.stringify(response.data));
+      context.status = response.status;
+
+      this.logger.debug({
+        correlationId,
+        method,
+        endpoint,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+        requestId: response.headers?.['x-request-id'],
+        body: config.responseType === 'stream' ? '[stream]' : response.data
+      }, 'Beeswax response');
+
+      if (response.data?.success === false) {
+        throw createBeeswaxError(response.status, response.data, {
+          endpoint,
+          method,
+          headers: response.headers,
+          requestId: response.headers?.['x-request-id']
+        });
       }
 
       return response.data;
     } catch (error: any) {
-      if (process.env.DEBUG_BEESWAX) {
-        console.log('Error response:', error.response?.data || error.message);
-      }
-      if (error.response?.data) {
-        throw error.response.data;
-      }
-      throw error;
+      const beeswaxError = toBeeswaxError(error, { endpoint, method });
+      context.status = beeswaxError.status;
+      this.logger.info({
+        correlationId,
+        method,
+        endpoint,
+        durationMs: Date.now() - startedAt,
+        ...errorFields(beeswaxError),
+        body: config.responseType === 'stream' ? undefined : beeswaxError.responseBody
+      }, 'Beeswax request failed');
+      throw beeswaxError;
     }
   }
 
+  /**
+   * Create a creative asset and upload its content from a URL, file path,
+   * Buffer or Readable. With `checksum` the content is verified: before the
+   * asset is created for buffers and files, after upload for streams and URLs.
+   * With `validate` the content is checked against the creative type's asset
+   * rules before any API call. If the upload fails (a 429 included, as the
+   * content can't be sent twice) or the checksum doesn't match, the asset is
+   * deleted again.
+   */
   async uploadCreativeAsset(params: UploadCreativeAssetParams): Promise<CreativeAsset> {
-    if (!params.sourceUrl) {
-      throw new Error('uploadCreativeAsset params requires a sourceUrl property.');
+    const source = await resolveUploadSource(params, this.logger);
+    const algorithm = params.checksumAlgorithm || 'md5';
+
+    if (params.validate) {
+      const content = await bufferUploadSource(source);
+      const { violations } = validateCreativeAsset(content, params.validate, params.creative_asset_name || source.name);
+      if (violations.length > 0) {
+        throw new BeeswaxAssetValidationError(
+          `Creative asset failed validation: ${violations.map(violation => violation.message).join('; ')}`,
+          violations
+        );
+      }
+    }
+    const expected = params.checksum?.toLowerCase();
+
+    if (expected && source.checksum && source.checksum !== expected) {
+      throw new BeeswaxUploadError(
+        `Checksum mismatch for ${params.creative_asset_name || source.name}: expected ${expected}, got ${source.checksum}`
+      );
     }
 
-    // Get file size if not provided
     const assetDef: any = {
       advertiser_id: params.advertiser_id,
-      creative_asset_name: params.creative_asset_name,
+      creative_asset_name: params.creative_asset_name || source.name,
+      size_in_bytes: params.size_in_bytes || source.size,
       notes: params.notes,
       active: params.active !== undefined ? params.active : true
     };
 
-    // Extract filename from URL if not provided
-    if (!assetDef.creative_asset_name) {
-      const urlParts = params.sourceUrl.split('/');
-      assetDef.creative_asset_name = urlParts[urlParts.length - 1];
-    }
-
-    // Get file size if not provided
-    if (!params.size_in_bytes) {
-      try {
-        const headResponse = await axios.head(params.sourceUrl);
-        assetDef.size_in_bytes = parseInt(headResponse.headers['content-length'] || '0', 10);
-      } catch (_error) {
-        console.warn('Unable to detect content-length of sourceUrl:', params.sourceUrl);
-      }
-    } else {
-      assetDef.size_in_bytes = params.size_in_bytes;
+    // Open the content first so an unreadable source leaves no empty asset behind
+    let content: Readable;
+    try {
+      content = await source.open();
+    } catch (error: any) {
+      throw new BeeswaxUploadError(`Unable to read ${assetDef.creative_asset_name}: ${error.message}`, { cause: error });
     }
 
     // Create the asset
-    const createResponse = await this.request<{ id: number }>('POST', '/rest/creative_asset', {
-      body: assetDef
-    });
+    let createResponse: BeeswaxResponse<{ id: number }>;
+    try {
+      createResponse = await this.request<{ id: number }>('POST', '/rest/creative_asset', {
+        body: assetDef
+      });
+    } catch (error) {
+      content.destroy();
+      throw error;
+    }
 
     if (!createResponse.payload?.id) {
+      content.destroy();
       throw new Error('Failed to create creative asset');
     }
 
     const assetId = createResponse.payload.id;
 
-    // Upload the file
-    const form = new FormData();
-    const fileStream = await axios.get(params.sourceUrl, { responseType: 'stream' });
-    form.append('creative_content', fileStream.data);
+    // Upload the file, counting and hashing the bytes on the way through
+    const tracker = new UploadTracker(assetDef.size_in_bytes, algorithm, params.onProgress);
+    let sourceError: Error | undefined;
+    content.once('error', error => {
+      sourceError = error;
+    });
+    const piped = new Promise<void>((resolve, reject) => {
+      pipeline(content, tracker, error => error ? reject(error) : resolve());
+    });
 
-    await this.request('POST', `/rest/creative_asset/upload/${assetId}`, {
-      body: form,
-      headers: form.getHeaders()
+    const form = new FormData();
+    form.append('creative_content', tracker, {
+      filename: assetDef.creative_asset_name,
+      contentType: source.contentType,
+      knownLength: assetDef.size_in_bytes
     });
 
+    // Anything failing from here on deletes the asset rather than leave it without content
+    try {
+      await Promise.all([
+        this.request('POST', `/rest/creative_asset/upload/${assetId}`, {
+          body: form,
+          headers: form.getHeaders()
+        }),
+        piped
+      ]);
+
+      if (expected && !source.checksum && tracker.digest !== expected) {
+        throw new BeeswaxUploadError(
+          `Checksum mismatch for ${assetDef.creative_asset_name}: expected ${expected}, got ${tracker.digest}`,
+          {},
+          assetId
+        );
+      }
+    } catch (error: any) {
+      await this.creativeAssets.delete(assetId).catch(() => undefined);
+      if (sourceError) {
+        throw new BeeswaxUploadError(
+          `Reading ${assetDef.creative_asset_name} failed during upload: ${sourceError.message}`,
+          { cause: sourceError },
+          assetId
+        );
+      }
+      throw error;
+    }
+
     // Get the updated asset
     const assetResponse = await this.creativeAssets.find(assetId);
     
@@ -276,13 +577,8 @@ export class BeeswaxClient {
   // Utility method to get current user info
   async getCurrentUser(): Promise<BeeswaxResponse<any>> {
     try {
-      // Create a minimal request without extra headers that cause issues
-      const response = await axios.get(`${this.apiRoot}/rest/user/current`, {
-        headers: {
-          'Cookie': this.sessionCookies || ''
-        },
-        withCredentials: true
-      });
+      // Through the axios instance so the auth strategy (cookie jar or token) applies
+      const response = await this.axiosInstance.get('/rest/user/current');
       return response.data;
     } catch (error: any) {
       if (error.response?.data) {
@@ -334,7 +630,7 @@ export class BeeswaxClient {
     start_date?: string;
     end_date?: string;
     targeting_expression_id?: number;
-    targeting?: any;
+    targeting?: TargetingExpressionTargeting | TargetingExpressionBuilder; // Converted to a targeting expression
     active?: boolean;
     guaranteed?: boolean;
     currency?: string;
@@ -392,7 +688,7 @@ export class BeeswaxClient {
     const excludeFields = ['campaign_id', 'name', 'line_item_name', 'type', 'guaranteed', 
                           'currency', 'budget_type', 'spend_budget', 'bidding', 'cpm_bid',
                           'frequency_caps', 'start_date', 'end_date', 'active', 'budget', 
-                          'line_item_budget'];
+                          'line_item_budget', 'targeting'];
     
     for (const key in params) {
       if (!excludeFields.includes(key) && params[key] !== undefined) {
@@ -403,6 +699,21 @@ export class BeeswaxClient {
     // Add targeting expression if provided
     if (params.targeting_expression_id) {
       (lineItemData as any).targeting_expression_id = params.targeting_expression_id;
+    } else if (params.targeting) {
+      // Inline targeting is not a line item field; it has to live in a targeting expression
+      const expressionResponse = await this.targetingExpressions.create({
+        advertiser_id: campaign.advertiser_id,
+        name: `${lineItemData.name || 'Line Item'} Targeting`,
+        type: lineItemData.type,
+        targeting: resolveTargeting(params.targeting),
+        active: true
+      });
+
+      if (!expressionResponse.success || !expressionResponse.payload?.id) {
+        throw new Error('Failed to create targeting expression for line item');
+      }
+
+      lineItemData.targeting_expression_id = expressionResponse.payload.id;
     }
     
     return this.lineItems.create(lineItemData);
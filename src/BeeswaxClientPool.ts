@@ -0,0 +1,121 @@
+import { BeeswaxClient, DEFAULT_RATE_LIMIT } from './BeeswaxClient';
+import {
+  AccountResult,
+  BeeswaxClientOptions,
+  BeeswaxClientPoolOptions,
+  PoolRunOptions,
+  RateLimiterOptions
+} from './types';
+import { RateLimiter } from './utils/RateLimiter';
+import { mapConcurrent } from './utils/helpers';
+
+/**
+ * Named BeeswaxClients for several Beeswax accounts (buzz keys). Clients are
+ * created and authenticated on first use, accounts on the same API host
+ * share one rate limiter, and run() fans an operation out across accounts.
+ */
+export class BeeswaxClientPool {
+  private options = new Map<string, BeeswaxClientOptions>();
+  private clients = new Map<string, BeeswaxClient>();
+  private authenticating = new Map<string, Promise<BeeswaxClient>>();
+  private limiters = new Map<string, RateLimiter>();
+  private defaults: Partial<BeeswaxClientOptions>;
+  private hostRateLimit: RateLimiterOptions | false;
+
+  constructor(options: BeeswaxClientPoolOptions = {}) {
+    this.defaults = options.defaults || {};
+    this.hostRateLimit = options.rateLimit ?? DEFAULT_RATE_LIMIT;
+
+    Object.entries(options.accounts || {}).forEach(([name, accountOptions]) => this.add(name, accountOptions));
+  }
+
+  get accounts(): string[] {
+    return Array.from(this.options.keys());
+  }
+
+  has(name: string): boolean {
+    return this.options.has(name);
+  }
+
+  add(name: string, options: BeeswaxClientOptions): this {
+    if (this.options.has(name)) {
+      throw new Error(`Account ${name} is already in the pool`);
+    }
+    this.options.set(name, { ...this.defaults, ...options });
+    return this;
+  }
+
+  remove(name: string): boolean {
+    this.clients.delete(name);
+    this.authenticating.delete(name);
+    return this.options.delete(name);
+  }
+
+  /**
+   * The client for an account, created on first use but not authenticated
+   */
+  client(name: string): BeeswaxClient {
+    const existing = this.clients.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const options = this.options.get(name);
+    if (!options) {
+      throw new Error(`Unknown account: ${name}`);
+    }
+
+    const client = new BeeswaxClient({ ...options, rateLimit: this.rateLimitFor(options) });
+    this.clients.set(name, client);
+    return client;
+  }
+
+  /**
+   * The authenticated client for an account. Concurrent callers share one
+   * authentication; a failed one is retried by the next call.
+   */
+  async get(name: string): Promise<BeeswaxClient> {
+    let pending = this.authenticating.get(name);
+    if (!pending) {
+      const client = this.client(name);
+      pending = client.authenticate().then(() => client);
+      this.authenticating.set(name, pending);
+      pending.catch(() => this.authenticating.delete(name));
+    }
+    return pending;
+  }
+
+  /**
+   * Run `operation` for each account and collect the results tagged by
+   * account. One account failing doesn't stop the others.
+   */
+  async run<T>(
+    operation: (client: BeeswaxClient, account: string) => Promise<T>,
+    options: PoolRunOptions = {}
+  ): Promise<AccountResult<T>[]> {
+    const accounts = options.accounts || this.accounts;
+    return mapConcurrent(accounts, options.concurrency || accounts.length, async (account): Promise<AccountResult<T>> => {
+      try {
+        const result = await operation(await this.get(account), account);
+        return { account, success: true, result };
+      } catch (error: any) {
+        return { account, success: false, error };
+      }
+    });
+  }
+
+  // Accounts without their own rateLimit share one limiter per API host
+  private rateLimitFor(options: BeeswaxClientOptions): BeeswaxClientOptions['rateLimit'] {
+    if (options.rateLimit !== undefined || this.hostRateLimit === false || !options.apiRoot) {
+      return options.rateLimit;
+    }
+
+    const host = new URL(options.apiRoot).host;
+    let limiter = this.limiters.get(host);
+    if (!limiter) {
+      limiter = new RateLimiter(this.hostRateLimit);
+      this.limiters.set(host, limiter);
+    }
+    return limiter;
+  }
+}
@@ -0,0 +1,198 @@
+import { AssetFormat, AssetInfo } from '../types';
+import { detectMimeType } from '../utils/mime';
+
+const MIME_FORMATS: Record<string, AssetFormat> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'application/zip': 'zip'
+};
+
+/**
+ * Read format, dimensions, duration/bitrate or zip contents from the asset
+ * content itself. Only headers and container metadata are parsed; fields
+ * that can't be read are left undefined.
+ */
+export function inspectAsset(content: Buffer, filename?: string): AssetInfo {
+  const mimeType = detectMimeType(content, filename);
+  const info: AssetInfo = {
+    format: (mimeType && MIME_FORMATS[mimeType]) || 'unknown',
+    mimeType,
+    size: content.length
+  };
+
+  try {
+    switch (info.format) {
+      case 'png':
+        Object.assign(info, pngDimensions(content));
+        break;
+      case 'gif':
+        Object.assign(info, { width: content.readUInt16LE(6), height: content.readUInt16LE(8) });
+        break;
+      case 'jpeg':
+        Object.assign(info, jpegDimensions(content));
+        break;
+      case 'webp':
+        Object.assign(info, webpDimensions(content));
+        break;
+      case 'mp4':
+      case 'mov':
+        Object.assign(info, mp4Metadata(content));
+        break;
+      case 'zip':
+        info.files = zipEntries(content);
+        break;
+    }
+  } catch (_error) {
+    // Truncated or malformed headers; report what was detected so far
+  }
+
+  return info;
+}
+
+function pngDimensions(content: Buffer) {
+  return { width: content.readUInt32BE(16), height: content.readUInt32BE(20) };
+}
+
+function jpegDimensions(content: Buffer) {
+  let offset = 2;
+
+  while (offset + 4 <= content.length) {
+    if (content[offset] !== 0xff) {
+      return {};
+    }
+    const marker = content[offset + 1];
+
+    // Start of frame markers (SOF0-SOF15 except DHT, JPG and DAC) carry the size
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: content.readUInt16BE(offset + 5), width: content.readUInt16BE(offset + 7) };
+    }
+    if (marker === 0xff) {
+      offset++;
+    } else if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2;
+    } else {
+      offset += 2 + content.readUInt16BE(offset + 2);
+    }
+  }
+
+  return {};
+}
+
+function webpDimensions(content: Buffer) {
+  const chunk = content.toString('latin1', 12, 16);
+
+  if (chunk === 'VP8 ') {
+    return { width: content.readUInt16LE(26) & 0x3fff, height: content.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L') {
+    const bits = content.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') {
+    return { width: content.readUIntLE(24, 3) + 1, height: content.readUIntLE(27, 3) + 1 };
+  }
+  return {};
+}
+
+interface Box {
+  type: string;
+  start: number; // First byte of the box content
+  end: number;
+}
+
+function* boxes(content: Buffer, start: number, end: number): Generator<Box> {
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = content.readUInt32BE(offset);
+    const type = content.toString('latin1', offset + 4, offset + 8);
+    let header = 8;
+
+    if (size === 1) {
+      size = Number(content.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) {
+      return;
+    }
+
+    yield { type, start: offset + header, end: Math.min(offset + size, end) };
+    offset += size;
+  }
+}
+
+function mp4Metadata(content: Buffer) {
+  const metadata: { width?: number; height?: number; duration?: number; bitrate?: number } = {};
+  const moov = Array.from(boxes(content, 0, content.length)).find(box => box.type === 'moov');
+  if (!moov) {
+    return metadata;
+  }
+
+  for (const box of boxes(content, moov.start, moov.end)) {
+    if (box.type === 'mvhd') {
+      const version = content[box.start];
+      const timescale = content.readUInt32BE(box.start + (version === 1 ? 20 : 12));
+      const duration = version === 1
+        ? Number(content.readBigUInt64BE(box.start + 24))
+        : content.readUInt32BE(box.start + 16);
+      if (timescale) {
+        metadata.duration = duration / timescale;
+      }
+    }
+
+    if (box.type === 'trak' && !metadata.width) {
+      const tkhd = Array.from(boxes(content, box.start, box.end)).find(child => child.type === 'tkhd');
+      if (tkhd) {
+        const offset = tkhd.start + (content[tkhd.start] === 1 ? 88 : 76);
+        // 16.16 fixed point; audio tracks report 0x0
+        const width = content.readUInt32BE(offset) / 65536;
+        const height = content.readUInt32BE(offset + 4) / 65536;
+        if (width && height) {
+          metadata.width = Math.round(width);
+          metadata.height = Math.round(height);
+        }
+      }
+    }
+  }
+
+  if (metadata.duration) {
+    metadata.bitrate = Math.round((content.length * 8) / metadata.duration / 1000);
+  }
+
+  return metadata;
+}
+
+function zipEntries(content: Buffer): string[] {
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let offset = content.length - 22; offset >= Math.max(0, content.length - 22 - 0xffff); offset--) {
+    if (content.readUInt32LE(offset) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    return [];
+  }
+
+  const count = content.readUInt16LE(eocd + 10);
+  const files: string[] = [];
+  let offset = content.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < count && content.readUInt32LE(offset) === 0x02014b50; i++) {
+    const nameLength = content.readUInt16LE(offset + 28);
+    const extraLength = content.readUInt16LE(offset + 30);
+    const commentLength = content.readUInt16LE(offset + 32);
+    files.push(content.toString('utf8', offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
@@ -0,0 +1,175 @@
+import {
+  AssetInfo,
+  AssetRules,
+  AssetValidationOptions,
+  AssetValidationResult,
+  AssetViolation,
+  CreativeType
+} from '../types';
+import { inspectAsset } from './inspectAsset';
+
+const MB = 1024 * 1024;
+
+/**
+ * Default rules per creative type. Pass overrides (e.g. the creative's
+ * width/height) in AssetValidationOptions.
+ */
+export const DEFAULT_ASSET_RULES: Record<CreativeType, AssetRules> = {
+  [CreativeType.DISPLAY]: {
+    formats: ['png', 'jpeg', 'gif', 'webp', 'zip'],
+    maxSize: 2 * MB,
+    requiredFiles: ['index.html'],
+    maxFiles: 100
+  },
+  [CreativeType.VIDEO]: {
+    formats: ['mp4', 'webm', 'mov'],
+    maxSize: 200 * MB,
+    minDuration: 1,
+    maxDuration: 180,
+    maxBitrate: 20000
+  },
+  [CreativeType.NATIVE]: {
+    formats: ['png', 'jpeg', 'gif', 'webp'],
+    maxSize: 2 * MB,
+    minWidth: 100,
+    minHeight: 100
+  }
+};
+
+/**
+ * Inspect asset content and check it against the rules for its creative type
+ */
+export function validateCreativeAsset(
+  content: Buffer,
+  options: AssetValidationOptions,
+  filename?: string
+): AssetValidationResult {
+  const info = inspectAsset(content, filename);
+  const { creativeType, ...overrides } = options;
+  const violations = checkAssetRules(info, { ...DEFAULT_ASSET_RULES[creativeType], ...overrides });
+
+  return { valid: violations.length === 0, info, violations };
+}
+
+export function checkAssetRules(info: AssetInfo, rules: AssetRules): AssetViolation[] {
+  const violations: AssetViolation[] = [];
+  const add = (violation: AssetViolation) => violations.push(violation);
+
+  if (rules.formats && !rules.formats.includes(info.format)) {
+    add({
+      code: 'format',
+      field: 'format',
+      message: `Format ${info.format} is not allowed, expected one of ${rules.formats.join(', ')}`,
+      expected: rules.formats.join(', '),
+      actual: info.format
+    });
+    // Nothing else is meaningful for content we can't read
+    return violations;
+  }
+
+  if (rules.maxSize !== undefined && info.size > rules.maxSize) {
+    add({
+      code: 'size',
+      field: 'size',
+      message: `File is ${info.size} bytes, the limit is ${rules.maxSize}`,
+      expected: rules.maxSize,
+      actual: info.size
+    });
+  }
+
+  checkDimensions(info, rules, add);
+
+  // Durations are read from MP4/QuickTime boxes only
+  if ((info.format === 'mp4' || info.format === 'mov') && info.duration === undefined
+    && (rules.minDuration !== undefined || rules.maxDuration !== undefined)) {
+    add({ code: 'unreadable', field: 'duration', message: 'Could not read the video duration (no moov/mvhd box)' });
+  }
+  if (info.duration !== undefined) {
+    if (rules.minDuration !== undefined && info.duration < rules.minDuration) {
+      add({
+        code: 'duration',
+        field: 'duration',
+        message: `Video is ${info.duration}s, the minimum is ${rules.minDuration}s`,
+        expected: rules.minDuration,
+        actual: info.duration
+      });
+    }
+    if (rules.maxDuration !== undefined && info.duration > rules.maxDuration) {
+      add({
+        code: 'duration',
+        field: 'duration',
+        message: `Video is ${info.duration}s, the maximum is ${rules.maxDuration}s`,
+        expected: rules.maxDuration,
+        actual: info.duration
+      });
+    }
+  }
+  if (info.bitrate !== undefined && rules.maxBitrate !== undefined && info.bitrate > rules.maxBitrate) {
+    add({
+      code: 'bitrate',
+      field: 'bitrate',
+      message: `Video bitrate is ${info.bitrate} kbps, the maximum is ${rules.maxBitrate} kbps`,
+      expected: rules.maxBitrate,
+      actual: info.bitrate
+    });
+  }
+
+  if (info.format === 'zip') {
+    const files = info.files || [];
+    (rules.requiredFiles || [])
+      .filter(required => !files.some(file => file === required || file.endsWith(`/${required}`)))
+      .forEach(required => add({
+        code: 'missing_file',
+        field: 'files',
+        message: `HTML5 zip is missing ${required}`,
+        expected: required
+      }));
+    if (rules.maxFiles !== undefined && files.length > rules.maxFiles) {
+      add({
+        code: 'file_count',
+        field: 'files',
+        message: `HTML5 zip has ${files.length} files, the limit is ${rules.maxFiles}`,
+        expected: rules.maxFiles,
+        actual: files.length
+      });
+    }
+  }
+
+  return violations;
+}
+
+function checkDimensions(info: AssetInfo, rules: AssetRules, add: (violation: AssetViolation) => void) {
+  const limits: Array<[keyof AssetRules, 'width' | 'height', (actual: number, limit: number) => boolean, string]> = [
+    ['width', 'width', (actual, limit) => actual === limit, 'exactly'],
+    ['height', 'height', (actual, limit) => actual === limit, 'exactly'],
+    ['minWidth', 'width', (actual, limit) => actual >= limit, 'at least'],
+    ['minHeight', 'height', (actual, limit) => actual >= limit, 'at least'],
+    ['maxWidth', 'width', (actual, limit) => actual <= limit, 'at most'],
+    ['maxHeight', 'height', (actual, limit) => actual <= limit, 'at most']
+  ];
+
+  const unreadable = new Set<string>();
+
+  for (const [rule, field, passes, wording] of limits) {
+    const limit = rules[rule] as number | undefined;
+    const actual = info[field];
+    // HTML5 zips have no intrinsic size
+    if (limit === undefined || info.format === 'zip') {
+      continue;
+    }
+    if (actual === undefined) {
+      if (!unreadable.has(field)) {
+        unreadable.add(field);
+        add({ code: 'unreadable', field, message: `Could not read the ${field} of the asset` });
+      }
+    } else if (!passes(actual, limit)) {
+      add({
+        code: 'dimensions',
+        field,
+        message: `${field === 'width' ? 'Width' : 'Height'} is ${actual}px, expected ${wording} ${limit}px`,
+        expected: limit,
+        actual
+      });
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import { AxiosError, AxiosInstance, AxiosResponse } from 'axios';
+import { BeeswaxCredentials } from '../types';
+import { BeeswaxAuthError, toBeeswaxError } from '../errors';
+import { CookieJar } from './CookieJar';
+import { SessionLockOptions, SessionStore, StoredSession, isSessionValid, withSessionLock } from './SessionStore';
+
+/**
+ * How a BeeswaxClient authenticates. The client calls attach() with its
+ * apiRoot when it takes the strategy, authenticate() from
+ * client.authenticate(), applyAuth() on every request, onResponse() on every
+ * response and onUnauthorized() when a request comes back 401.
+ *
+ * `http` is a bare axios instance on the API root, without the client's
+ * interceptors, for login/refresh calls. `url` is the full request URL.
+ */
+export interface AuthStrategy {
+  attach?(apiRoot: string): void;
+  authenticate(http: AxiosInstance): Promise<void>;
+  applyAuth(headers: Record<string, any>, url: string): void;
+  onResponse?(response: AxiosResponse, url: string): void;
+  /** Resolve true to retry the failed request once, false to surface the 401 */
+  onUnauthorized(http: AxiosInstance, error: AxiosError): Promise<boolean>;
+}
+
+/**
+ * Uses an existing Beeswax session, e.g. one obtained by a login job: a
+ * `Cookie` header value or a CookieJar. Cookies set by responses are kept in
+ * the jar. The session can't be renewed, so a 401 is surfaced as
+ * BeeswaxAuthError.
+ */
+export class CookieAuthStrategy implements AuthStrategy {
+  public readonly jar: CookieJar;
+  private pendingCookie?: string; // Bound to the API host on attach()
+
+  constructor(cookie?: string | CookieJar) {
+    if (cookie instanceof CookieJar) {
+      this.jar = cookie;
+    } else {
+      this.jar = new CookieJar();
+      this.pendingCookie = cookie;
+    }
+  }
+
+  attach(apiRoot: string): void {
+    this.importPending(apiRoot);
+  }
+
+  async authenticate(http: AxiosInstance): Promise<void> {
+    this.importPending(http.defaults.baseURL as string);
+    if (!this.jar.size) {
+      throw new BeeswaxAuthError('No session cookie to authenticate with');
+    }
+  }
+
+  applyAuth(headers: Record<string, any>, url: string): void {
+    const cookie = this.jar.getCookieHeader(url);
+    if (cookie) {
+      headers['Cookie'] = cookie;
+    }
+  }
+
+  onResponse(response: AxiosResponse, url: string): void {
+    this.jar.setCookies(response.headers?.['set-cookie'], url);
+  }
+
+  async onUnauthorized(_http: AxiosInstance, _error: AxiosError): Promise<boolean> {
+    return false;
+  }
+
+  private importPending(url: string): void {
+    if (this.pendingCookie) {
+      this.jar.setCookieHeader(this.pendingCookie, url);
+      this.pendingCookie = undefined;
+    }
+  }
+}
+
+export interface PasswordAuthOptions {
+  sessionStore?: SessionStore; // Share sessions between clients and processes
+  sessionKey?: string; // Defaults to the API root and email
+  sessionTtl?: number; // How long a stored session is reused in ms, defaults to 12 hours
+  lock?: SessionLockOptions; // Lock taken while logging in
+}
+
+const DEFAULT_SESSION_TTL = 12 * 60 * 60 * 1000;
+
+/**
+ * Logs in with email/password against /rest/authenticate and keeps the
+ * session cookie, logging in again when the session expires. The default.
+ *
+ * With a session store, a stored session is reused until it expires and
+ * logging in happens under the store's lock: whoever waited for the lock
+ * picks up the session the holder stored instead of logging in again.
+ */
+export class PasswordAuthStrategy extends CookieAuthStrategy {
+  private creds: BeeswaxCredentials;
+  private options: PasswordAuthOptions;
+
+  constructor(creds: BeeswaxCredentials, options: PasswordAuthOptions = {}) {
+    super();
+    if (!creds || !creds.email || !creds.password) {
+      throw new Error('Must provide creds object with email + password');
+    }
+    this.creds = creds;
+    this.options = options;
+  }
+
+  async authenticate(http: AxiosInstance): Promise<void> {
+    const store = this.options.sessionStore;
+    if (!store) {
+      return this.login(http);
+    }
+
+    const stored = await store.get(this.sessionKey(http));
+    if (isSessionValid(stored)) {
+      this.restore(stored, http);
+      return;
+    }
+    await this.refreshSession(http, store);
+  }
+
+  async onUnauthorized(http: AxiosInstance, _error: AxiosError): Promise<boolean> {
+    const store = this.options.sessionStore;
+    if (store) {
+      await this.refreshSession(http, store);
+    } else {
+      await this.login(http);
+    }
+    return true;
+  }
+
+  // Log in once across everyone sharing the store; the session we hold now is known not to work
+  private async refreshSession(http: AxiosInstance, store: SessionStore): Promise<void> {
+    const key = this.sessionKey(http);
+    const rejected = this.jar.getCookieHeader(this.loginUrl(http));
+
+    const locked = await withSessionLock(store, key, async () => {
+      const stored = await store.get(key);
+      if (isSessionValid(stored) && stored.cookies !== rejected) {
+        this.restore(stored, http);
+        return;
+      }
+
+      await this.login(http);
+      const now = Date.now();
+      await store.set(key, {
+        cookies: this.jar.getCookieHeader(this.loginUrl(http)),
+        jar: this.jar.toJSON(),
+        createdAt: now,
+        expiresAt: now + (this.options.sessionTtl ?? DEFAULT_SESSION_TTL)
+      });
+    }, this.options.lock);
+
+    // Couldn't get the lock in time; log in without sharing rather than fail
+    if (!locked) {
+      await this.login(http);
+    }
+  }
+
+  private restore(session: StoredSession, http: AxiosInstance): void {
+    this.jar.clear();
+    if (session.jar) {
+      this.jar.load(session.jar);
+    } else {
+      this.jar.setCookieHeader(session.cookies, this.loginUrl(http));
+    }
+  }
+
+  private loginUrl(http: AxiosInstance): string {
+    return http.getUri({ url: '/rest/authenticate' });
+  }
+
+  private sessionKey(http: AxiosInstance): string {
+    return this.options.sessionKey || `beeswax:${http.defaults.baseURL}:${this.creds.email}`;
+  }
+
+  private async login(http: AxiosInstance): Promise<void> {
+    try {
+      const response = await http.post('/rest/authenticate', {
+        email: this.creds.email,
+        password: this.creds.password,
+        keep_logged_in: true
+      });
+
+      if (response.data.success === false) {
+        throw new BeeswaxAuthError(`Authentication failed: ${JSON.stringify(response.data)}`, {
+          status: response.status,
+          endpoint: '/rest/authenticate',
+          method: 'POST',
+          responseBody: response.data
+        });
+      }
+
+      this.jar.clear();
+      this.onResponse(response, this.loginUrl(http));
+    } catch (error: any) {
+      if (error instanceof BeeswaxAuthError) {
+        throw error;
+      }
+      if (error.response) {
+        const cause = toBeeswaxError(error, { endpoint: '/rest/authenticate', method: 'POST' });
+        throw new BeeswaxAuthError(`Authentication failed: ${error.response.status} - ${JSON.stringify(error.response.data)}`, {
+          status: cause.status,
+          endpoint: cause.endpoint,
+          method: cause.method,
+          requestId: cause.requestId,
+          messages: cause.messages,
+          responseBody: cause.responseBody,
+          cause: error
+        });
+      }
+      throw toBeeswaxError(error, { endpoint: '/rest/authenticate', method: 'POST' });
+    }
+  }
+}
+
+export interface TokenAuthOptions {
+  header?: string; // Defaults to 'Authorization'
+  scheme?: string; // Defaults to 'Bearer'; '' sends the bare token
+  refresh?: () => Promise<string>; // Called on 401 to obtain a new token
+  apiRoot?: string; // Where the token may be sent; defaults to the client's apiRoot
+}
+
+/**
+ * Sends a long-lived API token with every request to the API's origin, but
+ * not to other hosts such as pre-signed report download URLs. Without a
+ * `refresh` callback a 401 is surfaced as BeeswaxAuthError.
+ */
+export class TokenAuthStrategy implements AuthStrategy {
+  private token: string;
+  private header: string;
+  private scheme: string;
+  private refresh?: () => Promise<string>;
+  private origin?: string; // Bound to the API origin on attach()
+
+  constructor(token: string, options: TokenAuthOptions = {}) {
+    if (!token) {
+      throw new Error('Must provide an API token');
+    }
+    this.token = token;
+    this.header = options.header || 'Authorization';
+    this.scheme = options.scheme ?? 'Bearer';
+    this.refresh = options.refresh;
+    this.origin = options.apiRoot && new URL(options.apiRoot).origin;
+  }
+
+  attach(apiRoot: string): void {
+    this.origin = this.origin || new URL(apiRoot).origin;
+  }
+
+  async authenticate(_http: AxiosInstance): Promise<void> {
+    // Nothing to exchange; the token is sent as is
+  }
+
+  applyAuth(headers: Record<string, any>, url: string): void {
+    if (this.origin && new URL(url).origin === this.origin) {
+      headers[this.header] = this.scheme ? `${this.scheme} ${this.token}` : this.token;
+    }
+  }
+
+  async onUnauthorized(_http: AxiosInstance, _error: AxiosError): Promise<boolean> {
+    if (!this.refresh) {
+      return false;
+    }
+    this.token = await this.refresh();
+    return true;
+  }
+}
@@ -0,0 +1,202 @@
+export interface Cookie {
+  name: string;
+  value: string;
+  domain: string; // Without a leading dot
+  path: string;
+  hostOnly: boolean; // No Domain attribute: sent to the exact host only
+  expires?: number; // Epoch ms; session cookie when undefined
+  secure: boolean;
+  httpOnly: boolean;
+  createdAt: number;
+}
+
+/**
+ * Minimal RFC 6265 cookie jar: parses Set-Cookie headers, keeps cookies
+ * keyed by name/domain/path so later responses update earlier ones, drops
+ * expired cookies and serializes only name=value pairs for a request URL.
+ */
+export class CookieJar {
+  private cookies = new Map<string, Cookie>();
+
+  constructor(cookies: Cookie[] = []) {
+    this.load(cookies);
+  }
+
+  /**
+   * Add previously serialized cookies (see toJSON)
+   */
+  load(cookies: Cookie[]): void {
+    cookies.forEach(cookie => this.store(cookie));
+  }
+
+  get size(): number {
+    this.removeExpired();
+    return this.cookies.size;
+  }
+
+  /**
+   * Store the cookies from a response's Set-Cookie header(s)
+   */
+  setCookies(setCookie: string | string[] | undefined, url: string): void {
+    const headers = Array.isArray(setCookie) ? setCookie : setCookie ? [setCookie] : [];
+    headers.forEach(header => this.setCookie(header, url));
+  }
+
+  setCookie(header: string, url: string, now = Date.now()): void {
+    const { hostname, pathname } = new URL(url);
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      return;
+    }
+
+    const cookie: Cookie = {
+      name: pair.slice(0, separator).trim(),
+      value: stripQuotes(pair.slice(separator + 1).trim()),
+      domain: hostname.toLowerCase(),
+      path: defaultPath(pathname),
+      hostOnly: true,
+      secure: false,
+      httpOnly: false,
+      createdAt: now
+    };
+    let maxAge: number | undefined;
+
+    for (const attribute of attributes) {
+      const [rawName, ...rest] = attribute.split('=');
+      const name = rawName.trim().toLowerCase();
+      const value = rest.join('=').trim();
+
+      if (name === 'expires') {
+        const expires = Date.parse(value);
+        if (!isNaN(expires)) {
+          cookie.expires = expires;
+        }
+      } else if (name === 'max-age' && /^-?\d+$/.test(value)) {
+        maxAge = Number(value);
+      } else if (name === 'domain' && value) {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        // Reject cookies for domains the response can't set
+        if (!domainMatches(cookie.domain, domain)) {
+          return;
+        }
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+      } else if (name === 'path' && value.startsWith('/')) {
+        cookie.path = value;
+      } else if (name === 'secure') {
+        cookie.secure = true;
+      } else if (name === 'httponly') {
+        cookie.httpOnly = true;
+      }
+    }
+
+    // Max-Age wins over Expires
+    if (maxAge !== undefined) {
+      cookie.expires = now + maxAge * 1000;
+    }
+
+    const existing = this.cookies.get(keyOf(cookie));
+    if (existing) {
+      cookie.createdAt = existing.createdAt;
+    }
+    if (cookie.expires !== undefined && cookie.expires <= now) {
+      // An already-expired cookie is how servers delete one
+      this.cookies.delete(keyOf(cookie));
+      return;
+    }
+    this.store(cookie);
+  }
+
+  /**
+   * Import a `Cookie` request header (name=value pairs), e.g. a session
+   * obtained elsewhere, as host-only cookies for `url`
+   */
+  setCookieHeader(cookieHeader: string, url: string): void {
+    const domain = new URL(url).hostname.toLowerCase();
+    cookieHeader.split(';').forEach(pair => {
+      const separator = pair.indexOf('=');
+      if (separator > 0) {
+        this.store({
+          name: pair.slice(0, separator).trim(),
+          value: pair.slice(separator + 1).trim(),
+          domain,
+          path: '/',
+          hostOnly: true,
+          secure: false,
+          httpOnly: false,
+          createdAt: Date.now()
+        });
+      }
+    });
+  }
+
+  /**
+   * Cookies to send with a request to `url`, longest path first
+   */
+  getCookies(url: string, now = Date.now()): Cookie[] {
+    const { protocol, hostname, pathname } = new URL(url);
+    this.removeExpired(now);
+
+    return Array.from(this.cookies.values())
+      .filter(cookie => cookie.hostOnly ? cookie.domain === hostname.toLowerCase() : domainMatches(hostname, cookie.domain))
+      .filter(cookie => pathMatches(pathname || '/', cookie.path))
+      .filter(cookie => !cookie.secure || protocol === 'https:')
+      .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Value for the `Cookie` request header, or '' when nothing matches
+   */
+  getCookieHeader(url: string): string {
+    return this.getCookies(url).map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+  }
+
+  clear(): void {
+    this.cookies.clear();
+  }
+
+  toJSON(): Cookie[] {
+    this.removeExpired();
+    return Array.from(this.cookies.values());
+  }
+
+  private store(cookie: Cookie): void {
+    this.cookies.set(keyOf(cookie), cookie);
+  }
+
+  private removeExpired(now = Date.now()): void {
+    this.cookies.forEach((cookie, key) => {
+      if (cookie.expires !== undefined && cookie.expires <= now) {
+        this.cookies.delete(key);
+      }
+    });
+  }
+}
+
+function keyOf(cookie: Cookie): string {
+  return `${cookie.domain};${cookie.path};${cookie.name}`;
+}
+
+function stripQuotes(value: string): string {
+  return value.length > 1 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+}
+
+function domainMatches(hostname: string, domain: string): boolean {
+  const host = hostname.toLowerCase();
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  return requestPath === cookiePath
+    || (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+}
+
+// The directory of the request path (RFC 6265 5.1.4)
+function defaultPath(pathname: string): string {
+  if (!pathname.startsWith('/')) {
+    return '/';
+  }
+  const lastSlash = pathname.lastIndexOf('/');
+  return lastSlash === 0 ? '/' : pathname.slice(0, lastSlash);
+}
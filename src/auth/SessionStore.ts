@@ -0,0 +1,257 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { delay } from '../utils/helpers';
+import type { Cookie } from './CookieJar';
+
+export interface StoredSession {
+  cookies: string; // Cookie header value
+  jar?: Cookie[]; // The full cookies, with domain/path/expiry
+  createdAt: number; // Epoch ms
+  expiresAt?: number; // Epoch ms; reused until then
+}
+
+/**
+ * Where logged-in sessions are kept so clients (and processes) sharing a
+ * store reuse one session instead of each logging in. Implement this for
+ * Redis etc.: acquireLock() must be atomic across every sharer (e.g.
+ * SET key owner NX PX ttl) and the lock must expire on its own after `ttlMs`.
+ * releaseLock() must only remove a lock `owner` still holds, so a holder
+ * whose lock expired can't release the next holder's.
+ */
+export interface SessionStore {
+  get(key: string): Promise<StoredSession | undefined>;
+  set(key: string, session: StoredSession): Promise<void>;
+  delete(key: string): Promise<void>;
+  acquireLock(key: string, ttlMs: number, owner?: string): Promise<boolean>;
+  releaseLock(key: string, owner?: string): Promise<void>;
+}
+
+export interface SessionLockOptions {
+  ttl?: number; // How long a lock may be held, defaults to 30s
+  timeout?: number; // How long to wait for the lock, defaults to the ttl
+  pollInterval?: number; // Defaults to 100ms
+}
+
+/**
+ * Run `task` while holding the store's lock for `key`. Resolves with
+ * undefined, without running the task, if the lock can't be acquired in time.
+ */
+export async function withSessionLock<T>(
+  store: SessionStore,
+  key: string,
+  task: () => Promise<T>,
+  options: SessionLockOptions = {}
+): Promise<{ result: T } | undefined> {
+  const ttl = options.ttl ?? 30000;
+  const deadline = Date.now() + (options.timeout ?? ttl);
+  const owner = lockOwner();
+
+  while (!(await store.acquireLock(key, ttl, owner))) {
+    if (Date.now() >= deadline) {
+      return undefined;
+    }
+    await delay(options.pollInterval ?? 100);
+  }
+
+  try {
+    return { result: await task() };
+  } finally {
+    await store.releaseLock(key, owner);
+  }
+}
+
+export function isSessionValid(session: StoredSession | undefined, now = Date.now()): session is StoredSession {
+  return !!session && !!session.cookies && (session.expiresAt === undefined || session.expiresAt > now);
+}
+
+/**
+ * Sessions shared by every client in this process. Locks taken without an
+ * owner are released by the store that took them, as with FileSessionStore.
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, StoredSession>();
+  private locks = new Map<string, { owner: string; expiresAt: number }>();
+  private owners = new Map<string, string>(); // key -> token of the lock this store took last
+
+  async get(key: string): Promise<StoredSession | undefined> {
+    return this.sessions.get(key);
+  }
+
+  async set(key: string, session: StoredSession): Promise<void> {
+    this.sessions.set(key, session);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.sessions.delete(key);
+  }
+
+  async acquireLock(key: string, ttlMs: number, owner = lockOwner()): Promise<boolean> {
+    const lock = this.locks.get(key);
+    if (lock && lock.expiresAt > Date.now()) {
+      return false;
+    }
+    this.locks.set(key, { owner, expiresAt: Date.now() + ttlMs });
+    this.owners.set(key, owner);
+    return true;
+  }
+
+  async releaseLock(key: string, owner = this.owners.get(key)): Promise<void> {
+    if (this.owners.get(key) === owner) {
+      this.owners.delete(key);
+    }
+    // Leave a lock someone took over after ours expired alone
+    if (owner !== undefined && this.locks.get(key)?.owner === owner) {
+      this.locks.delete(key);
+    }
+  }
+}
+
+interface LockFile {
+  content: string;
+  owner?: string;
+  expiresAt?: number; // Epoch ms; unknown for empty or unreadable lock files
+  modifiedAt: number;
+}
+
+/**
+ * Sessions kept as JSON files in a directory, shared by every process on the
+ * machine. Locks are lock files holding an owner token and expiry, linked
+ * into place so they never exist half-written. Stale ones (past their expiry,
+ * or unreadable and older than the ttl) are taken over, and only the owner
+ * releases a lock.
+ */
+export class FileSessionStore implements SessionStore {
+  private owners = new Map<string, string>(); // key -> token of the lock this store took last
+
+  constructor(private directory: string) {}
+
+  async get(key: string): Promise<StoredSession | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.path(key, 'json'), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, session: StoredSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    // Write then rename so readers never see a partial file
+    const path = this.path(key, 'json');
+    const temp = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session), { mode: 0o600 });
+    await fs.rename(temp, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.path(key, 'json'), { force: true });
+  }
+
+  async acquireLock(key: string, ttlMs: number, owner = lockOwner()): Promise<boolean> {
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    const path = this.path(key, 'lock');
+    const content = JSON.stringify({ owner, expiresAt: Date.now() + ttlMs });
+
+    let acquired = await this.createLock(path, content);
+    if (!acquired) {
+      // Take over a lock whose holder died without releasing it
+      const current = await readLock(path);
+      if (current && (current.expiresAt ?? current.modifiedAt + ttlMs) < Date.now()) {
+        acquired = await this.removeLock(path, current.content) && await this.createLock(path, content);
+      }
+    }
+
+    if (acquired) {
+      this.owners.set(key, owner);
+    }
+    return acquired;
+  }
+
+  async releaseLock(key: string, owner = this.owners.get(key)): Promise<void> {
+    if (this.owners.get(key) === owner) {
+      this.owners.delete(key);
+    }
+
+    // Leave a lock someone took over after ours expired alone
+    const path = this.path(key, 'lock');
+    const current = await readLock(path);
+    if (owner && current?.owner === owner) {
+      await this.removeLock(path, current.content);
+    }
+  }
+
+  // Write the lock to a temp file and link it into place, which fails if a
+  // lock exists, so the lock file is never seen empty
+  private async createLock(path: string, content: string): Promise<boolean> {
+    const temp = `${path}.${randomBytes(8).toString('hex')}.tmp`;
+    await fs.writeFile(temp, content, { mode: 0o600 });
+    try {
+      await fs.link(temp, path);
+      return true;
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    } finally {
+      await fs.rm(temp, { force: true });
+    }
+  }
+
+  // Remove the lock file only if it still holds `expected`. Renaming it aside
+  // succeeds for one caller only; a lock that changed meanwhile is put back.
+  private async removeLock(path: string, expected: string): Promise<boolean> {
+    const aside = `${path}.${randomBytes(8).toString('hex')}.old`;
+    try {
+      await fs.rename(path, aside);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      if (await fs.readFile(aside, 'utf8') === expected) {
+        return true;
+      }
+      await fs.link(aside, path).catch(() => undefined);
+      return false;
+    } finally {
+      await fs.rm(aside, { force: true });
+    }
+  }
+
+  private path(key: string, extension: string): string {
+    const name = createHash('sha256').update(key).digest('hex').slice(0, 32);
+    return join(this.directory, `${name}.${extension}`);
+  }
+}
+
+function lockOwner(): string {
+  return randomBytes(16).toString('hex');
+}
+
+async function readLock(path: string): Promise<LockFile | undefined> {
+  try {
+    const { mtimeMs } = await fs.stat(path);
+    const content = await fs.readFile(path, 'utf8');
+    const lock: LockFile = { content, modifiedAt: mtimeMs };
+    try {
+      const fields = JSON.parse(content);
+      lock.owner = typeof fields?.owner === 'string' ? fields.owner : undefined;
+      lock.expiresAt = Number.isFinite(fields?.expiresAt) ? fields.expiresAt : undefined;
+    } catch (_error) {
+      // Unreadable; judged by its age
+    }
+    return lock;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
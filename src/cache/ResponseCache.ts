@@ -0,0 +1,155 @@
+import type { BeeswaxResponse } from '../types';
+import { stableStringify } from '../utils/helpers';
+
+/**
+ * Where cached responses are kept. Implement this for Redis etc.; entries
+ * must expire on their own after `ttlMs`.
+ */
+export interface CacheStore {
+  get(key: string): Promise<BeeswaxResponse | undefined>;
+  set(key: string, value: BeeswaxResponse, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear?(): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  ttl?: number; // Milliseconds, defaults to 60s
+  maxEntries?: number; // LRU size of the default MemoryCacheStore, defaults to 500
+  store?: CacheStore; // Defaults to a MemoryCacheStore
+  resources?: string[]; // Resource names to cache, e.g. ['advertiser', 'campaign']; defaults to all
+}
+
+export type CachedOperation = 'find' | 'query';
+
+const DEFAULT_TTL = 60000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * In-process LRU store. Values are copied in and out, so callers mutating a
+ * payload don't change the cached one.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<BeeswaxResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    // Re-insert so iteration order tracks recency
+    this.entries.set(key, entry);
+    return JSON.parse(entry.value);
+  }
+
+  async set(key: string, value: BeeswaxResponse, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value: JSON.stringify(value), expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Caches resource find()/query() responses keyed on endpoint, operation and
+ * normalized query body. Writes through a resource invalidate its list
+ * queries and the find() of the written id. The list queries to drop are
+ * tracked in this process, so with a shared store other processes' entries
+ * live out their TTL.
+ */
+export class ResponseCache {
+  private store: CacheStore;
+  private ttl: number;
+  private resources?: Set<string>;
+  private queryKeys = new Map<string, Set<string>>(); // endpoint -> query() keys
+  private generations = new Map<string, number>(); // endpoint -> invalidations so far
+  private clears = 0;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store || new MemoryCacheStore(options.maxEntries);
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.resources = options.resources && new Set(options.resources);
+  }
+
+  caches(resource: string): boolean {
+    return !this.resources || this.resources.has(resource);
+  }
+
+  /**
+   * Return the cached response for this lookup, or load and cache it.
+   * Only successful responses with a payload are cached, and only if the
+   * endpoint wasn't invalidated while the load was running.
+   */
+  async wrap<R extends BeeswaxResponse>(
+    endpoint: string,
+    operation: CachedOperation,
+    args: Record<string, any>,
+    load: () => Promise<R>
+  ): Promise<R> {
+    const key = cacheKey(endpoint, operation, args);
+    const cached = await this.store.get(key);
+    if (cached) {
+      return cached as R;
+    }
+
+    const generation = this.generation(endpoint);
+    const response = await load();
+    if (response.success && response.payload !== undefined && this.generation(endpoint) === generation) {
+      await this.store.set(key, response, this.ttl);
+      if (operation === 'query') {
+        const keys = this.queryKeys.get(endpoint) || new Set<string>();
+        keys.add(key);
+        this.queryKeys.set(endpoint, keys);
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Drop the list queries of an endpoint and, given an id, its find()
+   */
+  async invalidate(endpoint: string, id?: number | string): Promise<void> {
+    const keys = Array.from(this.queryKeys.get(endpoint) || []);
+    this.queryKeys.delete(endpoint);
+    this.generations.set(endpoint, (this.generations.get(endpoint) ?? 0) + 1);
+    if (id !== undefined) {
+      keys.push(cacheKey(endpoint, 'find', { id }));
+    }
+    await Promise.all(keys.map(key => this.store.delete(key)));
+  }
+
+  async clear(): Promise<void> {
+    this.queryKeys.clear();
+    this.generations.clear();
+    this.clears++;
+    await this.store.clear?.();
+  }
+
+  private generation(endpoint: string): string {
+    return `${this.clears}:${this.generations.get(endpoint) ?? 0}`;
+  }
+}
+
+function cacheKey(endpoint: string, operation: CachedOperation, args: Record<string, any>): string {
+  return `beeswax:${endpoint}:${operation}:${stableStringify(args)}`;
+}
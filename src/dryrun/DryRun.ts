@@ -0,0 +1,318 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Writable } from 'stream';
+import { createBeeswaxError } from '../errors';
+import type { RequestContext } from '../middleware/Middleware';
+import type { BeeswaxResponse } from '../types';
+import { isPOJO } from '../utils/helpers';
+import type { Logger } from '../utils/logger';
+
+export interface DryRunCall {
+  method: string;
+  endpoint: string;
+  resource?: string;
+  body?: any; // Uploads are summarized as '[multipart: N bytes]'
+  params?: any;
+  id?: number | string; // Entity written; negative synthetic ids for creates
+}
+
+export interface DryRunResult<T> {
+  result: T;
+  calls: DryRunCall[]; // Writes that would have been sent, in order
+}
+
+interface SyntheticEntity {
+  id: number;
+  entity: Record<string, any>;
+}
+
+// What the writes of a dry run would have changed, so later reads see it
+interface DryRunState {
+  nextId: number;
+  created: Map<string, Map<string, SyntheticEntity>>; // By resource, then id
+  edited: Map<string, Map<string, Record<string, any>>>; // Changes to existing entities
+  deleted: Map<string, Set<string>>;
+}
+
+interface DryRunScope {
+  state: DryRunState;
+  calls: DryRunCall[][]; // One list per enclosing operation
+}
+
+// Query keys that page or sort rather than filter
+const PAGING_KEYS = ['rows', 'offset', 'sort_by', 'order', 'limit', 'ordering'];
+
+/**
+ * Dry-run mode for a client. Writes (POST/PUT/PATCH/DELETE) are recorded
+ * instead of sent and answered with what the API would return, creates
+ * getting negative synthetic ids. Reads still go to the API, so defaults
+ * resolve from live data, with the recorded writes layered on top: a
+ * created entity can be found, edits show up and deleted entities are gone.
+ * Report queue submissions aren't writes and are sent as usual.
+ */
+export class DryRun {
+  private storage = new AsyncLocalStorage<DryRunScope>();
+  private clientState?: DryRunState;
+
+  constructor(enabled: boolean, private logger: Logger) {
+    if (enabled) {
+      this.clientState = createState();
+    }
+  }
+
+  /**
+   * Whether requests made here are dry-run: always for a `dryRun` client,
+   * otherwise inside run()
+   */
+  get active(): boolean {
+    return this.scope() !== undefined;
+  }
+
+  /**
+   * Run `operation` in dry-run mode, collecting the writes it would send
+   */
+  async run<T>(operation: () => Promise<T>): Promise<DryRunResult<T>> {
+    const parent = this.scope();
+    const calls: DryRunCall[] = [];
+    const scope: DryRunScope = {
+      state: parent?.state || createState(),
+      calls: [...(parent?.calls || []), calls]
+    };
+    const result = await this.storage.run(scope, operation);
+    return { result, calls };
+  }
+
+  /**
+   * Wrap an operation so that, when dry-running, its response lists the
+   * writes it would send under `dryRun`
+   */
+  wrap<A extends any[], R extends BeeswaxResponse<any>>(
+    operation: (...args: A) => Promise<R>
+  ): (...args: A) => Promise<R> {
+    return async (...args: A) => {
+      if (!this.active) {
+        return operation(...args);
+      }
+      const { result, calls } = await this.run(() => operation(...args));
+      if (result && typeof result === 'object') {
+        result.dryRun = calls;
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Answer a request in dry-run mode; `dispatch` sends reads to the API
+   */
+  async send(context: RequestContext, dispatch: (context: RequestContext) => Promise<any>): Promise<any> {
+    const scope = this.scope()!;
+    const method = context.method.toUpperCase();
+    if (context.endpoint.startsWith('/rest/report_queue')) {
+      return dispatch(context);
+    }
+    if (method === 'GET') {
+      return this.read(scope.state, context, dispatch);
+    }
+
+    const call: DryRunCall = {
+      method,
+      endpoint: context.endpoint,
+      resource: context.resource,
+      body: await describeBody(context.body),
+      params: copy(context.params)
+    };
+    const response = await this.write(scope.state, context, call, dispatch);
+    scope.calls.forEach(calls => calls.push(call));
+    this.logger.info({ correlationId: context.correlationId, ...call }, 'Dry run, request not sent');
+    return response;
+  }
+
+  private scope(): DryRunScope | undefined {
+    const scope = this.storage.getStore();
+    if (scope) {
+      return scope;
+    }
+    return this.clientState && { state: this.clientState, calls: [] };
+  }
+
+  private async write(
+    state: DryRunState,
+    context: RequestContext,
+    call: DryRunCall,
+    dispatch: (context: RequestContext) => Promise<any>
+  ): Promise<any> {
+    const { v2, resource, idField, pathId } = describe(context);
+    const method = call.method;
+
+    // Creates, e.g. POST /rest/campaign/strict or /rest/v2/line-items
+    if (method === 'POST' && pathId === undefined) {
+      const id = state.nextId--;
+      child(state.created, resource, () => new Map()).set(String(id), { id, entity: { ...copy(context.body) } });
+      call.id = id;
+      context.status = v2 ? 201 : 200;
+      return v2 ? { ...copy(context.body), id } : { success: true, payload: { id } };
+    }
+
+    const id = pathId ?? context.body?.[idField];
+    call.id = id;
+    const created = state.created.get(resource)?.get(String(id));
+    if (id === undefined || (isSynthetic(id) && !created) || state.deleted.get(resource)?.has(String(id))) {
+      throw createBeeswaxError(404, v2 ? { detail: 'Not found.' } : { success: false, message: 'Could not load object' }, {
+        endpoint: context.endpoint,
+        method: context.method
+      });
+    }
+    context.status = v2 && method === 'DELETE' ? 204 : 200;
+
+    if (method === 'DELETE') {
+      if (created) {
+        state.created.get(resource)!.delete(String(id));
+      } else {
+        child(state.deleted, resource, () => new Set()).add(String(id));
+        state.edited.get(resource)?.delete(String(id));
+      }
+      return v2 ? '' : { success: true, payload: [{ id }] };
+    }
+
+    // Updates, or actions on an entity such as POST /rest/creative_asset/upload/:id
+    const changes = isPOJO(context.body) ? copy(context.body) : {};
+    delete changes[idField];
+    if (created) {
+      Object.assign(created.entity, changes);
+    } else {
+      const edits = child(state.edited, resource, () => new Map());
+      edits.set(String(id), { ...edits.get(String(id)), ...changes });
+    }
+    if (!v2) {
+      return { success: true, payload: [{ id }] };
+    }
+
+    // v2 answers an update with the whole object
+    if (created) {
+      return { ...copy(created.entity), id: created.id };
+    }
+    const current = await dispatch({ ...context, method: 'GET', body: undefined, params: undefined });
+    return { ...current, ...state.edited.get(resource)!.get(String(id)) };
+  }
+
+  private async read(
+    state: DryRunState,
+    context: RequestContext,
+    dispatch: (context: RequestContext) => Promise<any>
+  ): Promise<any> {
+    if (!context.resource) {
+      return dispatch(context);
+    }
+    const { v2, resource, idField, pathId } = describe(context);
+    const key = v2 ? 'id' : idField;
+
+    // v2 single object, e.g. GET /rest/v2/campaigns/-1
+    if (v2 && pathId !== undefined) {
+      const created = state.created.get(resource)?.get(String(pathId));
+      if (created) {
+        return { ...copy(created.entity), id: created.id };
+      }
+      if (isSynthetic(pathId) || state.deleted.get(resource)?.has(String(pathId))) {
+        throw createBeeswaxError(404, { detail: 'Not found.' }, { endpoint: context.endpoint, method: context.method });
+      }
+      const response = await dispatch(context);
+      return { ...response, ...state.edited.get(resource)?.get(String(pathId)) };
+    }
+
+    // Lists: synthetic ids are answered here, only real ones go to the API
+    const filterField = v2 || context.body === undefined ? 'params' : 'body';
+    const filter: Record<string, any> = { ...context[filterField] };
+    let response: any;
+    if (filter[key] !== undefined && String(filter[key]).split(',').some(isSynthetic)) {
+      const realIds = String(filter[key]).split(',').filter(id => !isSynthetic(id));
+      response = realIds.length > 0
+        ? await dispatch({ ...context, [filterField]: { ...filter, [key]: realIds.join(',') } })
+        : v2 ? { results: [] } : { success: true, payload: [] };
+    } else {
+      response = await dispatch(context);
+    }
+
+    const rows = v2 ? (Array.isArray(response) ? response : response?.results) : response?.payload;
+    if (!Array.isArray(rows)) {
+      return response;
+    }
+
+    const deleted = state.deleted.get(resource);
+    const edited = state.edited.get(resource);
+    const merged = rows
+      .filter(row => !deleted?.has(String(row[key])))
+      .map(row => ({ ...row, ...edited?.get(String(row[key])) }));
+
+    // Created entities join the first page of any list they match
+    if (!filter.offset) {
+      const matches = (entity: Record<string, any>) => Object.entries(filter)
+        .filter(([field, value]) => !PAGING_KEYS.includes(field) && value !== undefined)
+        .every(([field, value]) => String(value).split(',').includes(String(entity[field])));
+      state.created.get(resource)?.forEach(({ id, entity }) => {
+        const row = { ...copy(entity), [key]: id };
+        if (matches(row)) {
+          merged.push(row);
+        }
+      });
+    }
+
+    if (!v2) {
+      return { ...response, payload: merged };
+    }
+    return Array.isArray(response) ? merged : { ...response, results: merged };
+  }
+}
+
+function createState(): DryRunState {
+  return { nextId: -1, created: new Map(), edited: new Map(), deleted: new Map() };
+}
+
+// Resource name, id field and trailing path id of a request
+function describe(context: RequestContext): { v2: boolean; resource: string; idField: string; pathId?: string } {
+  const resource = context.resource || context.endpoint;
+  const pathId = context.endpoint.match(/\/(-?\d+)\/?$/)?.[1];
+  return {
+    v2: context.endpoint.startsWith('/rest/v2/'),
+    resource,
+    idField: `${resource}_id`,
+    pathId
+  };
+}
+
+// Synthetic ids are negative, so they can't collide with real ones
+function isSynthetic(id: number | string): boolean {
+  return Number(id) < 0;
+}
+
+function child<V>(maps: Map<string, V>, resource: string, create: () => V): V {
+  if (!maps.has(resource)) {
+    maps.set(resource, create());
+  }
+  return maps.get(resource)!;
+}
+
+// Upload bodies are streamed through (so progress and checksums still work) and summarized
+async function describeBody(body: any): Promise<any> {
+  if (body && typeof body.pipe === 'function') {
+    let bytes = 0;
+    await new Promise<void>((resolve, reject) => {
+      const counter = new Writable({
+        write(chunk, _encoding, callback) {
+          bytes += chunk.length;
+          callback();
+        }
+      });
+      counter.on('finish', () => resolve());
+      body.on('error', reject);
+      body.pipe(counter);
+    });
+    return `[multipart: ${bytes} bytes]`;
+  }
+  if (Buffer.isBuffer(body)) {
+    return `[binary: ${body.length} bytes]`;
+  }
+  return copy(body);
+}
+
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,292 @@
+import type { AssetViolation, SchemaIssue } from '../types';
+
+export interface BeeswaxErrorDetails {
+  status?: number;
+  endpoint?: string;
+  method?: string;
+  requestId?: string;
+  messages?: string[];
+  responseBody?: any;
+  cause?: any;
+}
+
+export class BeeswaxError extends Error {
+  public status?: number;
+  public endpoint?: string;
+  public method?: string;
+  public requestId?: string;
+  public messages: string[];
+  public responseBody?: any;
+  public cause?: any;
+
+  constructor(message: string, details: BeeswaxErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.requestId = details.requestId;
+    this.messages = details.messages || [];
+    this.responseBody = details.responseBody;
+    this.cause = details.cause;
+  }
+}
+
+export class BeeswaxAuthError extends BeeswaxError {}
+
+export class BeeswaxNotFoundError extends BeeswaxError {}
+
+export class BeeswaxValidationError extends BeeswaxError {
+  public fieldErrors: Record<string, string[]>;
+
+  constructor(message: string, details: BeeswaxErrorDetails = {}, fieldErrors: Record<string, string[]> = {}) {
+    super(message, details);
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class BeeswaxRateLimitError extends BeeswaxError {
+  public retryAfter?: number; // Seconds, from the Retry-After header
+
+  constructor(message: string, details: BeeswaxErrorDetails = {}, retryAfter?: number) {
+    super(message, details);
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class BeeswaxServerError extends BeeswaxError {}
+
+export class BeeswaxNetworkError extends BeeswaxError {}
+
+export class BeeswaxReportError extends BeeswaxError {
+  public reportQueueId?: number;
+
+  constructor(message: string, details: BeeswaxErrorDetails = {}, reportQueueId?: number) {
+    super(message, details);
+    this.reportQueueId = reportQueueId;
+  }
+}
+
+export class BeeswaxAssetValidationError extends BeeswaxValidationError {
+  public violations: AssetViolation[];
+
+  constructor(message: string, violations: AssetViolation[]) {
+    const fieldErrors: Record<string, string[]> = {};
+    violations.forEach(violation => {
+      (fieldErrors[violation.field] = fieldErrors[violation.field] || []).push(violation.message);
+    });
+    super(message, { messages: violations.map(violation => violation.message) }, fieldErrors);
+    this.violations = violations;
+  }
+}
+
+export class BeeswaxSchemaError extends BeeswaxValidationError {
+  public issues: SchemaIssue[];
+
+  constructor(message: string, issues: SchemaIssue[]) {
+    const fieldErrors: Record<string, string[]> = {};
+    issues.forEach(issue => {
+      const field = issue.path || '_general';
+      (fieldErrors[field] = fieldErrors[field] || []).push(issue.message);
+    });
+    super(message, { messages: issues.map(formatSchemaIssue) }, fieldErrors);
+    this.issues = issues;
+  }
+}
+
+export class BeeswaxUploadError extends BeeswaxError {
+  public creativeAssetId?: number;
+
+  constructor(message: string, details: BeeswaxErrorDetails = {}, creativeAssetId?: number) {
+    super(message, details);
+    this.creativeAssetId = creativeAssetId;
+  }
+}
+
+/**
+ * `path: message`, the form extractFieldErrors() reads back
+ */
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Collect the `payload[].message` entries Beeswax puts in v1 error bodies.
+ * v1 sometimes nests the body under `error`, so both shapes are checked.
+ * v2 bodies carry `errors` (a list or a field map) or a single `detail`.
+ */
+export function extractErrorMessages(body: any): string[] {
+  if (!body || typeof body !== 'object') {
+    return typeof body === 'string' && body ? [body] : [];
+  }
+
+  const payload = Array.isArray(body.payload) ? body.payload : body.error?.payload;
+  const messages: string[] = [];
+
+  if (Array.isArray(payload)) {
+    for (const entry of payload) {
+      const message = entry?.message;
+      if (Array.isArray(message)) {
+        messages.push(...message.map(String));
+      } else if (message) {
+        messages.push(String(message));
+      }
+    }
+  }
+
+  for (const [field, fieldMessages] of Object.entries(extractV2FieldErrors(body))) {
+    messages.push(...fieldMessages.map(message => field === '_general' ? message : `${field}: ${message}`));
+  }
+
+  if (messages.length === 0 && typeof body.detail === 'string') {
+    messages.push(body.detail);
+  }
+
+  if (messages.length === 0 && typeof body.message === 'string') {
+    messages.push(body.message);
+  }
+
+  return messages;
+}
+
+/**
+ * Group messages of the form `field_name: problem` by field. Messages that
+ * do not name a field are filed under `_general`.
+ */
+export function extractFieldErrors(messages: string[]): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+
+  for (const message of messages) {
+    const match = /^(?:ERROR:\s*)?([a-z][a-z0-9_.[\]]*)\s*:\s*(.+)$/i.exec(message);
+    const field = match ? match[1] : '_general';
+    const text = match ? match[2] : message;
+    (fieldErrors[field] = fieldErrors[field] || []).push(text);
+  }
+
+  return fieldErrors;
+}
+
+/**
+ * Read v2 error bodies, which come either as
+ * `{ errors: [{ field, message | detail }] }` or `{ errors: { field: [messages] } }`
+ */
+function extractV2FieldErrors(body: any): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+  const errors = body?.errors;
+
+  const add = (field: string, message: any) => {
+    if (message === undefined || message === null || message === '') {
+      return;
+    }
+    (fieldErrors[field] = fieldErrors[field] || []).push(String(message));
+  };
+
+  if (Array.isArray(errors)) {
+    for (const entry of errors) {
+      if (entry && typeof entry === 'object') {
+        const field = entry.field || entry.source?.pointer?.split('/').pop() || '_general';
+        add(field, entry.message || entry.detail || entry.title);
+      } else {
+        add('_general', entry);
+      }
+    }
+  } else if (errors && typeof errors === 'object') {
+    for (const [field, value] of Object.entries(errors)) {
+      const name = field === 'non_field_errors' ? '_general' : field;
+      for (const message of Array.isArray(value) ? value : [value]) {
+        add(name, message);
+      }
+    }
+  }
+
+  return fieldErrors;
+}
+
+function parseRetryAfter(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(String(value));
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+function isNotFoundMessage(messages: string[]): boolean {
+  return messages.some(msg => /Could not load object/i.test(msg));
+}
+
+/**
+ * Build the matching BeeswaxError subclass for an HTTP status and response body.
+ */
+export function createBeeswaxError(
+  status: number | undefined,
+  body: any,
+  details: Omit<BeeswaxErrorDetails, 'status' | 'messages' | 'responseBody'> & { headers?: Record<string, any> } = {}
+): BeeswaxError {
+  const { headers, ...rest } = details;
+  const messages = extractErrorMessages(body);
+  const errorDetails: BeeswaxErrorDetails = {
+    ...rest,
+    status,
+    messages,
+    responseBody: body
+  };
+  const location = [details.method?.toUpperCase(), details.endpoint].filter(Boolean).join(' ');
+  const summary = messages.length > 0 ? messages.join('; ') : `HTTP ${status}`;
+  const message = location ? `${location} failed: ${summary}` : summary;
+
+  if (status === 401 || status === 403) {
+    return new BeeswaxAuthError(message, errorDetails);
+  }
+  if (status === 404 || isNotFoundMessage(messages)) {
+    return new BeeswaxNotFoundError(message, errorDetails);
+  }
+  if (status === 429) {
+    return new BeeswaxRateLimitError(message, errorDetails, parseRetryAfter(headers?.['retry-after']));
+  }
+  if (status !== undefined && status >= 500) {
+    return new BeeswaxServerError(message, errorDetails);
+  }
+  return new BeeswaxValidationError(message, errorDetails, extractFieldErrors(messages));
+}
+
+/**
+ * Convert whatever axios (or the API) threw into a BeeswaxError.
+ */
+export function toBeeswaxError(error: any, context: { endpoint?: string; method?: string } = {}): BeeswaxError {
+  if (error instanceof BeeswaxError) {
+    return error;
+  }
+
+  const response = error?.response;
+  if (response) {
+    const headers = response.headers || {};
+    return createBeeswaxError(response.status, response.data, {
+      ...context,
+      headers,
+      requestId: headers['x-request-id'] || headers['x-amzn-requestid'],
+      cause: error
+    });
+  }
+
+  if (error?.isAxiosError || error?.request) {
+    const location = [context.method?.toUpperCase(), context.endpoint].filter(Boolean).join(' ');
+    return new BeeswaxNetworkError(
+      `${location ? `${location} failed: ` : ''}${error.message || 'Network error'}`,
+      { ...context, cause: error }
+    );
+  }
+
+  return new BeeswaxError(error?.message || String(error), { ...context, cause: error });
+}
@@ -1,5 +1,28 @@
 export { BeeswaxClient } from './BeeswaxClient';
+export { BeeswaxClientPool } from './BeeswaxClientPool';
 export * from './types';
+export * from './errors';
 export * from './resources';
 export * from './macros/CampaignMacros';
-export * from './utils/helpers';
\ No newline at end of file
+export * from './macros/CampaignPlanner';
+export * from './targeting/TargetingExpressionBuilder';
+export * from './utils/helpers';
+export * from './utils/RateLimiter';
+export * from './utils/BatchLoader';
+export * from './utils/csv';
+export * from './utils/export';
+export * from './utils/mime';
+export * from './utils/logger';
+export * from './assets/inspectAsset';
+export * from './assets/validateAsset';
+export * from './auth/AuthStrategy';
+export * from './auth/SessionStore';
+export * from './auth/CookieJar';
+export * from './middleware/Middleware';
+export * from './telemetry/Telemetry';
+export * from './cache/ResponseCache';
+export * from './dryrun/DryRun';
+export * from './schemas/entitySchemas';
+export * from './schemas/validateEntity';
+export * from './models/normalize';
+export * from './models/EntityModel';
@@ -1,188 +1,327 @@
-import { BeeswaxClient } from '../BeeswaxClient';
+import { BeeswaxClient, DEFAULT_RATE_LIMIT } from '../BeeswaxClient';
 import {
   LineItem,
+  TargetingExpressionTargeting,
+  CampaignApplyResult,
   CampaignCreationOptions,
+  CampaignEntityType,
+  CampaignPlan,
+  CampaignPlanOptions,
+  CreateFullCampaignOptions,
+  FullCampaignReport,
   FullCampaignResponse,
+  ReportPollOptions,
+  ReportResult,
   BeeswaxResponse
 } from '../types';
-import { delay } from '../utils/helpers';
+import { TargetingExpressionBuilder, resolveTargeting } from '../targeting/TargetingExpressionBuilder';
+import { buildCampaignData, buildCreativeData, buildLineItemParams } from './builders';
+import { CampaignPlanner } from './CampaignPlanner';
+import { errorFields } from '../utils/logger';
+import { mapConcurrent } from '../utils/helpers';
+import { SPAN_KIND_INTERNAL, SPAN_STATUS_ERROR } from '../telemetry/Telemetry';
 
 export class CampaignMacros {
-  constructor(private client: BeeswaxClient) {}
+  private planner: CampaignPlanner;
+
+  constructor(private client: BeeswaxClient) {
+    this.planner = new CampaignPlanner(client);
+
+    // Each macro runs in a parent span for the requests it makes, and lists
+    // the writes it would make when dry-running
+    this.apply = this.traced('apply', this.apply);
+    this.createFullCampaign = this.traced('createFullCampaign', this.createFullCampaign);
+    this.cloneCampaign = this.traced('cloneCampaign', this.cloneCampaign);
+    this.bulkUpdateCampaignStatus = this.traced('bulkUpdateCampaignStatus', this.bulkUpdateCampaignStatus);
+    this.getCampaignPerformance = this.traced('getCampaignPerformance', this.getCampaignPerformance);
+    this.bulkCreateLineItems = this.traced('bulkCreateLineItems', this.bulkCreateLineItems);
+  }
+
+  private traced<A extends any[], R extends BeeswaxResponse<any>>(
+    name: string,
+    macro: (...args: A) => Promise<R>
+  ): (...args: A) => Promise<R> {
+    return (...args: A) => this.client.telemetry.span(`Beeswax ${name}`, SPAN_KIND_INTERNAL, { 'beeswax.macro': name }, async span => {
+      const result = await this.client.dryRunner.wrap(macro.bind(this))(...args);
+      // Macros report most failures in the response instead of throwing
+      if (!result.success) {
+        span?.setStatus({ code: SPAN_STATUS_ERROR, message: result.message });
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Diff a declarative campaign spec against the live campaign tree.
+   * Without a campaignId the campaign is looked up by name within the advertiser.
+   */
+  async plan(spec: CampaignCreationOptions, campaignId?: number, options?: CampaignPlanOptions): Promise<CampaignPlan> {
+    return this.planner.plan(spec, campaignId, options);
+  }
+
+  /**
+   * Execute a plan produced by plan(). Re-planning afterwards yields only no-ops.
+   */
+  async apply(plan: CampaignPlan): Promise<BeeswaxResponse<CampaignApplyResult>> {
+    return this.planner.apply(plan);
+  }
 
   /**
-   * Create a full campaign with line items, creatives, and targeting
+   * Create a full campaign with line items, creatives, and targeting.
+   *
+   * By default a failed line item, creative or association is logged and
+   * skipped. With `transactional: true` the first failure deletes everything
+   * created so far. Either way `payload.report` lists what was created,
+   * what failed and what was rolled back.
    */
-  async createFullCampaign(options: CampaignCreationOptions): Promise<BeeswaxResponse<FullCampaignResponse>> {
+  async createFullCampaign(
+    options: CampaignCreationOptions,
+    settings: CreateFullCampaignOptions = {}
+  ): Promise<BeeswaxResponse<FullCampaignResponse>> {
+    const report: FullCampaignReport = {
+      created: [],
+      failed: [],
+      rolledBack: [],
+      rollbackFailed: []
+    };
+    let result: FullCampaignResponse | undefined;
+
+    // Run one creation step; failures are recorded, then either skipped or rethrown
+    const step = async <R>(type: CampaignEntityType, name: string | undefined, create: () => Promise<R>): Promise<R | undefined> => {
+      try {
+        return await create();
+      } catch (error: any) {
+        report.failed.push({ type, name, error: error.message || String(error) });
+        if (settings.transactional || type === 'campaign') {
+          throw error;
+        }
+        this.client.logger.warn({ type, name, ...errorFields(error) }, `Failed to create ${type.replace(/_/g, ' ')}, skipping`);
+        return undefined;
+      }
+    };
+    const track = (type: CampaignEntityType, id: number, name?: string) => {
+      report.created.push({ type, id, name });
+    };
+
     try {
       // Step 1: Create campaign
-      const campaignData = {
-        advertiser_id: options.advertiser_id,
-        name: options.name || options.campaign_name,
-        budget: options.budget || options.campaign_budget,
-        budget_type: options.budget_type || 2, // Ensure budget type is set
-        start_date: options.start_date,
-        end_date: options.end_date,
-        active: false // Start inactive until everything is set up
-      };
+      const campaignName = options.name || options.campaign_name;
+      const campaign = await step('campaign', campaignName, async () => {
+        const campaignData = buildCampaignData(options);
 
-      const campaignResponse = await this.client.campaigns.create(campaignData);
-      if (!campaignResponse.success || !campaignResponse.payload) {
-        throw new Error('Failed to create campaign');
-      }
+        const campaignResponse = await this.client.campaigns.create(campaignData);
+        if (!campaignResponse.success || !campaignResponse.payload) {
+          throw new Error('Failed to create campaign');
+        }
+        if (!campaignResponse.payload.campaign_id) {
+          throw new Error('Campaign ID not returned from API');
+        }
 
-      const campaign = campaignResponse.payload;
-      if (!campaign.campaign_id) {
-        throw new Error('Campaign ID not returned from API');
-      }
-      const result: FullCampaignResponse = {
-        campaign,
+        track('campaign', campaignResponse.payload.campaign_id, campaignName);
+        return campaignResponse.payload;
+      });
+      const campaignId = campaign!.campaign_id!;
+
+      result = {
+        campaign: campaign!,
         line_items: [],
         creatives: [],
         creative_line_items: [],
-        targeting_templates: []
+        targeting_templates: [],
+        targeting_expressions: [],
+        report
       };
+      const fullCampaign = result;
+
+      const createExpression = async (name: string, type: string, targeting: TargetingExpressionTargeting | TargetingExpressionBuilder) => {
+        const expressionResponse = await this.client.targetingExpressions.create({
+          advertiser_id: options.advertiser_id,
+          name,
+          type,
+          targeting: resolveTargeting(targeting),
+          active: true
+        });
 
-      // Step 2: Create targeting templates if provided
+        if (!expressionResponse.success || !expressionResponse.payload?.id) {
+          throw new Error(`Failed to create targeting expression: ${name}`);
+        }
+
+        track('targeting_expression', expressionResponse.payload.id, name);
+        fullCampaign.targeting_expressions?.push(expressionResponse.payload);
+        return expressionResponse.payload.id;
+      };
+
+      // Step 2: Create targeting expressions for the (deprecated) targeting templates
+      const expressionIdsByName = new Map<string, number>();
       if (options.targeting_templates) {
         for (const templateOptions of options.targeting_templates) {
-          const templateData = {
-            advertiser_id: options.advertiser_id,
-            targeting_template_name: templateOptions.targeting_template_name,
-            targeting: templateOptions.targeting,
-            active: true
-          };
-
-          const templateResponse = await this.client.targetingTemplates.create(templateData);
-          if (templateResponse.success && templateResponse.payload) {
-            result.targeting_templates?.push(templateResponse.payload);
+          const name = templateOptions.targeting_template_name;
+          const expressionId = await step('targeting_expression', name, () =>
+            createExpression(name, templateOptions.type || 'banner', templateOptions.targeting)
+          );
+          if (expressionId) {
+            expressionIdsByName.set(name, expressionId);
           }
         }
       }
 
       // Step 3: Create line items and their associated creatives
       for (const lineItemOptions of options.line_items) {
-        // Create line item using the helper method
-        const lineItemResponse = await this.client.createLineItem({
-          campaign_id: campaign.campaign_id,
-          name: lineItemOptions.name || lineItemOptions.line_item_name,
-          type: lineItemOptions.type || 'banner',
-          guaranteed: lineItemOptions.guaranteed || false,
-          currency: lineItemOptions.currency || 'USD',
-          budget_type: lineItemOptions.budget_type || 'spend including vendor fees',
-          spend_budget: lineItemOptions.spend_budget || {
-            lifetime: String(lineItemOptions.budget || lineItemOptions.line_item_budget || 0),
-            include_fees: true
-          },
-          bidding: lineItemOptions.bidding || {
-            strategy: 'CPM',
-            values: {
-              cpm_bid: lineItemOptions.bid_price || 3
-            },
-            pacing: 'none',
-            custom: false,
-            bid_shading_control: 'normal'
-          },
-          frequency_caps: lineItemOptions.frequency_caps,
-          targeting: lineItemOptions.targeting,
-          targeting_expression_id: lineItemOptions.targeting_expression_id,
-          start_date: lineItemOptions.start_date,
-          end_date: lineItemOptions.end_date,
-          active: lineItemOptions.active || false // Line items must be inactive until creatives are attached
+        const lineItemName = lineItemOptions.name || lineItemOptions.line_item_name;
+
+        const lineItem = await step('line_item', lineItemName, async () => {
+          let targetingExpressionId = lineItemOptions.targeting_expression_id;
+          if (!targetingExpressionId && lineItemOptions.targeting_template_name) {
+            targetingExpressionId = expressionIdsByName.get(lineItemOptions.targeting_template_name);
+            if (!targetingExpressionId) {
+              throw new Error(`Unknown targeting template: ${lineItemOptions.targeting_template_name}`);
+            }
+          }
+
+          // Create inline targeting here rather than in createLineItem so it is tracked
+          if (!targetingExpressionId && lineItemOptions.targeting) {
+            targetingExpressionId = await createExpression(
+              `${lineItemName || 'Line Item'} Targeting`,
+              lineItemOptions.type || 'banner',
+              lineItemOptions.targeting
+            );
+          }
+
+          // Create line item using the helper method
+          const lineItemResponse = await this.client.createLineItem(
+            buildLineItemParams(campaignId, lineItemOptions, targetingExpressionId)
+          );
+
+          if (!lineItemResponse.success || !lineItemResponse.payload?.line_item_id) {
+            throw new Error(`Failed to create line item: ${lineItemName}`);
+          }
+
+          track('line_item', lineItemResponse.payload.line_item_id, lineItemName);
+          return lineItemResponse.payload as LineItem;
         });
 
-        if (!lineItemResponse.success || !lineItemResponse.payload) {
-          console.error('Failed to create line item:', lineItemOptions.line_item_name);
+        if (!lineItem) {
           continue;
         }
-
-        const lineItem = lineItemResponse.payload;
         result.line_items.push(lineItem);
 
         // Create creatives for this line item
-        if (lineItemOptions.creatives) {
-          for (const creativeOptions of lineItemOptions.creatives) {
-            // Upload asset if URL provided
-            let creativeAssetId: number | undefined;
-            if (creativeOptions.asset_url) {
-              try {
-                const asset = await this.client.uploadCreativeAsset({
-                  advertiser_id: options.advertiser_id,
-                  sourceUrl: creativeOptions.asset_url,
-                  creative_asset_name: creativeOptions.creative_name
-                });
-                creativeAssetId = asset.creative_asset_id;
-              } catch (error) {
-                console.error('Failed to upload creative asset:', error);
-              }
-            }
-
-            // Create creative
-            const creativeData: any = {
-              advertiser_id: options.advertiser_id,
-              name: creativeOptions.name || creativeOptions.creative_name,
-              type: creativeOptions.type || creativeOptions.creative_type || 'display',
-              creative_template_id: creativeOptions.creative_template_id || 1, // Default to 1 for standard display
-              width: creativeOptions.width,
-              height: creativeOptions.height,
-              click_url: creativeOptions.click_url || 'https://example.com',
-              secure: true,
-              active: false // Creatives need content before being activated
-            };
-
-            // Handle attributes using both old and new field names
-            if (creativeOptions.attributes || creativeOptions.creative_attributes) {
-              creativeData.attributes = creativeOptions.attributes || creativeOptions.creative_attributes;
-            }
+        for (const creativeOptions of lineItemOptions.creatives || []) {
+          const creativeName = creativeOptions.name || creativeOptions.creative_name;
+
+          // Upload asset if URL provided
+          let creativeAssetId: number | undefined;
+          if (creativeOptions.asset_url) {
+            const assetUrl = creativeOptions.asset_url;
+            creativeAssetId = await step('creative_asset', creativeName, async () => {
+              const asset = await this.client.uploadCreativeAsset({
+                advertiser_id: options.advertiser_id,
+                sourceUrl: assetUrl,
+                creative_asset_name: creativeOptions.creative_name
+              });
+              track('creative_asset', asset.creative_asset_id, asset.creative_asset_name);
+              return asset.creative_asset_id;
+            });
+          }
 
-            if (creativeAssetId) {
-              creativeData.creative_asset_id = creativeAssetId;
-            }
+          const creative = await step('creative', creativeName, async () => {
+            const creativeData = buildCreativeData(options.advertiser_id, creativeOptions, creativeAssetId);
 
             const creativeResponse = await this.client.creatives.create(creativeData);
-            if (!creativeResponse.success || !creativeResponse.payload) {
-              console.error('Failed to create creative:', creativeOptions.name || creativeOptions.creative_name);
-              continue;
+            if (!creativeResponse.success || !creativeResponse.payload?.creative_id) {
+              throw new Error(`Failed to create creative: ${creativeName}`);
             }
 
-            const creative = creativeResponse.payload;
-            result.creatives.push(creative);
+            track('creative', creativeResponse.payload.creative_id, creativeName);
+            return creativeResponse.payload;
+          });
 
-            // Create creative-line item association
-            if (!creative.creative_id || !lineItem.line_item_id) {
-              console.error('Missing IDs for creative-line item association');
-              continue;
-            }
-            const cliData = {
-              creative_id: creative.creative_id,
-              line_item_id: lineItem.line_item_id,
+          if (!creative) {
+            continue;
+          }
+          result.creatives.push(creative);
+
+          // Create creative-line item association
+          const cli = await step('creative_line_item', creativeName, async () => {
+            const cliResponse = await this.client.creativeLineItems.create({
+              creative_id: creative.creative_id!,
+              line_item_id: lineItem.line_item_id!,
               active: true,
               weighting: 100
-            };
+            });
 
-            const cliResponse = await this.client.creativeLineItems.create(cliData);
-            if (cliResponse.success && cliResponse.payload) {
-              result.creative_line_items.push(cliResponse.payload);
+            if (!cliResponse.success || !cliResponse.payload?.cli_id) {
+              throw new Error(`Failed to associate creative ${creativeName} with line item ${lineItemName}`);
             }
+
+            track('creative_line_item', cliResponse.payload.cli_id);
+            return cliResponse.payload;
+          });
+
+          if (cli) {
+            result.creative_line_items.push(cli);
           }
         }
       }
 
+      // Skipped failures are reported in errors without failing the whole call
       return {
         success: true,
-        payload: result
+        payload: result,
+        errors: report.failed.length > 0
+          ? report.failed.map(failure => `${failure.type} ${failure.name || ''}: ${failure.error}`)
+          : undefined
       };
 
     } catch (error: any) {
-      console.error('Full campaign creation error:', error);
+      this.client.logger.error({ transactional: !!settings.transactional, ...errorFields(error) }, 'Full campaign creation failed');
+
+      if (settings.transactional && report.created.length > 0) {
+        await this.rollback(report);
+      }
+
       return {
         success: false,
         message: error.message || 'Failed to create full campaign',
+        payload: result,
         errors: [JSON.stringify(error)]
       };
     }
   }
 
+  /**
+   * Delete created entities in reverse dependency order, recording the outcome in the report
+   */
+  private async rollback(report: FullCampaignReport): Promise<void> {
+    const resources: Record<CampaignEntityType, { delete(id: number, failOnNotFound?: boolean): Promise<BeeswaxResponse<any>> }> = {
+      creative_line_item: this.client.creativeLineItems,
+      creative: this.client.creatives,
+      creative_asset: this.client.creativeAssets,
+      line_item: this.client.lineItems,
+      targeting_expression: this.client.targetingExpressions,
+      campaign: this.client.campaigns
+    };
+    const order = Object.keys(resources) as CampaignEntityType[];
+
+    // Dependents first; within a type, newest first
+    const entities = report.created
+      .map((entity, index) => ({ entity, index }))
+      .sort((a, b) => order.indexOf(a.entity.type) - order.indexOf(b.entity.type) || b.index - a.index)
+      .map(({ entity }) => entity);
+
+    for (const entity of entities) {
+      try {
+        const response = await resources[entity.type].delete(entity.id);
+        if (!response.success) {
+          throw new Error(response.message || 'Delete failed');
+        }
+        report.rolledBack.push(entity);
+      } catch (error: any) {
+        report.rollbackFailed.push({ ...entity, error: error.message || String(error) });
+      }
+    }
+  }
+
   /**
    * Clone an existing campaign with all its components
    */
@@ -233,7 +372,10 @@ export class CampaignMacros {
         newCampaignData.end_date = options.end_date;
       }
       if (options?.budget_multiplier) {
-        newCampaignData.campaign_budget = (originalCampaign.campaign_budget || 0) * options.budget_multiplier;
+        // v2 reads return 'budget', v1 reads return 'campaign_budget'
+        const originalBudget = originalCampaign.campaign_budget ?? originalCampaign.budget ?? 0;
+        delete newCampaignData.budget;
+        newCampaignData.campaign_budget = originalBudget * options.budget_multiplier;
       }
 
       const newCampaignResponse = await this.client.campaigns.create(newCampaignData);
@@ -285,7 +427,9 @@ export class CampaignMacros {
           };
 
           if (options?.budget_multiplier) {
-            newLineItemData.line_item_budget = (lineItem.line_item_budget || 0) * options.budget_multiplier;
+            const originalBudget = lineItem.line_item_budget ?? lineItem.budget ?? 0;
+            delete newLineItemData.budget;
+            newLineItemData.line_item_budget = originalBudget * options.budget_multiplier;
           }
 
           const newLineItemResponse = await this.client.lineItems.create(newLineItemData);
@@ -301,7 +445,7 @@ export class CampaignMacros {
               if (cliResponse.success && cliResponse.payload) {
                 for (const cli of cliResponse.payload) {
                   if (!newLineItemResponse.payload.line_item_id) {
-                    console.error('Missing line item ID for CLI association');
+                    this.client.logger.warn({ lineItemId: lineItem.line_item_id }, 'Missing line item ID for CLI association');
                     continue;
                   }
                   const newCliData = {
@@ -319,9 +463,6 @@ export class CampaignMacros {
               }
             }
           }
-
-          // Small delay to avoid rate limiting
-          await delay(100);
         }
       }
 
@@ -331,7 +472,7 @@ export class CampaignMacros {
       };
 
     } catch (error: any) {
-      console.error('Clone campaign error:', error);
+      this.client.logger.error({ campaignId, ...errorFields(error) }, 'Clone campaign failed');
       return {
         success: false,
         message: error.message || 'Failed to clone campaign',
@@ -341,16 +482,18 @@ export class CampaignMacros {
   }
 
   /**
-   * Bulk update campaign status (pause/resume)
+   * Bulk update campaign status (pause/resume), at most `concurrency`
+   * edits at a time
    */
   async bulkUpdateCampaignStatus(
     campaignIds: number[], 
-    active: boolean
+    active: boolean,
+    concurrency = DEFAULT_RATE_LIMIT.maxConcurrent!
   ): Promise<BeeswaxResponse<{ updated: number; failed: number }>> {
     let updated = 0;
     let failed = 0;
 
-    for (const campaignId of campaignIds) {
+    await mapConcurrent(campaignIds, concurrency, async (campaignId) => {
       try {
         const response = await this.client.campaigns.edit(campaignId, { active });
         if (response.success) {
@@ -361,10 +504,7 @@ export class CampaignMacros {
       } catch (_error) {
         failed++;
       }
-
-      // Small delay to avoid rate limiting
-      await delay(50);
-    }
+    });
 
     return {
       success: true,
@@ -373,20 +513,26 @@ export class CampaignMacros {
   }
 
   /**
-   * Get campaign performance summary
+   * Get daily campaign performance through the report queue
    */
   async getCampaignPerformance(
     campaignId: number,
     startDate: string,
-    endDate: string
-  ): Promise<BeeswaxResponse<any>> {
+    endDate: string,
+    pollOptions?: ReportPollOptions
+  ): Promise<BeeswaxResponse<ReportResult>> {
     try {
-      // This would typically call a reporting endpoint
-      // Since we don't have the exact API docs, this is a placeholder
-      const reportData = {
-        advertiser_id: 0, // Would need to get this from campaign
-        report_name: `Campaign ${campaignId} Performance`,
-        report_type: 'campaign_performance',
+      const campaign = await this.client.campaigns.find(campaignId);
+      if (!campaign.success || !campaign.payload) {
+        return {
+          success: false,
+          message: campaign.message || `Campaign ${campaignId} not found`,
+          errors: campaign.errors
+        };
+      }
+
+      return await this.client.reports.run({
+        advertiser_id: campaign.payload.advertiser_id,
         dimensions: ['campaign_id', 'date'],
         metrics: ['impressions', 'clicks', 'conversions', 'spend'],
         filters: {
@@ -394,12 +540,7 @@ export class CampaignMacros {
         },
         start_date: startDate,
         end_date: endDate
-      };
-
-      // Create and run report
-      const reportResponse = await this.client.reports.create(reportData);
-      
-      return reportResponse;
+      }, pollOptions);
 
     } catch (error: any) {
       return {
@@ -419,7 +560,7 @@ export class CampaignMacros {
       name: string;
       budget: number;
       bid_price: number;
-      targeting?: any;
+      targeting?: TargetingExpressionTargeting | TargetingExpressionBuilder;
     }>
   ): Promise<BeeswaxResponse<LineItem[]>> {
     const created: LineItem[] = [];
@@ -467,9 +608,6 @@ export class CampaignMacros {
       } catch (error: any) {
         errors.push(`Error creating line item ${item.name}: ${error.message}`);
       }
-
-      // Small delay to avoid rate limiting
-      await delay(100);
     }
 
     return {
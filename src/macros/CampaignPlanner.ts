@@ -0,0 +1,497 @@
+import { BeeswaxClient } from '../BeeswaxClient';
+import {
+  AppliedOperation,
+  BeeswaxResponse,
+  Campaign,
+  CampaignApplyResult,
+  CampaignCreationOptions,
+  CampaignEntityType,
+  CampaignPlan,
+  CampaignPlanOptions,
+  Creative,
+  CreativeCreationOptions,
+  CreativePlan,
+  EntityPlan,
+  FieldChange,
+  LineItem,
+  LineItemCreationOptions,
+  LineItemPlan,
+  PlanAction,
+  TargetingExpressionTargeting
+} from '../types';
+import { resolveTargeting } from '../targeting/TargetingExpressionBuilder';
+import { buildCampaignData, buildCreativeData, buildLineItemParams } from './builders';
+
+interface ManagedField<S> {
+  field: string;
+  aliases?: string[]; // Older names the API may return the value under
+  value: (spec: S) => any;
+}
+
+const CAMPAIGN_FIELDS: ManagedField<CampaignCreationOptions>[] = [
+  { field: 'name', aliases: ['campaign_name'], value: spec => spec.name ?? spec.campaign_name },
+  { field: 'budget', aliases: ['campaign_budget'], value: spec => spec.budget ?? spec.campaign_budget },
+  { field: 'budget_type', value: spec => spec.budget_type },
+  { field: 'start_date', value: spec => spec.start_date },
+  { field: 'end_date', value: spec => spec.end_date }
+];
+
+const LINE_ITEM_FIELDS: ManagedField<LineItemCreationOptions>[] = [
+  { field: 'name', aliases: ['line_item_name'], value: spec => spec.name ?? spec.line_item_name },
+  { field: 'type', aliases: ['line_item_type'], value: spec => spec.type },
+  { field: 'guaranteed', value: spec => spec.guaranteed },
+  { field: 'currency', value: spec => spec.currency },
+  { field: 'budget_type', value: spec => spec.budget_type },
+  {
+    field: 'spend_budget',
+    value: spec => {
+      const budget = spec.budget ?? spec.line_item_budget;
+      return spec.spend_budget ?? (budget !== undefined ? { lifetime: String(budget) } : undefined);
+    }
+  },
+  {
+    field: 'bidding',
+    value: spec => spec.bidding ?? (spec.bid_price !== undefined ? { values: { cpm_bid: spec.bid_price } } : undefined)
+  },
+  { field: 'frequency_caps', value: spec => spec.frequency_caps },
+  { field: 'targeting_expression_id', value: spec => spec.targeting_expression_id },
+  { field: 'start_date', value: spec => spec.start_date },
+  { field: 'end_date', value: spec => spec.end_date },
+  { field: 'active', value: spec => spec.active }
+];
+
+const CREATIVE_FIELDS: ManagedField<CreativeCreationOptions>[] = [
+  { field: 'name', aliases: ['creative_name'], value: spec => spec.name ?? spec.creative_name },
+  { field: 'creative_template_id', value: spec => spec.creative_template_id },
+  { field: 'width', value: spec => spec.width },
+  { field: 'height', value: spec => spec.height },
+  { field: 'click_url', value: spec => spec.click_url },
+  { field: 'attributes', aliases: ['creative_attributes'], value: spec => spec.attributes ?? spec.creative_attributes }
+];
+
+/**
+ * Compare a desired value with the live one. Numbers and numeric strings
+ * compare by value, YYYY-MM-DD dates match timestamps on that day, and
+ * objects only compare the keys the spec sets unless `exact` is true.
+ */
+function valuesEqual(desired: any, current: any, exact = false): boolean {
+  if (desired === current) {
+    return true;
+  }
+  if (desired === null || desired === undefined || current === null || current === undefined) {
+    return (desired === null || desired === undefined) && (current === null || current === undefined);
+  }
+  if (Array.isArray(desired)) {
+    return Array.isArray(current) &&
+      desired.length === current.length &&
+      desired.every((value, index) => valuesEqual(value, current[index], exact));
+  }
+  if (typeof desired === 'object') {
+    if (typeof current !== 'object' || Array.isArray(current)) {
+      return false;
+    }
+    const keys = exact ? new Set([...Object.keys(desired), ...Object.keys(current)]) : Object.keys(desired);
+    return Array.from(keys).every(key => valuesEqual(desired[key], current[key], exact));
+  }
+  if (typeof desired === 'number' || typeof current === 'number') {
+    return String(current).trim() !== '' && Number(desired) === Number(current);
+  }
+  if (typeof desired === 'string' && typeof current === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(desired)) {
+    return current.startsWith(desired);
+  }
+  return false;
+}
+
+/**
+ * Overlay the spec's value on the live one so partial objects (e.g. only
+ * bidding.values.cpm_bid) do not wipe fields the spec does not manage.
+ */
+function mergeDesired(current: any, desired: any): any {
+  if (!desired || typeof desired !== 'object' || Array.isArray(desired) ||
+      !current || typeof current !== 'object' || Array.isArray(current)) {
+    return desired;
+  }
+
+  const merged: Record<string, any> = { ...current };
+  for (const [key, value] of Object.entries(desired)) {
+    merged[key] = mergeDesired(current[key], value);
+  }
+  return merged;
+}
+
+function diffFields<S>(fields: ManagedField<S>[], spec: S, current?: Record<string, any>): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  for (const { field, aliases = [], value } of fields) {
+    const desired = value(spec);
+    if (desired === undefined) {
+      continue; // Not managed by the spec
+    }
+
+    // Update under whichever name the API returned the value as
+    const key = current ? [field, ...aliases].find(name => current[name] !== undefined) || field : field;
+    const from = current?.[key];
+
+    if (!current || !valuesEqual(desired, from)) {
+      changes.push({ field: key, from, to: mergeDesired(from, desired) });
+    }
+  }
+
+  return changes;
+}
+
+function changesToBody(changes: FieldChange[]): Record<string, any> {
+  const body: Record<string, any> = {};
+  for (const change of changes) {
+    body[change.field] = change.to;
+  }
+  return body;
+}
+
+function entityName(entity: any, ...fields: string[]): string | undefined {
+  for (const field of fields) {
+    if (entity?.[field]) {
+      return entity[field];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Computes and applies the difference between a declarative campaign spec
+ * (the same CampaignCreationOptions createFullCampaign takes) and the live
+ * campaign tree. Line items are matched by name within the campaign and
+ * creatives by name within their line item, so repeated runs converge.
+ */
+export class CampaignPlanner {
+  constructor(private client: BeeswaxClient) {}
+
+  async plan(spec: CampaignCreationOptions, campaignId?: number, options: CampaignPlanOptions = {}): Promise<CampaignPlan> {
+    const prune = options.prune === true;
+    const current = await this.findCampaign(spec, campaignId);
+    const templates = new Map((spec.targeting_templates || []).map(t => [t.targeting_template_name, t]));
+
+    const campaignPlan: EntityPlan<Campaign> = {
+      action: 'create',
+      name: spec.name || spec.campaign_name,
+      changes: diffFields(CAMPAIGN_FIELDS, spec, current)
+    };
+    if (current) {
+      campaignPlan.action = campaignPlan.changes.length > 0 ? 'update' : 'noop';
+      campaignPlan.id = current.campaign_id;
+      campaignPlan.current = current;
+    }
+
+    const liveLineItems = current
+      ? (await this.client.lineItems.queryAll({ campaign_id: current.campaign_id })).payload || []
+      : [];
+    const unmatchedLineItems = [...liveLineItems];
+    const lineItemPlans: LineItemPlan[] = [];
+
+    for (const lineItemSpec of spec.line_items) {
+      const name = lineItemSpec.name || lineItemSpec.line_item_name;
+      const index = unmatchedLineItems.findIndex(li => entityName(li, 'name', 'line_item_name') === name);
+      const live = index >= 0 ? unmatchedLineItems.splice(index, 1)[0] : undefined;
+
+      const lineItemPlan: LineItemPlan = {
+        action: live ? 'noop' : 'create',
+        id: live?.line_item_id,
+        name,
+        spec: lineItemSpec,
+        changes: diffFields(LINE_ITEM_FIELDS, lineItemSpec, live),
+        current: live,
+        creatives: []
+      };
+
+      // Targeting lives in a separate expression; compare its contents
+      const desiredTargeting = this.desiredTargeting(lineItemSpec, templates);
+      if (desiredTargeting && !lineItemSpec.targeting_expression_id) {
+        const expressionId = live?.targeting_expression_id;
+        const expression = expressionId
+          ? (await this.client.targetingExpressions.find(expressionId)).payload
+          : undefined;
+
+        if (!expression || !valuesEqual(desiredTargeting, expression.targeting, true)) {
+          lineItemPlan.changes.push({ field: 'targeting', from: expression?.targeting, to: desiredTargeting });
+        }
+        lineItemPlan.targeting_expression_id = expression ? expressionId : undefined;
+      }
+
+      if (live && lineItemPlan.changes.length > 0) {
+        lineItemPlan.action = 'update';
+      }
+
+      lineItemPlan.creatives = await this.planCreatives(lineItemSpec.creatives || [], live, prune);
+      lineItemPlans.push(lineItemPlan);
+    }
+
+    if (prune) {
+      for (const live of unmatchedLineItems) {
+        lineItemPlans.push({
+          action: 'delete',
+          id: live.line_item_id,
+          name: entityName(live, 'name', 'line_item_name'),
+          changes: [],
+          current: live,
+          creatives: (await this.planCreatives([], live, true))
+        });
+      }
+    }
+
+    const summary: Record<PlanAction, number> = { create: 0, update: 0, delete: 0, noop: 0 };
+    for (const entity of [campaignPlan, ...lineItemPlans, ...lineItemPlans.flatMap(li => li.creatives)]) {
+      summary[entity.action]++;
+    }
+
+    return {
+      spec,
+      options: { prune },
+      campaign: campaignPlan,
+      line_items: lineItemPlans,
+      summary
+    };
+  }
+
+  async apply(plan: CampaignPlan): Promise<BeeswaxResponse<CampaignApplyResult>> {
+    const { spec } = plan;
+    const result: CampaignApplyResult = {
+      campaign_id: plan.campaign.id,
+      operations: []
+    };
+    const record = (action: AppliedOperation['action'], type: CampaignEntityType, id?: number, name?: string) => {
+      result.operations.push({ action, type, id, name });
+    };
+    const expressionIdsByTemplate = new Map<string, number>();
+
+    try {
+      // Campaign
+      if (plan.campaign.action === 'create') {
+        const response = await this.client.campaigns.create(buildCampaignData(spec));
+        if (!response.success || !response.payload?.campaign_id) {
+          throw new Error(`Failed to create campaign: ${plan.campaign.name}`);
+        }
+        result.campaign_id = response.payload.campaign_id;
+        record('create', 'campaign', result.campaign_id, plan.campaign.name);
+      } else if (plan.campaign.action === 'update') {
+        await this.client.campaigns.edit(plan.campaign.id!, changesToBody(plan.campaign.changes), true);
+        record('update', 'campaign', plan.campaign.id, plan.campaign.name);
+      }
+      const campaignId = result.campaign_id!;
+
+      // Deletions first so renamed line items do not briefly coexist
+      for (const lineItemPlan of plan.line_items.filter(li => li.action === 'delete')) {
+        await this.applyCreatives(lineItemPlan, spec.advertiser_id, record);
+        if (lineItemPlan.current?.active) {
+          await this.client.lineItems.edit(lineItemPlan.id!, { active: false }, true);
+        }
+        await this.client.lineItems.delete(lineItemPlan.id!, true);
+        record('delete', 'line_item', lineItemPlan.id, lineItemPlan.name);
+      }
+
+      for (const lineItemPlan of plan.line_items.filter(li => li.action !== 'delete')) {
+        const lineItemSpec = lineItemPlan.spec!;
+        const targetingChange = lineItemPlan.changes.find(change => change.field === 'targeting');
+        let targetingExpressionId = lineItemSpec.targeting_expression_id;
+
+        if (targetingChange && lineItemPlan.targeting_expression_id) {
+          await this.client.targetingExpressions.edit(lineItemPlan.targeting_expression_id, {
+            targeting: targetingChange.to
+          }, true);
+          record('update', 'targeting_expression', lineItemPlan.targeting_expression_id, lineItemPlan.name);
+        } else if (targetingChange) {
+          const template = lineItemSpec.targeting_template_name;
+          targetingExpressionId = template ? expressionIdsByTemplate.get(template) : undefined;
+          if (!targetingExpressionId) {
+            targetingExpressionId = await this.createExpression(
+              spec.advertiser_id,
+              template || `${lineItemPlan.name || 'Line Item'} Targeting`,
+              lineItemSpec.type || 'banner',
+              targetingChange.to
+            );
+            record('create', 'targeting_expression', targetingExpressionId, template || lineItemPlan.name);
+            if (template) {
+              expressionIdsByTemplate.set(template, targetingExpressionId);
+            }
+          }
+        }
+
+        if (lineItemPlan.action === 'create') {
+          const response = await this.client.createLineItem(
+            buildLineItemParams(campaignId, lineItemSpec, targetingExpressionId)
+          );
+          if (!response.success || !response.payload?.line_item_id) {
+            throw new Error(`Failed to create line item: ${lineItemPlan.name}`);
+          }
+          lineItemPlan.id = response.payload.line_item_id;
+          record('create', 'line_item', lineItemPlan.id, lineItemPlan.name);
+        } else if (lineItemPlan.action === 'update') {
+          const body = changesToBody(lineItemPlan.changes.filter(change => change.field !== 'targeting'));
+          if (targetingChange && !lineItemPlan.targeting_expression_id) {
+            body.targeting_expression_id = targetingExpressionId;
+          }
+          if (Object.keys(body).length > 0) {
+            await this.client.lineItems.edit(lineItemPlan.id!, body, true);
+            record('update', 'line_item', lineItemPlan.id, lineItemPlan.name);
+          }
+        }
+
+        await this.applyCreatives(lineItemPlan, spec.advertiser_id, record);
+      }
+
+      return {
+        success: true,
+        payload: result
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.message || 'Failed to apply campaign plan',
+        payload: result,
+        errors: [error.message || String(error)]
+      };
+    }
+  }
+
+  private async findCampaign(spec: CampaignCreationOptions, campaignId?: number): Promise<Campaign | undefined> {
+    if (campaignId !== undefined) {
+      const response = await this.client.campaigns.find(campaignId);
+      if (!response.payload) {
+        throw new Error(`Campaign ${campaignId} not found`);
+      }
+      return response.payload;
+    }
+
+    // Without an id, the campaign name is the key within the advertiser
+    const name = spec.name || spec.campaign_name;
+    const nameFilter = this.client.apiVersion === 'v2' ? { name } : { campaign_name: name };
+    const response = await this.client.campaigns.query({ advertiser_id: spec.advertiser_id, ...nameFilter });
+    return (response.payload || []).find(campaign => entityName(campaign, 'name', 'campaign_name') === name);
+  }
+
+  private desiredTargeting(
+    lineItemSpec: LineItemCreationOptions,
+    templates: Map<string, { targeting: any }>
+  ): TargetingExpressionTargeting | undefined {
+    if (lineItemSpec.targeting) {
+      return resolveTargeting(lineItemSpec.targeting);
+    }
+    const template = lineItemSpec.targeting_template_name
+      ? templates.get(lineItemSpec.targeting_template_name)
+      : undefined;
+    if (lineItemSpec.targeting_template_name && !template) {
+      throw new Error(`Unknown targeting template: ${lineItemSpec.targeting_template_name}`);
+    }
+    return template ? resolveTargeting(template.targeting) : undefined;
+  }
+
+  private async planCreatives(specs: CreativeCreationOptions[], lineItem: LineItem | undefined, prune: boolean): Promise<CreativePlan[]> {
+    const live: Array<{ cli_id: number; creative: Creative }> = [];
+
+    if (lineItem?.line_item_id) {
+      const clis = (await this.client.creativeLineItems.queryAll({ line_item_id: lineItem.line_item_id })).payload || [];
+      for (const cli of clis) {
+        const creative = (await this.client.creatives.find(cli.creative_id)).payload;
+        if (creative) {
+          live.push({ cli_id: cli.cli_id, creative });
+        }
+      }
+    }
+
+    const plans: CreativePlan[] = [];
+    for (const creativeSpec of specs) {
+      const name = creativeSpec.name || creativeSpec.creative_name;
+      const index = live.findIndex(entry => entityName(entry.creative, 'name', 'creative_name') === name);
+      const match = index >= 0 ? live.splice(index, 1)[0] : undefined;
+      const changes = diffFields(CREATIVE_FIELDS, creativeSpec, match?.creative);
+
+      plans.push({
+        action: match ? (changes.length > 0 ? 'update' : 'noop') : 'create',
+        id: match?.creative.creative_id,
+        cli_id: match?.cli_id,
+        name,
+        spec: creativeSpec,
+        changes,
+        current: match?.creative
+      });
+    }
+
+    if (prune) {
+      for (const entry of live) {
+        plans.push({
+          action: 'delete',
+          id: entry.creative.creative_id,
+          cli_id: entry.cli_id,
+          name: entityName(entry.creative, 'name', 'creative_name'),
+          changes: [],
+          current: entry.creative
+        });
+      }
+    }
+
+    return plans;
+  }
+
+  private async applyCreatives(
+    lineItemPlan: LineItemPlan,
+    advertiserId: number,
+    record: (action: AppliedOperation['action'], type: CampaignEntityType, id?: number, name?: string) => void
+  ): Promise<void> {
+    for (const creativePlan of lineItemPlan.creatives) {
+      if (creativePlan.action === 'create') {
+        const creativeSpec = creativePlan.spec!;
+        let creativeAssetId: number | undefined;
+        if (creativeSpec.asset_url) {
+          const asset = await this.client.uploadCreativeAsset({
+            advertiser_id: advertiserId,
+            sourceUrl: creativeSpec.asset_url,
+            creative_asset_name: creativeSpec.creative_name
+          });
+          creativeAssetId = asset.creative_asset_id;
+          record('create', 'creative_asset', creativeAssetId, asset.creative_asset_name);
+        }
+
+        const response = await this.client.creatives.create(buildCreativeData(advertiserId, creativeSpec, creativeAssetId));
+        if (!response.success || !response.payload?.creative_id) {
+          throw new Error(`Failed to create creative: ${creativePlan.name}`);
+        }
+        creativePlan.id = response.payload.creative_id;
+        record('create', 'creative', creativePlan.id, creativePlan.name);
+
+        const cliResponse = await this.client.creativeLineItems.create({
+          creative_id: creativePlan.id,
+          line_item_id: lineItemPlan.id!,
+          active: true,
+          weighting: 100
+        });
+        if (!cliResponse.success || !cliResponse.payload?.cli_id) {
+          throw new Error(`Failed to associate creative ${creativePlan.name} with line item ${lineItemPlan.name}`);
+        }
+        creativePlan.cli_id = cliResponse.payload.cli_id;
+        record('create', 'creative_line_item', creativePlan.cli_id, creativePlan.name);
+      } else if (creativePlan.action === 'update') {
+        await this.client.creatives.edit(creativePlan.id!, changesToBody(creativePlan.changes), true);
+        record('update', 'creative', creativePlan.id, creativePlan.name);
+      } else if (creativePlan.action === 'delete') {
+        // Creatives can be shared between line items, so only the association is removed
+        await this.client.creativeLineItems.delete(creativePlan.cli_id!, true);
+        record('delete', 'creative_line_item', creativePlan.cli_id, creativePlan.name);
+      }
+    }
+  }
+
+  private async createExpression(advertiserId: number, name: string, type: string, targeting: TargetingExpressionTargeting): Promise<number> {
+    const response = await this.client.targetingExpressions.create({
+      advertiser_id: advertiserId,
+      name,
+      type,
+      targeting,
+      active: true
+    });
+
+    if (!response.success || !response.payload?.id) {
+      throw new Error(`Failed to create targeting expression: ${name}`);
+    }
+
+    return response.payload.id;
+  }
+}
@@ -0,0 +1,89 @@
+import {
+  CampaignCreationOptions,
+  CreativeCreationOptions,
+  LineItemCreationOptions
+} from '../types';
+
+/**
+ * Campaign fields for creating a campaign from CampaignCreationOptions
+ */
+export function buildCampaignData(options: CampaignCreationOptions): Record<string, any> {
+  return {
+    advertiser_id: options.advertiser_id,
+    name: options.name || options.campaign_name,
+    budget: options.budget || options.campaign_budget,
+    budget_type: options.budget_type || 2, // Ensure budget type is set
+    start_date: options.start_date,
+    end_date: options.end_date,
+    active: false // Start inactive until everything is set up
+  };
+}
+
+/**
+ * createLineItem() params for a line item from LineItemCreationOptions.
+ * Targeting is resolved by the caller, which passes the expression id.
+ */
+export function buildLineItemParams(
+  campaignId: number,
+  options: LineItemCreationOptions,
+  targetingExpressionId?: number
+) {
+  return {
+    campaign_id: campaignId,
+    name: options.name || options.line_item_name,
+    type: options.type || 'banner',
+    guaranteed: options.guaranteed || false,
+    currency: options.currency || 'USD',
+    budget_type: options.budget_type || 'spend including vendor fees',
+    spend_budget: options.spend_budget || {
+      lifetime: String(options.budget || options.line_item_budget || 0),
+      include_fees: true
+    },
+    bidding: options.bidding || {
+      strategy: 'CPM',
+      values: {
+        cpm_bid: options.bid_price || 3
+      },
+      pacing: 'none',
+      custom: false,
+      bid_shading_control: 'normal'
+    },
+    frequency_caps: options.frequency_caps,
+    targeting_expression_id: targetingExpressionId,
+    start_date: options.start_date,
+    end_date: options.end_date,
+    active: options.active || false // Line items must be inactive until creatives are attached
+  };
+}
+
+/**
+ * Creative fields for creating a creative from CreativeCreationOptions
+ */
+export function buildCreativeData(
+  advertiserId: number,
+  options: CreativeCreationOptions,
+  creativeAssetId?: number
+): Record<string, any> {
+  const creativeData: Record<string, any> = {
+    advertiser_id: advertiserId,
+    name: options.name || options.creative_name,
+    type: options.type || options.creative_type || 'display',
+    creative_template_id: options.creative_template_id || 1, // Default to 1 for standard display
+    width: options.width,
+    height: options.height,
+    click_url: options.click_url || 'https://example.com',
+    secure: true,
+    active: false // Creatives need content before being activated
+  };
+
+  // Handle attributes using both old and new field names
+  if (options.attributes || options.creative_attributes) {
+    creativeData.attributes = options.attributes || options.creative_attributes;
+  }
+
+  if (creativeAssetId) {
+    creativeData.creative_asset_id = creativeAssetId;
+  }
+
+  return creativeData;
+}
@@ -0,0 +1,83 @@
+import type { Method, ResponseType } from 'axios';
+import type { BeeswaxResponse } from '../types';
+
+/**
+ * One call to BeeswaxClient.request as middleware sees it. `before` hooks may
+ * change the method, endpoint, body, params and headers; the request is built
+ * from the context after every `before` hook has run.
+ */
+export interface RequestContext {
+  method: Method;
+  endpoint: string;
+  resource?: string; // e.g. 'campaign', 'line_item', 'report'; unset when no resource owns the endpoint
+  body?: any;
+  params?: any;
+  headers: Record<string, string>;
+  responseType?: ResponseType;
+  correlationId: string; // Same id as the request's log lines
+  retries: number; // Rate-limit retries so far
+  status?: number; // HTTP status of the last response, once there is one
+  state: Record<string, unknown>; // Scratch space shared by the hooks of one request
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Hooks around BeeswaxClient.request, run in the order they were added for
+ * `before` and in reverse for `after`/`onError`:
+ *
+ * - `before` returning a response short-circuits: no HTTP call is made and
+ *   only the middleware that ran before it see `after`
+ * - `after` returning a response replaces the one passed on
+ * - `onError` returning a response recovers from the error; the first one
+ *   that does wins and no `after` hooks run
+ *
+ * Returning nothing (undefined) passes; any other value, '' and null
+ * included, counts as a response.
+ */
+export interface Middleware {
+  name?: string;
+  before?(context: RequestContext): MaybePromise<BeeswaxResponse | void>;
+  after?(context: RequestContext, response: BeeswaxResponse): MaybePromise<BeeswaxResponse | void>;
+  onError?(context: RequestContext, error: any): MaybePromise<BeeswaxResponse | void>;
+}
+
+/**
+ * Run `next` (the HTTP request) inside the middleware chain
+ */
+export async function runMiddleware<T>(
+  middleware: Middleware[],
+  context: RequestContext,
+  next: () => Promise<BeeswaxResponse<T>>
+): Promise<BeeswaxResponse<T>> {
+  let entered = 0; // Middleware whose `before` completed without answering
+  let answer: BeeswaxResponse<T> | void = undefined;
+  let response: BeeswaxResponse<T>;
+
+  try {
+    for (const current of middleware) {
+      answer = await current.before?.(context);
+      if (answer !== undefined) {
+        break;
+      }
+      entered++;
+    }
+    response = answer !== undefined ? answer as BeeswaxResponse<T> : await next();
+  } catch (error) {
+    for (const current of middleware.slice(0, entered).reverse()) {
+      const recovered = await current.onError?.(context, error);
+      if (recovered !== undefined) {
+        return recovered;
+      }
+    }
+    throw error;
+  }
+
+  for (const current of middleware.slice(0, entered).reverse()) {
+    const replacement = await current.after?.(context, response);
+    if (replacement !== undefined) {
+      response = replacement as BeeswaxResponse<T>;
+    }
+  }
+  return response;
+}
@@ -0,0 +1,102 @@
+import type { BeeswaxClient } from '../BeeswaxClient';
+import {
+  AdvertiserCreateInput,
+  AdvertiserRead,
+  AdvertiserUpdateInput,
+  BeeswaxResponse,
+  CampaignCreateInput,
+  CampaignRead,
+  CampaignUpdateInput,
+  CreativeCreateInput,
+  CreativeLineItemCreateInput,
+  CreativeLineItemRead,
+  CreativeLineItemUpdateInput,
+  CreativeRead,
+  CreativeUpdateInput,
+  LineItemCreateInput,
+  LineItemRead,
+  LineItemUpdateInput,
+  QueryOptions,
+  SegmentCreateInput,
+  SegmentRead,
+  SegmentUpdateInput,
+  TargetingExpressionCreateInput,
+  TargetingExpressionRead,
+  TargetingExpressionUpdateInput
+} from '../types';
+import { BeeswaxValidationError } from '../errors';
+import { BaseResource } from '../resources/BaseResource';
+import { EntityNormalizer, NORMALIZERS } from './normalize';
+
+export interface EntityModels {
+  advertisers: EntityModel<AdvertiserRead, AdvertiserCreateInput, AdvertiserUpdateInput>;
+  campaigns: EntityModel<CampaignRead, CampaignCreateInput, CampaignUpdateInput>;
+  lineItems: EntityModel<LineItemRead, LineItemCreateInput, LineItemUpdateInput>;
+  creatives: EntityModel<CreativeRead, CreativeCreateInput, CreativeUpdateInput>;
+  creativeLineItems: EntityModel<CreativeLineItemRead, CreativeLineItemCreateInput, CreativeLineItemUpdateInput>;
+  targetingExpressions: EntityModel<TargetingExpressionRead, TargetingExpressionCreateInput, TargetingExpressionUpdateInput>;
+  segments: EntityModel<SegmentRead, SegmentCreateInput, SegmentUpdateInput>;
+}
+
+/**
+ * Typed view of a resource: takes and returns strict models instead of
+ * `BeeswaxResponse` envelopes with loose payloads. Failures throw, and
+ * find() resolves with undefined for unknown ids.
+ *
+ * Query filters are passed through as-is, so they use the API's field names.
+ */
+export class EntityModel<R, C, U> {
+  constructor(
+    private resource: BaseResource<any>,
+    private normalizer: EntityNormalizer<R, C, U>
+  ) {}
+
+  async find(id: number): Promise<R | undefined> {
+    const response = await this.resource.find(id);
+    return response.payload ? this.normalizer.fromApi(response.payload) : undefined;
+  }
+
+  async query(filter: QueryOptions = {}): Promise<R[]> {
+    const response = await this.resource.query(filter);
+    return (this.unwrap(response, 'query') as any[]).map(row => this.normalizer.fromApi(row));
+  }
+
+  async create(input: C): Promise<R> {
+    const response = await this.resource.create(this.normalizer.toApi(input));
+    return this.normalizer.fromApi(this.unwrap(response, 'create'));
+  }
+
+  async update(id: number, input: U): Promise<R> {
+    const response = await this.resource.edit(id, this.normalizer.toApi(input), true);
+    return this.normalizer.fromApi(this.unwrap(response, 'update'));
+  }
+
+  async delete(id: number): Promise<void> {
+    this.unwrap(await this.resource.delete(id, true), 'delete');
+  }
+
+  private unwrap(response: BeeswaxResponse, operation: string): any {
+    if (!response.success) {
+      throw new BeeswaxValidationError(
+        response.message || `${this.resource.resourceName} ${operation} failed`,
+        { status: response.code, messages: response.errors }
+      );
+    }
+    return response.payload;
+  }
+}
+
+/**
+ * Typed views over a client's resources, `client.models`
+ */
+export function createEntityModels(client: BeeswaxClient): EntityModels {
+  return {
+    advertisers: new EntityModel(client.advertisers, NORMALIZERS.advertiser),
+    campaigns: new EntityModel(client.campaigns, NORMALIZERS.campaign),
+    lineItems: new EntityModel(client.lineItems, NORMALIZERS.line_item),
+    creatives: new EntityModel(client.creatives, NORMALIZERS.creative),
+    creativeLineItems: new EntityModel(client.creativeLineItems, NORMALIZERS.cli),
+    targetingExpressions: new EntityModel(client.targetingExpressions, NORMALIZERS.targeting_expression),
+    segments: new EntityModel(client.segments, NORMALIZERS.segment)
+  };
+}
@@ -0,0 +1,317 @@
+import {
+  AdvertiserCreateInput,
+  AdvertiserRead,
+  AdvertiserUpdateInput,
+  ApiManagedFields,
+  BudgetType,
+  CampaignCreateInput,
+  CampaignRead,
+  CampaignUpdateInput,
+  CreativeCreateInput,
+  CreativeKind,
+  CreativeLineItemCreateInput,
+  CreativeLineItemRead,
+  CreativeLineItemUpdateInput,
+  CreativeRead,
+  CreativeUpdateInput,
+  LineItemCreateInput,
+  LineItemRead,
+  LineItemType,
+  LineItemUpdateInput,
+  SegmentCreateInput,
+  SegmentRead,
+  SegmentUpdateInput,
+  TargetingExpressionCreateInput,
+  TargetingExpressionRead,
+  TargetingExpressionUpdateInput
+} from '../types';
+import { BeeswaxValidationError } from '../errors';
+
+// v1 integer codes are the index into these
+const BUDGET_TYPES: BudgetType[] = ['spend', 'impressions', 'spend including vendor fees'];
+const ENTITY_KINDS: LineItemType[] = ['banner', 'video', 'native'];
+
+/**
+ * Translates between an entity's strict model and the API. `fromApi` takes
+ * a v1 or v2 payload; `toApi` returns a body with v1 field names, which
+ * every resource accepts whichever API version the client uses.
+ */
+export interface EntityNormalizer<R, C, U> {
+  fromApi(raw: Record<string, any>): R;
+  toApi(input: C | U): Record<string, any>;
+}
+
+export function normalizeAdvertiser(raw: Record<string, any>): AdvertiserRead {
+  return compact({
+    ...managedFields(raw),
+    advertiser_id: raw.advertiser_id ?? raw.id,
+    name: raw.name ?? raw.advertiser_name,
+    alternative_id: raw.alternative_id,
+    currency: raw.currency,
+    notes: raw.notes,
+    active: toBoolean(raw.active)
+  });
+}
+
+export function normalizeCampaign(raw: Record<string, any>): CampaignRead {
+  return compact({
+    ...managedFields(raw),
+    campaign_id: raw.campaign_id ?? raw.id,
+    advertiser_id: raw.advertiser_id,
+    name: raw.name ?? raw.campaign_name,
+    budget: toNumber(raw.budget ?? raw.campaign_budget),
+    daily_budget: toNumber(raw.daily_budget),
+    budget_type: budgetTypeName(raw.budget_type),
+    currency: raw.currency,
+    start_date: raw.start_date,
+    end_date: raw.end_date,
+    frequency_caps: raw.frequency_caps,
+    alternative_id: raw.alternative_id,
+    notes: raw.notes,
+    active: toBoolean(raw.active),
+    campaign_spend: toNumber(raw.campaign_spend)
+  });
+}
+
+export function normalizeLineItem(raw: Record<string, any>): LineItemRead {
+  return compact({
+    ...managedFields(raw),
+    line_item_id: raw.line_item_id ?? raw.id,
+    campaign_id: raw.campaign_id,
+    advertiser_id: raw.advertiser_id,
+    name: raw.name ?? raw.line_item_name,
+    type: kindName(raw.type ?? raw.line_item_type ?? raw.line_item_type_id) as LineItemType,
+    guaranteed: raw.guaranteed,
+    currency: raw.currency,
+    budget: toNumber(raw.budget ?? raw.line_item_budget),
+    budget_type: budgetTypeName(raw.budget_type),
+    spend_budget: raw.spend_budget && compact({
+      lifetime: toNumber(raw.spend_budget.lifetime) ?? null,
+      daily: toNumber(raw.spend_budget.daily) ?? null,
+      include_fees: raw.spend_budget.include_fees
+    }),
+    bidding: raw.bidding && compact({
+      strategy: raw.bidding.strategy ?? raw.bidding.bidding_strategy,
+      values: compact({
+        cpm_bid: toNumber(raw.bidding.values?.cpm_bid),
+        cpc_bid: toNumber(raw.bidding.values?.cpc_bid),
+        cpa_bid: toNumber(raw.bidding.values?.cpa_bid)
+      }),
+      pacing: raw.bidding.pacing,
+      custom: raw.bidding.custom,
+      bid_shading: raw.bidding.bid_shading,
+      bid_shading_control: raw.bidding.bid_shading_control
+    }),
+    start_date: raw.start_date,
+    end_date: raw.end_date,
+    targeting_expression_id: raw.targeting_expression_id,
+    frequency_caps: raw.frequency_caps,
+    pacing: raw.pacing,
+    delivery_model: raw.delivery_model,
+    alternative_id: raw.alternative_id,
+    notes: raw.notes,
+    active: toBoolean(raw.active),
+    line_item_spend: toNumber(raw.line_item_spend),
+    line_item_impressions: toNumber(raw.line_item_impressions),
+    line_item_version: raw.line_item_version
+  });
+}
+
+export function normalizeCreative(raw: Record<string, any>): CreativeRead {
+  const type = kindName(raw.type ?? raw.creative_type);
+  return compact({
+    ...managedFields(raw),
+    creative_id: raw.creative_id ?? raw.id,
+    advertiser_id: raw.advertiser_id,
+    name: raw.name ?? raw.creative_name,
+    type,
+    // Native creatives have no fixed size
+    width: type === 'native' ? undefined : raw.width,
+    height: type === 'native' ? undefined : raw.height,
+    creative_template_id: raw.creative_template_id,
+    creative_asset_id: raw.creative_asset_id,
+    click_url: raw.click_url,
+    secure: raw.secure,
+    attributes: raw.attributes ?? raw.creative_attributes,
+    creative_thumbnail_url: raw.creative_thumbnail_url,
+    alternative_id: raw.alternative_id,
+    notes: raw.notes,
+    active: toBoolean(raw.active)
+  }) as CreativeRead;
+}
+
+export function normalizeCreativeLineItem(raw: Record<string, any>): CreativeLineItemRead {
+  return compact({
+    ...managedFields(raw),
+    cli_id: raw.cli_id ?? raw.id,
+    creative_id: raw.creative_id,
+    line_item_id: raw.line_item_id,
+    weighting: raw.weighting,
+    start_date: raw.start_date,
+    end_date: raw.end_date,
+    active: toBoolean(raw.active)
+  });
+}
+
+export function normalizeTargetingExpression(raw: Record<string, any>): TargetingExpressionRead {
+  return compact({
+    ...managedFields(raw),
+    targeting_expression_id: raw.targeting_expression_id ?? raw.id,
+    advertiser_id: raw.advertiser_id,
+    name: raw.name,
+    type: raw.type,
+    targeting: raw.targeting,
+    alternative_id: raw.alternative_id,
+    notes: raw.notes,
+    active: toBoolean(raw.active)
+  });
+}
+
+export function normalizeSegment(raw: Record<string, any>): SegmentRead {
+  return compact({
+    ...managedFields(raw),
+    segment_id: raw.segment_id ?? raw.id,
+    advertiser_id: raw.advertiser_id,
+    segment_name: raw.segment_name,
+    segment_description: raw.segment_description,
+    alternative_id: raw.alternative_id,
+    active: toBoolean(raw.active)
+  });
+}
+
+export function advertiserToApi(input: AdvertiserCreateInput | AdvertiserUpdateInput): Record<string, any> {
+  return renameFields(input, { name: 'advertiser_name' });
+}
+
+export function campaignToApi(input: CampaignCreateInput | CampaignUpdateInput): Record<string, any> {
+  const data = renameFields(input, { name: 'campaign_name', budget: 'campaign_budget' });
+  if (input.budget_type !== undefined) {
+    data.budget_type = codeOf(BUDGET_TYPES, input.budget_type, 'budget_type');
+  }
+  return data;
+}
+
+export function lineItemToApi(input: LineItemCreateInput | LineItemUpdateInput): Record<string, any> {
+  return renameFields(input, { name: 'line_item_name', type: 'line_item_type', budget: 'line_item_budget' });
+}
+
+export function creativeToApi(input: CreativeCreateInput | CreativeUpdateInput): Record<string, any> {
+  const data = renameFields(input, { name: 'creative_name', attributes: 'creative_attributes' });
+  if ('type' in input && input.type !== undefined) {
+    data.creative_type = codeOf(ENTITY_KINDS, input.type, 'type');
+    delete data.type;
+  }
+  return data;
+}
+
+export const NORMALIZERS = {
+  advertiser: {
+    fromApi: normalizeAdvertiser,
+    toApi: advertiserToApi
+  } as EntityNormalizer<AdvertiserRead, AdvertiserCreateInput, AdvertiserUpdateInput>,
+  campaign: {
+    fromApi: normalizeCampaign,
+    toApi: campaignToApi
+  } as EntityNormalizer<CampaignRead, CampaignCreateInput, CampaignUpdateInput>,
+  line_item: {
+    fromApi: normalizeLineItem,
+    toApi: lineItemToApi
+  } as EntityNormalizer<LineItemRead, LineItemCreateInput, LineItemUpdateInput>,
+  creative: {
+    fromApi: normalizeCreative,
+    toApi: creativeToApi
+  } as EntityNormalizer<CreativeRead, CreativeCreateInput, CreativeUpdateInput>,
+  cli: {
+    fromApi: normalizeCreativeLineItem,
+    toApi: input => ({ ...input })
+  } as EntityNormalizer<CreativeLineItemRead, CreativeLineItemCreateInput, CreativeLineItemUpdateInput>,
+  targeting_expression: {
+    fromApi: normalizeTargetingExpression,
+    toApi: input => ({ ...input })
+  } as EntityNormalizer<TargetingExpressionRead, TargetingExpressionCreateInput, TargetingExpressionUpdateInput>,
+  segment: {
+    fromApi: normalizeSegment,
+    toApi: input => ({ ...input })
+  } as EntityNormalizer<SegmentRead, SegmentCreateInput, SegmentUpdateInput>
+};
+
+// v1 spells the timestamps create_date/update_date on some entities
+function managedFields(raw: Record<string, any>): ApiManagedFields {
+  return {
+    account_id: raw.account_id,
+    created_date: raw.created_date ?? raw.create_date,
+    updated_date: raw.updated_date ?? raw.update_date,
+    buzz_key: raw.buzz_key,
+    push_status: raw.push_status,
+    push_update: raw.push_update,
+    last_active: raw.last_active
+  };
+}
+
+// Untyped callers can pass anything; don't send -1 for a name not in the list
+function codeOf(names: readonly string[], name: string, field: string): number {
+  const code = names.indexOf(name);
+  if (code === -1) {
+    throw new BeeswaxValidationError(
+      `Unknown ${field} "${name}", expected one of ${names.join(', ')}`,
+      {},
+      { [field]: [`"${name}" is not a valid choice.`] }
+    );
+  }
+  return code;
+}
+
+function budgetTypeName(value: any): BudgetType | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return BUDGET_TYPES[Number(value)] ?? value;
+}
+
+function kindName(value: any): LineItemType | CreativeKind | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (value === 'display') {
+    return 'banner';
+  }
+  return ENTITY_KINDS[Number(value)] ?? value;
+}
+
+// v1 sends flags as booleans, 1/0 or strings; absent stays absent
+function toBoolean(value: any): boolean | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return value === true || value === 1 || value === '1' || String(value).toLowerCase() === 'true';
+}
+
+// The API returns amounts as decimal strings, e.g. '5000.00'; anything
+// that isn't a number is left out
+function toNumber(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function renameFields(input: Record<string, any>, names: Record<string, string>): Record<string, any> {
+  const data: Record<string, any> = {};
+  Object.entries(input).forEach(([field, value]) => {
+    if (value !== undefined) {
+      data[names[field] || field] = value;
+    }
+  });
+  return data;
+}
+
+// Drop fields the payload didn't have so reads only carry what the API sent
+function compact<T extends Record<string, any>>(value: T): T {
+  Object.keys(value).forEach(key => {
+    if (value[key] === undefined) {
+      delete value[key];
+    }
+  });
+  return value;
+}
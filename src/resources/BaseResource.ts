@@ -1,19 +1,93 @@
 import { BeeswaxClient } from '../BeeswaxClient';
-import { BeeswaxResponse, QueryOptions } from '../types';
-import { isPOJO } from '../utils/helpers';
+import { BeeswaxResponse, IterateOptions, QueryOptions } from '../types';
+import { isPOJO, stableStringify } from '../utils/helpers';
+import { BatchLoader } from '../utils/BatchLoader';
+import { BeeswaxNotFoundError, BeeswaxValidationError } from '../errors';
+import type { CachedOperation } from '../cache/ResponseCache';
+import { ENTITY_SCHEMAS } from '../schemas/entitySchemas';
+import { assertValidEntity, assertValidResponse } from '../schemas/validateEntity';
+
+const DEFAULT_PAGE_SIZE = 50;
 
 export abstract class BaseResource<T> {
   protected client: BeeswaxClient;
   protected endpoint: string;
   protected idField: string;
+  // Whether list queries accept a comma-separated id list, so concurrent
+  // find() calls can be batched into one query
+  protected supportsIdList = true;
+  private findLoader?: BatchLoader<number | string, T | undefined>;
+  private pendingFinds = new Map<string, Promise<BeeswaxResponse<T>>>();
+  private pendingQueries = new Map<string, Promise<BeeswaxResponse<T[]>>>();
 
   constructor(client: BeeswaxClient, endpoint: string, idField: string) {
     this.client = client;
     this.endpoint = endpoint;
     this.idField = idField;
+
+    // When dry-running, writes report the calls they would have made
+    this.create = client.dryRunner.wrap(this.create.bind(this));
+    this.edit = client.dryRunner.wrap(this.edit.bind(this));
+    this.delete = client.dryRunner.wrap(this.delete.bind(this));
+  }
+
+  /**
+   * Name middleware sees for this resource's requests, e.g. 'line_item'
+   */
+  get resourceName(): string {
+    return this.idField.replace(/_id$/, '');
   }
 
+  /**
+   * Whether a request path belongs to this resource, e.g. `/rest/campaign/strict`
+   */
+  handles(endpoint: string): boolean {
+    return endpoint.startsWith(this.endpoint) && ['', '/', '?'].includes(endpoint.charAt(this.endpoint.length));
+  }
+
+  /**
+   * Concurrent calls for the same id share one request. With `findBatching`
+   * on, different ids are also fetched with one list query where the API
+   * allows it.
+   */
   async find(id: number | string): Promise<BeeswaxResponse<T>> {
+    return this.validateResponse(await this.cached('find', { id }, async () => {
+      // Shared requests can mix callers, so dry runs, which see their own writes, skip them
+      if (this.client.dryRunner.active) {
+        return this.fetchOne(id);
+      }
+      const loader = this.getFindLoader();
+      if (loader) {
+        return { success: true, payload: await loader.load(id) };
+      }
+      return share(this.pendingFinds, String(id), () => this.fetchOne(id));
+    }));
+  }
+
+  /**
+   * Identical concurrent queries share one request
+   */
+  async query(body?: Record<string, any>): Promise<BeeswaxResponse<T[]>> {
+    return this.validateResponse(await this.cached('query', body || {}, () => {
+      if (this.client.dryRunner.active) {
+        return this.fetchQuery(body);
+      }
+      return share(this.pendingQueries, stableStringify(body || {}), () => this.fetchQuery(body));
+    }));
+  }
+
+  /**
+   * Read an entity back after a write, without the find() loader, so it
+   * can't get a response to a request sent before the write
+   */
+  protected async findAfterWrite(id: number | string): Promise<BeeswaxResponse<T>> {
+    return this.validateResponse(await this.cached('find', { id }, () => this.fetchOne(id)));
+  }
+
+  /**
+   * Fetch a single entity by id. Resources on other API shapes override this.
+   */
+  protected async fetchOne(id: number | string): Promise<BeeswaxResponse<T>> {
     const body: any = {};
     body[this.idField] = id;
     
@@ -24,7 +98,39 @@ export abstract class BaseResource<T> {
     };
   }
 
-  async query(body?: Record<string, any>): Promise<BeeswaxResponse<T[]>> {
+  /**
+   * Fetch several entities with one list query, in the order of `ids`
+   */
+  protected async fetchMany(ids: Array<number | string>): Promise<Array<T | undefined>> {
+    const response = await this.fetchQuery({ [this.idField]: ids.join(','), rows: ids.length });
+    const byId = new Map((response.payload || []).map(row => [String((row as any)[this.idField]), row]));
+    return ids.map(id => byId.get(String(id)));
+  }
+
+  private getFindLoader(): BatchLoader<number | string, T | undefined> | undefined {
+    if (this.client.findBatching === false) {
+      return undefined;
+    }
+    if (!this.findLoader) {
+      this.findLoader = new BatchLoader(async ids => {
+        if (ids.length > 1 && this.supportsIdList) {
+          try {
+            return await this.fetchMany(ids);
+          } catch (error) {
+            // The endpoint turned out not to take id lists; fetch one by one
+            if (!(error instanceof BeeswaxValidationError)) {
+              throw error;
+            }
+            this.supportsIdList = false;
+          }
+        }
+        return Promise.all(ids.map(async id => (await this.fetchOne(id)).payload));
+      }, this.client.findBatching);
+    }
+    return this.findLoader;
+  }
+
+  protected async fetchQuery(body?: Record<string, any>): Promise<BeeswaxResponse<T[]>> {
     const response = await this.client.request('GET', this.endpoint, { body: body || {} });
     return {
       success: true,
@@ -32,34 +138,128 @@ export abstract class BaseResource<T> {
     };
   }
 
-  async queryAll(body?: Record<string, any>): Promise<BeeswaxResponse<T[]>> {
+  /**
+   * Serve a find()/query() from the client's response cache when it has one
+   */
+  protected cached<R extends BeeswaxResponse<any>>(
+    operation: CachedOperation,
+    args: Record<string, any>,
+    load: () => Promise<R>
+  ): Promise<R> {
+    // Dry runs see their own writes, which mustn't end up in the cache
+    const cache = this.client.dryRunner.active ? undefined : this.client.cache;
+    return cache && cache.caches(this.resourceName) ? cache.wrap(this.endpoint, operation, args, load) : load();
+  }
+
+  /**
+   * Check a create()/edit() body against the resource's schema when the
+   * client has `schemaValidation` on
+   */
+  protected validateBody(body: Partial<T>, mode: 'create' | 'edit'): void {
+    const schema = ENTITY_SCHEMAS[this.resourceName];
+    if (schema && this.client.schemaValidation) {
+      assertValidEntity(schema, body, mode);
+    }
+  }
+
+  /**
+   * Check the entities in a response in `schemaValidation: 'strict'` mode
+   */
+  protected validateResponse<R extends BeeswaxResponse<any>>(response: R): R {
+    const schema = ENTITY_SCHEMAS[this.resourceName];
+    if (schema && this.client.schemaValidation === 'strict') {
+      assertValidResponse(schema, response.payload);
+    }
+    return response;
+  }
+
+  /**
+   * Drop cached list queries, and the find() of `id`, after a write. Reads
+   * already in flight are no longer shared with later calls.
+   */
+  protected async invalidate(id?: number | string): Promise<void> {
+    this.pendingFinds.clear();
+    this.pendingQueries.clear();
+    this.findLoader?.clearInFlight();
+    await this.client.cache?.invalidate(this.endpoint, id);
+  }
+
+  async queryAll(body?: Record<string, any>, options?: IterateOptions<T>): Promise<BeeswaxResponse<T[]>> {
     const results: T[] = [];
-    const batchSize = 50;
+
+    for await (const page of this.iteratePages(body, options)) {
+      results.push(...page);
+    }
+
+    return {
+      success: true,
+      payload: results
+    };
+  }
+
+  /**
+   * Stream matching rows one at a time, fetching pages lazily.
+   * Breaking out of a `for await` loop stops further requests.
+   */
+  async *iterate(body?: Record<string, any>, options?: IterateOptions<T>): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.iteratePages(body, options)) {
+      yield* page;
+    }
+  }
+
+  /**
+   * Stream matching rows a page at a time
+   */
+  async *iteratePages(body?: Record<string, any>, options: IterateOptions<T> = {}): AsyncGenerator<T[], void, undefined> {
+    const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+    const sortBy = options.sortBy || body?.sort_by || this.idField;
     let offset = 0;
+    let pageNumber = 0;
+    let remaining = options.limit !== undefined ? options.limit : Infinity;
 
-    while (true) {
-      const queryBody: QueryOptions = {
-        ...body,
-        rows: batchSize,
-        offset: offset,
-        sort_by: this.idField
-      };
+    while (remaining > 0) {
+      const rows = Math.min(pageSize, remaining);
+      const batch = await this.fetchPage(body || {}, { rows, offset, sortBy, order: options.order });
+      this.validateResponse({ success: true, payload: batch });
+      const page = batch.slice(0, rows);
 
-      const response = await this.client.request('GET', this.endpoint, { body: queryBody });
-      const batch = response.payload || [];
-      results.push(...batch);
+      if (page.length > 0) {
+        if (options.onPage) {
+          await options.onPage({ rows: page, pageNumber, offset });
+        }
+        yield page;
+      }
 
-      if (batch.length < batchSize) {
+      if (batch.length < rows) {
         break;
       }
 
-      offset += batchSize;
+      remaining -= page.length;
+      offset += page.length;
+      pageNumber++;
     }
+  }
 
-    return {
-      success: true,
-      payload: results
+  /**
+   * Fetch a single page of rows. Resources on other API shapes override this.
+   */
+  protected async fetchPage(
+    body: Record<string, any>,
+    page: { rows: number; offset: number; sortBy: string; order?: 'asc' | 'desc' }
+  ): Promise<T[]> {
+    const queryBody: QueryOptions = {
+      ...body,
+      rows: page.rows,
+      offset: page.offset,
+      sort_by: page.sortBy
     };
+
+    if (page.order) {
+      queryBody.order = page.order;
+    }
+
+    const response = await this.client.request('GET', this.endpoint, { body: queryBody });
+    return response.payload || [];
   }
 
   async create(body: Partial<T>): Promise<BeeswaxResponse<T>> {
@@ -71,10 +271,12 @@ export abstract class BaseResource<T> {
       };
     }
 
+    this.validateBody(body, 'create');
     const response = await this.client.request('POST', `${this.endpoint}/strict`, { body });
-    
+    await this.invalidate();
+
     if (response.success && response.payload?.id) {
-      return await this.find(response.payload.id);
+      return await this.findAfterWrite(response.payload.id);
     }
 
     return response;
@@ -89,16 +291,16 @@ export abstract class BaseResource<T> {
       };
     }
 
+    this.validateBody(body, 'edit');
     const updateBody: any = { ...body };
     updateBody[this.idField] = id;
 
     try {
       await this.client.request('PUT', `${this.endpoint}/strict`, { body: updateBody });
-      return await this.find(id);
+      await this.invalidate(id);
+      return await this.findAfterWrite(id);
     } catch (error: any) {
-      const notFound = this.isNotFoundError(error, 'update');
-      
-      if (notFound && !failOnNotFound) {
+      if (error instanceof BeeswaxNotFoundError && !failOnNotFound) {
         return {
           success: false,
           code: 400,
@@ -116,14 +318,13 @@ export abstract class BaseResource<T> {
 
     try {
       const response = await this.client.request('DELETE', `${this.endpoint}/strict`, { body });
+      await this.invalidate(id);
       return {
         success: true,
         payload: response.payload?.[0]
       };
     } catch (error: any) {
-      const notFound = this.isNotFoundError(error, 'delete');
-      
-      if (notFound && !failOnNotFound) {
+      if (error instanceof BeeswaxNotFoundError && !failOnNotFound) {
         return {
           success: false,
           code: 400,
@@ -134,15 +335,22 @@ export abstract class BaseResource<T> {
       throw error;
     }
   }
+}
 
-  private isNotFoundError(error: any, action: string): boolean {
-    try {
-      const messages = error.error?.payload?.[0]?.message || [];
-      return messages.some((msg: string) => 
-        new RegExp(`Could not load object.*to ${action}`).test(msg)
-      );
-    } catch {
-      return false;
-    }
+/**
+ * Join the request in flight under `key`, or start one with `load`
+ */
+function share<R>(pending: Map<string, Promise<R>>, key: string, load: () => Promise<R>): Promise<R> {
+  const existing = pending.get(key);
+  if (existing) {
+    return existing;
   }
-}
\ No newline at end of file
+  const promise: Promise<R> = load().finally(() => {
+    // A write may have replaced this entry with a newer request
+    if (pending.get(key) === promise) {
+      pending.delete(key);
+    }
+  });
+  pending.set(key, promise);
+  return promise;
+}
@@ -0,0 +1,250 @@
+import { Readable, Writable } from 'stream';
+import { BaseResource } from './BaseResource';
+import { BeeswaxClient } from '../BeeswaxClient';
+import {
+  BeeswaxResponse,
+  Report,
+  ReportColumn,
+  ReportPollOptions,
+  ReportQuery,
+  ReportQueueEntry,
+  ReportResult,
+  ReportRow
+} from '../types';
+import { BeeswaxReportError } from '../errors';
+import { delay } from '../utils/helpers';
+import { detectDelimiter, parseDelimited, parseDelimitedStream } from '../utils/csv';
+import { RowExportFormat, RowExportOptions, writeRows } from '../utils/export';
+
+const COMPLETE_STATUSES = ['complete', 'completed', 'done', 'success'];
+const FAILED_STATUSES = ['failed', 'error', 'cancelled', 'canceled'];
+
+// Saved Report definitions and ad hoc queries both carry these
+type ReportColumns = Pick<ReportQuery, 'dimensions' | 'metrics'>;
+
+/**
+ * Saved report definitions (CRUD on /rest/report) plus running report
+ * queries through the report queue: submit, poll until complete, download
+ * and parse into typed rows.
+ */
+export class ReportResource extends BaseResource<Report> {
+  constructor(client: BeeswaxClient) {
+    super(client, '/rest/report', 'report_id');
+    this.supportsIdList = false;
+  }
+
+  // Report queue submissions, status checks and downloads count as reports too
+  handles(endpoint: string): boolean {
+    return super.handles(endpoint) || endpoint.startsWith('/rest/report_queue');
+  }
+
+  /**
+   * Submit a report query and wait for the parsed result
+   */
+  async run<R = ReportRow>(query: ReportQuery, options?: ReportPollOptions): Promise<BeeswaxResponse<ReportResult<R>>> {
+    const entry = await this.submit(query);
+    const completed = await this.waitForReport(entry.report_queue_id, options);
+    const text = await this.download(completed);
+
+    return {
+      success: true,
+      payload: this.parse<R>(text, query, entry.report_queue_id)
+    };
+  }
+
+  /**
+   * Run a report and yield its rows one at a time as the download streams in
+   */
+  async *rows<R = ReportRow>(query: ReportQuery, options?: ReportPollOptions): AsyncGenerator<R> {
+    const entry = await this.submit(query);
+    const completed = await this.waitForReport(entry.report_queue_id, options);
+
+    yield* this.parseStream<R>(await this.downloadStream(completed), query);
+  }
+
+  /**
+   * Run a report as an object-mode Readable of rows
+   */
+  stream<R = ReportRow>(query: ReportQuery, options?: ReportPollOptions): Readable {
+    return Readable.from(this.rows<R>(query, options));
+  }
+
+  /**
+   * Run a report and write its rows to `destination` as CSV, TSV, NDJSON or
+   * JSON. Resolves with the number of rows written.
+   */
+  async export(
+    query: ReportQuery,
+    destination: Writable,
+    format: RowExportFormat = 'csv',
+    options: RowExportOptions & ReportPollOptions = {}
+  ): Promise<number> {
+    const { columns, end, ...pollOptions } = options;
+    return writeRows(this.rows(query, pollOptions), destination, format, {
+      columns: columns || [...(query.dimensions || []), ...(query.metrics || [])],
+      end
+    });
+  }
+
+  /**
+   * Queue a report query without waiting for it
+   */
+  async submit(query: ReportQuery): Promise<ReportQueueEntry> {
+    if (!query.dimensions?.length && !query.metrics?.length) {
+      throw new BeeswaxReportError('Report query needs at least one dimension or metric');
+    }
+
+    const { dimensions, metrics, ...rest } = query;
+    const response = await this.client.request<{ id: number }>('POST', '/rest/report_queue/strict', {
+      body: {
+        ...rest,
+        fields: [...(dimensions || []), ...(metrics || [])],
+        file_format: 'csv'
+      }
+    });
+
+    if (!response.payload?.id) {
+      throw new BeeswaxReportError('Report queue did not return an id', { responseBody: response });
+    }
+
+    return {
+      report_queue_id: response.payload.id,
+      status: 'queued'
+    };
+  }
+
+  async getStatus(reportQueueId: number): Promise<ReportQueueEntry> {
+    const response = await this.client.request('GET', '/rest/report_queue', {
+      body: { report_queue_id: reportQueueId }
+    });
+    const entry = response.payload?.[0];
+
+    if (!entry) {
+      throw new BeeswaxReportError(`Report ${reportQueueId} not found in the report queue`, {}, reportQueueId);
+    }
+
+    return { ...entry, report_queue_id: reportQueueId };
+  }
+
+  /**
+   * Poll the report queue with exponential backoff until the report completes
+   */
+  async waitForReport(reportQueueId: number, options: ReportPollOptions = {}): Promise<ReportQueueEntry> {
+    const maxInterval = options.maxInterval ?? 30000;
+    const backoffFactor = options.backoffFactor ?? 1.5;
+    const deadline = Date.now() + (options.timeout ?? 10 * 60 * 1000);
+    let interval = options.interval ?? 1000;
+
+    while (true) {
+      const entry = await this.getStatus(reportQueueId);
+      const status = String(entry.status ?? entry.report_status ?? '').toLowerCase();
+
+      if (COMPLETE_STATUSES.includes(status)) {
+        return entry;
+      }
+      if (FAILED_STATUSES.includes(status)) {
+        throw new BeeswaxReportError(
+          `Report ${reportQueueId} failed${entry.error ? `: ${entry.error}` : ''}`,
+          { responseBody: entry },
+          reportQueueId
+        );
+      }
+      if (Date.now() + interval > deadline) {
+        throw new BeeswaxReportError(`Timed out waiting for report ${reportQueueId}`, { responseBody: entry }, reportQueueId);
+      }
+
+      await delay(interval);
+      interval = Math.min(interval * backoffFactor, maxInterval);
+    }
+  }
+
+  /**
+   * Download the raw CSV/TSV output of a completed report
+   */
+  async download(entry: ReportQueueEntry): Promise<string> {
+    const data: any = await this.fetchOutput(entry);
+    return typeof data === 'string' ? data : String(data ?? '');
+  }
+
+  /**
+   * Download a completed report as a byte stream
+   */
+  async downloadStream(entry: ReportQueueEntry): Promise<Readable> {
+    const data: any = await this.fetchOutput(entry, 'stream');
+    return typeof data === 'string' ? Readable.from([data]) : data;
+  }
+
+  /**
+   * Parse streamed report output (CSV or TSV) into typed rows. Column types
+   * come from the `metrics` of the query or saved Report definition.
+   */
+  async *parseStream<R = ReportRow>(source: AsyncIterable<string | Buffer>, report: ReportColumns): AsyncGenerator<R> {
+    let columns: ReportColumn[] | undefined;
+
+    for await (const record of parseDelimitedStream(source)) {
+      if (!columns) {
+        columns = this.columnsFor(record, report);
+      } else if (record.length > 1 || record[0] !== '') {
+        yield toRow<R>(columns, record);
+      }
+    }
+  }
+
+  /**
+   * Parse report output into rows keyed by column name, with metric columns
+   * coerced to numbers (empty cells become null)
+   */
+  parse<R = ReportRow>(text: string, query: ReportQuery, reportQueueId = 0): ReportResult<R> {
+    const firstLine = text.slice(0, text.search(/\r?\n|$/));
+    const [header = [], ...records] = parseDelimited(text, detectDelimiter(firstLine));
+    const columns = this.columnsFor(header, query);
+    const rows = records
+      .filter(record => record.length > 1 || record[0] !== '')
+      .map(record => toRow<R>(columns, record));
+
+    return {
+      report_queue_id: reportQueueId,
+      query,
+      columns,
+      rows
+    };
+  }
+
+  private columnsFor(header: string[], report: ReportColumns): ReportColumn[] {
+    const metrics = new Set(report.metrics || []);
+    return header.map(name => ({
+      name,
+      kind: metrics.has(name) ? 'metric' : 'dimension'
+    }));
+  }
+
+  // Output hosted elsewhere (e.g. a pre-signed S3 URL) is fetched without the
+  // API's credentials, middleware and rate limiting
+  private async fetchOutput(entry: ReportQueueEntry, responseType?: 'stream'): Promise<any> {
+    const url = this.downloadUrl(entry);
+    const headers = { Accept: 'text/csv, text/tab-separated-values, */*' };
+    return this.client.isApiUrl(url)
+      ? this.client.request('GET', url, { headers, responseType })
+      : this.client.fetchExternal(url, { headers, responseType });
+  }
+
+  private downloadUrl(entry: ReportQueueEntry): string {
+    return entry.download_url || entry.report_url || `/rest/report_queue/download/${entry.report_queue_id}`;
+  }
+}
+
+function toRow<R>(columns: ReportColumn[], record: string[]): R {
+  const row: ReportRow = {};
+  columns.forEach((column, index) => {
+    row[column.name] = column.kind === 'metric' ? toNumber(record[index]) : (record[index] ?? null);
+  });
+  return row as unknown as R;
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const number = Number(value.replace(/[$,%]/g, ''));
+  return isNaN(number) ? null : number;
+}
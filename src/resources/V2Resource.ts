@@ -0,0 +1,183 @@
+import { BeeswaxClient } from '../BeeswaxClient';
+import { BeeswaxResponse } from '../types';
+import { isPOJO } from '../utils/helpers';
+import { BeeswaxNotFoundError } from '../errors';
+import { BaseResource } from './BaseResource';
+
+/**
+ * Base for resources on the v2 REST API.
+ *
+ * v2 differs from v1 in a few ways this class hides from callers:
+ * - RESTful paths (`/rest/v2/campaigns/:id`) with PATCH for updates
+ * - objects are returned directly instead of wrapped in `{ success, payload }`
+ * - lists are paged with `limit`/`offset` and come back as `results` (or JSON:API `data`)
+ * - the primary key is `id`; it is mirrored onto the v1 `*_id` field so
+ *   payloads look the same whichever API version the client uses
+ */
+export abstract class V2Resource<T> extends BaseResource<T> {
+  constructor(client: BeeswaxClient, endpoint: string, idField: string) {
+    super(client, endpoint, idField);
+  }
+
+  protected async fetchOne(id: number | string): Promise<BeeswaxResponse<T>> {
+    try {
+      const response = await this.client.request('GET', `${this.endpoint}/${id}`);
+      return {
+        success: true,
+        payload: this.fromApi(response)
+      };
+    } catch (error: any) {
+      // v1 find() resolves with an empty payload for unknown ids; keep that contract
+      if (error instanceof BeeswaxNotFoundError) {
+        return {
+          success: true,
+          payload: undefined
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  protected async fetchQuery(body?: Record<string, any>): Promise<BeeswaxResponse<T[]>> {
+    const params = { ...body };
+    if (params[this.idField] !== undefined) {
+      params.id = params[this.idField];
+      delete params[this.idField];
+    }
+
+    // v1 callers page with rows/offset
+    if (params.rows !== undefined) {
+      params.limit = params.rows;
+      delete params.rows;
+    }
+
+    const response = await this.client.request('GET', this.endpoint, { params });
+    return {
+      success: true,
+      payload: this.listFromApi(response)
+    };
+  }
+
+  async create(body: Partial<T>): Promise<BeeswaxResponse<T>> {
+    if (!isPOJO(body) || Object.keys(body).length === 0) {
+      return {
+        success: false,
+        code: 400,
+        message: 'Body must be non-empty object'
+      };
+    }
+
+    this.validateBody(body, 'create');
+    const data = this.toApi(body);
+    delete data.id;
+
+    const response = await this.client.request('POST', this.endpoint, { body: data });
+    await this.invalidate();
+    return this.validateResponse({
+      success: true,
+      payload: this.fromApi(response)
+    });
+  }
+
+  async edit(id: number | string, body: Partial<T>, failOnNotFound = false): Promise<BeeswaxResponse<T>> {
+    if (!isPOJO(body) || Object.keys(body).length === 0) {
+      return {
+        success: false,
+        code: 400,
+        message: 'Body must be non-empty object'
+      };
+    }
+
+    this.validateBody(body, 'edit');
+    const data = this.toApi(body);
+    delete data.id;
+
+    try {
+      const response = await this.client.request('PATCH', `${this.endpoint}/${id}`, { body: data });
+      await this.invalidate(id);
+      return this.validateResponse({
+        success: true,
+        payload: this.fromApi(response)
+      });
+    } catch (error: any) {
+      if (error instanceof BeeswaxNotFoundError && !failOnNotFound) {
+        return {
+          success: false,
+          code: 400,
+          message: 'Not found'
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  async delete(id: number | string, failOnNotFound = false): Promise<BeeswaxResponse<any>> {
+    try {
+      await this.client.request('DELETE', `${this.endpoint}/${id}`);
+      await this.invalidate(id);
+      return {
+        success: true,
+        payload: { id, [this.idField]: id }
+      };
+    } catch (error: any) {
+      if (error instanceof BeeswaxNotFoundError && !failOnNotFound) {
+        return {
+          success: false,
+          code: 400,
+          message: 'Not found'
+        };
+      }
+
+      throw error;
+    }
+  }
+
+  protected async fetchPage(
+    body: Record<string, any>,
+    page: { rows: number; offset: number; sortBy: string; order?: 'asc' | 'desc' }
+  ): Promise<T[]> {
+    const sortBy = page.sortBy === this.idField ? 'id' : page.sortBy;
+    const { sort_by: _sort_by, order: _order, ...filter } = body;
+    const response = await this.query({
+      ...filter,
+      limit: page.rows,
+      offset: page.offset,
+      ordering: `${page.order === 'desc' ? '-' : ''}${sortBy}`
+    });
+    return response.payload || [];
+  }
+
+  /**
+   * Convert a caller-supplied body to the v2 shape. Subclasses extend this
+   * to rename deprecated v1 fields.
+   */
+  protected toApi(body: Partial<T>): Record<string, any> {
+    const data: Record<string, any> = { ...body };
+
+    if (data[this.idField] !== undefined) {
+      data.id = data[this.idField];
+    }
+    delete data[this.idField];
+
+    return data;
+  }
+
+  /**
+   * Convert a v2 object to the shape callers expect, mirroring `id` onto the v1 id field
+   */
+  protected fromApi(data: any): T {
+    // JSON:API resources keep their fields under `attributes`
+    const source = data?.attributes ? { ...data.attributes, id: data.id } : data;
+    return {
+      ...source,
+      [this.idField]: source?.id
+    } as T;
+  }
+
+  private listFromApi(response: any): T[] {
+    const rows = Array.isArray(response) ? response : response?.results || response?.data || [];
+    return rows.map((row: any) => this.fromApi(row));
+  }
+}
@@ -1,4 +1,7 @@
 import { BaseResource } from './BaseResource';
+import { V2Resource } from './V2Resource';
+
+export { ReportResource } from './ReportResource';
 import { BeeswaxClient } from '../BeeswaxClient';
 import {
   Advertiser,
@@ -7,9 +10,9 @@ import {
   Creative,
   CreativeLineItem,
   TargetingTemplate,
+  TargetingExpression,
   CreativeAsset,
   Segment,
-  Report,
   BeeswaxResponse
 } from '../types';
 
@@ -43,11 +46,7 @@ export class CampaignResource extends BaseResource<Campaign> {
       delete campaignData.budget;
     }
     
-    // Debug logging
-    if (process.env.DEBUG_BEESWAX) {
-      console.log('CampaignResource.create - Using OLD field names');
-      console.log('Final data:', JSON.stringify(campaignData, null, 2));
-    }
+    this.client.logger.debug({ body: campaignData }, 'CampaignResource.create - using v1 field names');
     
     return super.create(campaignData);
   }
@@ -71,87 +70,25 @@ export class CampaignResource extends BaseResource<Campaign> {
 }
 
 export class LineItemResource extends BaseResource<LineItem> {
+  private v2: LineItemV2Resource;
+
   constructor(client: BeeswaxClient) {
     // Use v1 API for compatibility with existing code
     // We'll switch to v2 only for create
     super(client, '/rest/line_item', 'line_item_id');
+    this.v2 = new LineItemV2Resource(client);
   }
-  
-  // Override create to handle field name mapping for v2 API
+
+  handles(endpoint: string): boolean {
+    return super.handles(endpoint) || this.v2.handles(endpoint);
+  }
+
+  // Creation goes through the v2 API, which expects NEW field names
   async create(body: Partial<LineItem>): Promise<BeeswaxResponse<LineItem>> {
-    const lineItemData: any = { ...body };
-    
-    // v2 API expects NEW field names
-    // Convert old field names to new ones
-    if (body.line_item_name && !lineItemData.name) {
-      lineItemData.name = body.line_item_name;
-      delete lineItemData.line_item_name;
-    }
-    if (body.line_item_type && !lineItemData.type) {
-      lineItemData.type = body.line_item_type;
-      delete lineItemData.line_item_type;
-    }
-    if (body.line_item_budget !== undefined && !lineItemData.budget) {
-      lineItemData.budget = body.line_item_budget;
-      delete lineItemData.line_item_budget;
-    }
-    
-    // Ensure type field is set (required by v2 API)
-    if (!lineItemData.type) {
-      lineItemData.type = 'banner'; // Default type
-    }
-    
-    // Set id to null for creation (as shown in curl)
-    lineItemData.id = null;
-    
-    // Remove line_item_id if present (v2 uses 'id')
-    delete lineItemData.line_item_id;
-    
-    // Ensure spend_budget has proper structure if not provided
-    if (!lineItemData.spend_budget) {
-      lineItemData.spend_budget = {
-        lifetime: null,
-        daily: null,
-        include_fees: true
-      };
-    }
-    
-    // Set frequency_caps to null if not provided (matching curl)
-    if (!lineItemData.frequency_caps) {
-      lineItemData.frequency_caps = null;
-    }
-    
-    if (process.env.DEBUG_BEESWAX) {
-      console.log('LineItemResource.create - Using v2 API with NEW field names');
-      console.log('Final data:', JSON.stringify(lineItemData, null, 2));
-    }
-    
-    // Call the v2 API directly for creation
-    const response = await this.client.request('POST', '/rest/v2/line-items', { body: lineItemData });
-    
-    // v2 API returns the object directly, not wrapped
-    // Check if it's a direct response (has id field) or wrapped response
-    const responseData = response as any;
-    if (responseData && responseData.id) {
-      return {
-        success: true,
-        payload: {
-          ...responseData,
-          line_item_id: responseData.id // Map id back to line_item_id for compatibility
-        } as LineItem
-      };
-    }
-    
-    // If response is already in BeeswaxResponse format
-    if (response && response.success !== undefined) {
-      return response;
-    }
-    
-    return {
-      success: false,
-      message: 'Unexpected response format',
-      errors: [JSON.stringify(response)]
-    };
+    const response = await this.v2.create(body);
+    // The v2 resource only drops reads cached for the v2 endpoint
+    await this.invalidate();
+    return response;
   }
 }
 
@@ -206,7 +143,7 @@ export class CreativeLineItemResource extends BaseResource<CreativeLineItem> {
 export class TargetingTemplateResource extends BaseResource<TargetingTemplate> {
   constructor(client: BeeswaxClient) {
     // Note: targeting_template is deprecated, but we'll keep using it for compatibility
-    // New integrations should use /rest/v2/targeting-expressions directly
+    // New integrations should use TargetingExpressionResource (client.targetingExpressions)
     super(client, '/rest/targeting_template', 'targeting_template_id');
   }
   
@@ -216,7 +153,7 @@ export class TargetingTemplateResource extends BaseResource<TargetingTemplate> {
     // Return a warning message instead of failing
     return {
       success: false,
-      message: 'Targeting templates are deprecated. Please use targeting expressions API directly.',
+      message: 'Targeting templates are deprecated. Please use client.targetingExpressions instead.',
       code: 410
     };
   }
@@ -230,12 +167,19 @@ export class TargetingTemplateResource extends BaseResource<TargetingTemplate> {
       return {
         success: true,
         payload: [],
-        message: 'Targeting templates are deprecated. Please use targeting expressions API directly.'
+        message: 'Targeting templates are deprecated. Please use client.targetingExpressions instead.'
       };
     }
   }
 }
 
+export class TargetingExpressionResource extends V2Resource<TargetingExpression> {
+  constructor(client: BeeswaxClient) {
+    // Targeting expressions only exist in the v2 API
+    super(client, '/rest/v2/targeting-expressions', 'targeting_expression_id');
+  }
+}
+
 export class CreativeAssetResource extends BaseResource<CreativeAsset> {
   constructor(client: BeeswaxClient) {
     super(client, '/rest/creative_asset', 'creative_asset_id');
@@ -248,8 +192,121 @@ export class SegmentResource extends BaseResource<Segment> {
   }
 }
 
-export class ReportResource extends BaseResource<Report> {
+// v2 API resources, used when the client is created with apiVersion: 'v2'
+
+const CAMPAIGN_BUDGET_TYPES: { [key: number]: string } = {
+  0: 'spend',
+  1: 'impressions',
+  2: 'spend including vendor fees'
+};
+
+const CREATIVE_TYPES: { [key: string]: string } = {
+  '0': 'banner',
+  '1': 'video',
+  '2': 'native',
+  'display': 'banner'
+};
+
+function renameField(data: Record<string, any>, from: string, to: string): void {
+  if (data[from] !== undefined) {
+    if (data[to] === undefined) {
+      data[to] = data[from];
+    }
+    delete data[from];
+  }
+}
+
+export class AdvertiserV2Resource extends V2Resource<Advertiser> {
+  constructor(client: BeeswaxClient) {
+    super(client, '/rest/v2/advertisers', 'advertiser_id');
+  }
+
+  protected toApi(body: Partial<Advertiser>): Record<string, any> {
+    const data = super.toApi(body);
+    renameField(data, 'advertiser_name', 'name');
+    return data;
+  }
+}
+
+export class CampaignV2Resource extends V2Resource<Campaign> {
+  constructor(client: BeeswaxClient) {
+    super(client, '/rest/v2/campaigns', 'campaign_id');
+  }
+
+  protected toApi(body: Partial<Campaign>): Record<string, any> {
+    const data = super.toApi(body);
+    renameField(data, 'campaign_name', 'name');
+    renameField(data, 'campaign_budget', 'budget');
+
+    // v2 spells budget types out instead of using v1's integer codes
+    if (typeof data.budget_type === 'number') {
+      data.budget_type = CAMPAIGN_BUDGET_TYPES[data.budget_type] || data.budget_type;
+    }
+
+    return data;
+  }
+}
+
+export class LineItemV2Resource extends V2Resource<LineItem> {
+  constructor(client: BeeswaxClient) {
+    super(client, '/rest/v2/line-items', 'line_item_id');
+  }
+
+  async create(body: Partial<LineItem>): Promise<BeeswaxResponse<LineItem>> {
+    const lineItemData: any = { ...body };
+
+    // Ensure type field is set (required by v2 API)
+    if (!lineItemData.type && !lineItemData.line_item_type) {
+      lineItemData.type = 'banner';
+    }
+
+    // Ensure spend_budget has proper structure if not provided
+    if (!lineItemData.spend_budget) {
+      lineItemData.spend_budget = {
+        lifetime: null,
+        daily: null,
+        include_fees: true
+      };
+    }
+
+    if (!lineItemData.frequency_caps) {
+      lineItemData.frequency_caps = null;
+    }
+
+    return super.create(lineItemData);
+  }
+
+  protected toApi(body: Partial<LineItem>): Record<string, any> {
+    const data = super.toApi(body);
+    renameField(data, 'line_item_name', 'name');
+    renameField(data, 'line_item_type', 'type');
+    renameField(data, 'line_item_budget', 'budget');
+    return data;
+  }
+}
+
+export class CreativeV2Resource extends V2Resource<Creative> {
+  constructor(client: BeeswaxClient) {
+    super(client, '/rest/v2/creatives', 'creative_id');
+  }
+
+  protected toApi(body: Partial<Creative>): Record<string, any> {
+    const data = super.toApi(body);
+    renameField(data, 'creative_name', 'name');
+    renameField(data, 'creative_type', 'type');
+    renameField(data, 'creative_attributes', 'attributes');
+
+    // v2 uses string creative types instead of v1's integer codes
+    if (data.type !== undefined) {
+      data.type = CREATIVE_TYPES[String(data.type).toLowerCase()] || data.type;
+    }
+
+    return data;
+  }
+}
+
+export class CreativeLineItemV2Resource extends V2Resource<CreativeLineItem> {
   constructor(client: BeeswaxClient) {
-    super(client, '/rest/report', 'report_id');
+    super(client, '/rest/v2/creative-line-items', 'cli_id');
   }
 }
\ No newline at end of file
@@ -0,0 +1,276 @@
+import { EntitySchema, FieldSchema, SchemaIssue } from '../types';
+
+const id: FieldSchema = { type: 'integer' };
+const text: FieldSchema = { type: 'string' };
+const flag: FieldSchema = { type: 'boolean' };
+const date: FieldSchema = { type: 'date' };
+// The API may return amounts as decimal strings, e.g. '5000.00'
+const amount: FieldSchema = { type: ['number', 'string'], numeric: true, min: 0 };
+
+const BUDGET_TYPES = ['spend', 'impressions', 'spend including vendor fees'];
+const LINE_ITEM_TYPES = ['banner', 'video', 'native'];
+const BIDDING_STRATEGIES = ['CPM', 'CPC', 'CPA'];
+
+// Fields every entity may carry, mostly set by the API
+const COMMON_FIELDS: Record<string, FieldSchema> = {
+  id,
+  account_id: id,
+  alternative_id: text,
+  notes: text,
+  active: flag,
+  created_date: date,
+  updated_date: date,
+  create_date: date,
+  update_date: date
+};
+
+const FREQUENCY_CAPS: FieldSchema = {
+  type: 'object',
+  fields: {
+    id_type: text,
+    use_fallback: flag,
+    id_vendor: text,
+    limits: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          duration: { type: 'integer', min: 1, required: true },
+          impressions: { type: ['integer', 'string'], numeric: true, min: 1, required: true }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Reject an end date that isn't after the start date
+ */
+function checkFlightDates(entity: Record<string, any>): SchemaIssue[] {
+  const start = Date.parse(String(entity.start_date).replace(' ', 'T'));
+  const end = Date.parse(String(entity.end_date).replace(' ', 'T'));
+  return !Number.isNaN(start) && !Number.isNaN(end) && end <= start
+    ? [{ code: 'invalid', path: 'end_date', message: 'must be after start_date', actual: entity.end_date }]
+    : [];
+}
+
+/**
+ * Schemas of create()/edit() bodies and API responses by resource name.
+ * They accept both the v1 and v2 spelling of renamed fields. Add fields
+ * your account uses to `ENTITY_SCHEMAS.<resource>.fields`.
+ */
+export const ENTITY_SCHEMAS: Record<string, EntitySchema> = {
+  advertiser: {
+    name: 'Advertiser',
+    fields: {
+      ...COMMON_FIELDS,
+      advertiser_id: id,
+      advertiser_name: text,
+      name: text, // v2
+      currency: text,
+      default_click_url: text,
+      default_continent: text
+    },
+    requiredOneOf: [['advertiser_name', 'name']]
+  },
+
+  campaign: {
+    name: 'Campaign',
+    fields: {
+      ...COMMON_FIELDS,
+      campaign_id: id,
+      advertiser_id: { ...id, required: true },
+      name: text,
+      campaign_name: text,
+      budget: amount,
+      campaign_budget: amount,
+      daily_budget: amount,
+      budget_type: { type: ['integer', 'string'], enum: [0, 1, 2, ...BUDGET_TYPES] },
+      currency: text,
+      start_date: { ...date, required: true },
+      end_date: date,
+      campaign_type: text,
+      type: text,
+      frequency_cap: { type: 'any' },
+      frequency_caps: FREQUENCY_CAPS,
+      campaign_spend: amount,
+      push_status: { type: 'any' },
+      push_update: { type: 'any' },
+      buzz_key: text,
+      last_active: date
+    },
+    requiredOneOf: [['name', 'campaign_name']],
+    check: checkFlightDates
+  },
+
+  line_item: {
+    name: 'LineItem',
+    fields: {
+      ...COMMON_FIELDS,
+      line_item_id: id,
+      campaign_id: { ...id, required: true },
+      advertiser_id: id,
+      name: text,
+      line_item_name: text,
+      type: { type: 'string', enum: LINE_ITEM_TYPES },
+      line_item_type: text,
+      line_item_type_id: { type: 'integer', enum: [0, 1, 2] },
+      guaranteed: flag,
+      currency: text,
+      budget: amount,
+      line_item_budget: amount,
+      budget_type: { type: ['integer', 'string'], enum: [0, 1, 2, ...BUDGET_TYPES] },
+      spend_budget: {
+        type: 'object',
+        fields: {
+          lifetime: amount,
+          daily: amount,
+          include_fees: flag
+        }
+      },
+      bidding: {
+        type: 'object',
+        fields: {
+          strategy: { type: 'string', enum: BIDDING_STRATEGIES },
+          bidding_strategy: { type: 'string', enum: BIDDING_STRATEGIES },
+          values: {
+            type: 'object',
+            fields: {
+              cpm_bid: amount,
+              cpc_bid: amount,
+              cpa_bid: amount
+            }
+          },
+          pacing: text,
+          custom: flag,
+          bid_shading: flag,
+          bid_shading_control: text
+        }
+      },
+      max_bid: amount,
+      start_date: date,
+      end_date: date,
+      targeting: { type: 'any' },
+      targeting_expression_id: id,
+      pacing: text,
+      delivery_model: text,
+      bid_strategy: text,
+      frequency_caps: FREQUENCY_CAPS,
+      line_item_spend: amount,
+      line_item_impressions: { type: 'integer', min: 0 },
+      line_item_version: { type: 'integer' },
+      has_skad_assignment: flag,
+      push_status: { type: 'any' },
+      push_update: { type: 'any' },
+      buzz_key: text,
+      last_active: date
+    },
+    requiredOneOf: [['name', 'line_item_name']],
+    check: (lineItem, mode) => {
+      const issues = checkFlightDates(lineItem);
+      // The bid for the bidding strategy has to be given along with it
+      const strategy = lineItem.bidding?.strategy || lineItem.bidding?.bidding_strategy;
+      const values = lineItem.bidding?.values;
+      const bid = typeof strategy === 'string' ? `${strategy.toLowerCase()}_bid` : undefined;
+      if (mode !== 'response' && bid && BIDDING_STRATEGIES.includes(strategy) && values && values[bid] === undefined) {
+        issues.push({ code: 'required', path: `bidding.values.${bid}`, message: `is required for the ${strategy} strategy` });
+      }
+      return issues;
+    }
+  },
+
+  creative: {
+    name: 'Creative',
+    fields: {
+      ...COMMON_FIELDS,
+      creative_id: id,
+      advertiser_id: { ...id, required: true },
+      name: text,
+      creative_name: text,
+      type: { type: ['integer', 'string'], enum: [0, 1, 2, 'display', 'banner', 'video', 'native'] },
+      creative_type: { type: 'integer', enum: [0, 1, 2] },
+      creative_template_id: id,
+      creative_asset_id: id,
+      width: { type: 'integer', min: 0 },
+      height: { type: 'integer', min: 0 },
+      secure: flag,
+      click_url: text,
+      creative_thumbnail_url: text,
+      creative_content: { type: 'any' },
+      creative_attributes: { type: 'object', additionalFields: true },
+      attributes: { type: 'object', additionalFields: true },
+      push_status: { type: 'any' },
+      push_update: { type: 'any' },
+      buzz_key: text,
+      last_active: date
+    },
+    requiredOneOf: [['name', 'creative_name']]
+  },
+
+  cli: {
+    name: 'CreativeLineItem',
+    fields: {
+      ...COMMON_FIELDS,
+      cli_id: id,
+      creative_id: { ...id, required: true },
+      line_item_id: { ...id, required: true },
+      advertiser_id: id,
+      weighting: { type: 'number', min: 0 },
+      start_date: date,
+      end_date: date
+    },
+    check: checkFlightDates
+  },
+
+  targeting_template: {
+    name: 'TargetingTemplate',
+    fields: {
+      ...COMMON_FIELDS,
+      targeting_template_id: id,
+      advertiser_id: { ...id, required: true },
+      targeting_template_name: { ...text, required: true },
+      strategy_id: id,
+      targeting: { type: ['object', 'array'] }
+    }
+  },
+
+  targeting_expression: {
+    name: 'TargetingExpression',
+    fields: {
+      ...COMMON_FIELDS,
+      targeting_expression_id: id,
+      advertiser_id: { ...id, required: true },
+      name: { ...text, required: true },
+      type: { type: 'string', enum: LINE_ITEM_TYPES },
+      targeting: { type: 'object', required: true, additionalFields: true }
+    }
+  },
+
+  creative_asset: {
+    name: 'CreativeAsset',
+    fields: {
+      ...COMMON_FIELDS,
+      creative_asset_id: id,
+      advertiser_id: { ...id, required: true },
+      creative_asset_name: { ...text, required: true },
+      size_in_bytes: { type: 'integer', min: 0 },
+      asset_type: text,
+      mime_type: text,
+      url: text,
+      path_to_asset: text
+    }
+  },
+
+  segment: {
+    name: 'Segment',
+    fields: {
+      ...COMMON_FIELDS,
+      segment_id: id,
+      advertiser_id: { ...id, required: true },
+      segment_name: { ...text, required: true },
+      segment_description: text,
+      cpm_cost: amount,
+      ttl_days: { type: 'integer', min: 0 }
+    }
+  }
+};
@@ -0,0 +1,211 @@
+import { EntitySchema, FieldSchema, SchemaIssue, SchemaType, SchemaValidationMode } from '../types';
+import { BeeswaxSchemaError, formatSchemaIssue } from '../errors';
+import { isPOJO } from '../utils/helpers';
+
+// v1 '2025-03-01 00:00:00', a bare date, or ISO 8601 as v2 returns them
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMERIC_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+/**
+ * Check an entity body against its schema. Unknown fields are reported
+ * (with the closest known name) for caller input only, and required fields
+ * only when creating.
+ */
+export function validateEntity(
+  schema: EntitySchema,
+  entity: any,
+  mode: SchemaValidationMode = 'create'
+): SchemaIssue[] {
+  if (!isPOJO(entity)) {
+    return [{ code: 'type', path: '', message: `${schema.name} must be an object`, expected: 'object', actual: entity }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  checkObject(schema.fields, false, entity, '', mode, issues);
+
+  if (mode === 'create') {
+    (schema.requiredOneOf || []).forEach(names => {
+      if (names.every(name => isMissing(entity[name]))) {
+        const alternatives = names.length > 1 ? ` (or ${names.slice(1).join(', ')})` : '';
+        issues.push({ code: 'required', path: names[0], message: `is required${alternatives}` });
+      }
+    });
+  }
+
+  return [...issues, ...(schema.check?.(entity, mode) || [])];
+}
+
+/**
+ * validateEntity(), throwing BeeswaxSchemaError listing every issue
+ */
+export function assertValidEntity(schema: EntitySchema, entity: any, mode: SchemaValidationMode = 'create'): void {
+  const issues = validateEntity(schema, entity, mode);
+  if (issues.length > 0) {
+    const subject = mode === 'response' ? 'response' : `${mode} body`;
+    throw new BeeswaxSchemaError(`${schema.name} ${subject} failed validation: ${issues.map(formatSchemaIssue).join('; ')}`, issues);
+  }
+}
+
+/**
+ * Check the entity or list of entities an API call returned, throwing
+ * BeeswaxSchemaError; list issues are prefixed with the row, e.g. `[2].budget`
+ */
+export function assertValidResponse(schema: EntitySchema, payload: any): void {
+  const rows = Array.isArray(payload) ? payload : [payload];
+  const issues = rows.flatMap((row, index) => row === undefined ? [] : validateEntity(schema, row, 'response').map(issue => ({
+    ...issue,
+    path: Array.isArray(payload) ? `[${index}]${issue.path ? `.${issue.path}` : ''}` : issue.path
+  })));
+  if (issues.length > 0) {
+    throw new BeeswaxSchemaError(`${schema.name} response failed validation: ${issues.map(formatSchemaIssue).join('; ')}`, issues);
+  }
+}
+
+function checkObject(
+  fields: Record<string, FieldSchema>,
+  additionalFields: boolean,
+  value: Record<string, any>,
+  path: string,
+  mode: SchemaValidationMode,
+  issues: SchemaIssue[]
+): void {
+  // Top-level fields are only required on create; a nested object that's given must be complete
+  const enforceRequired = path ? mode !== 'response' : mode === 'create';
+
+  Object.entries(fields).forEach(([name, field]) => {
+    const fieldPath = path ? `${path}.${name}` : name;
+    if (isMissing(value[name])) {
+      if (field.required && enforceRequired) {
+        issues.push({ code: 'required', path: fieldPath, message: 'is required' });
+      }
+      return;
+    }
+    checkField(field, value[name], fieldPath, mode, issues);
+  });
+
+  if (!additionalFields && mode !== 'response') {
+    Object.keys(value)
+      .filter(name => !(name in fields) && value[name] !== undefined)
+      .forEach(name => {
+        const suggestion = closest(name, Object.keys(fields));
+        issues.push({
+          code: 'unknown',
+          path: path ? `${path}.${name}` : name,
+          message: `is not a known field${suggestion ? `; did you mean ${suggestion}?` : ''}`,
+          expected: suggestion
+        });
+      });
+  }
+}
+
+function checkField(field: FieldSchema, value: any, path: string, mode: SchemaValidationMode, issues: SchemaIssue[]): void {
+  const types = Array.isArray(field.type) ? field.type : [field.type];
+  const type = types.find(candidate => matchesType(candidate, value));
+  if (!type) {
+    issues.push({ code: 'type', path, message: `must be ${describeTypes(types)}`, expected: types.join(' | '), actual: value });
+    return;
+  }
+
+  if (type === 'date' && Number.isNaN(Date.parse(String(value).replace(' ', 'T')))) {
+    issues.push({ code: 'format', path, message: 'is not a valid date', actual: value });
+    return;
+  }
+
+  if (typeof value === 'string' && field.numeric && !NUMERIC_PATTERN.test(value)) {
+    issues.push({ code: 'format', path, message: 'must be a number', expected: 'number', actual: value });
+    return;
+  }
+
+  if (field.enum && !field.enum.some(choice => String(choice) === String(value))) {
+    issues.push({ code: 'enum', path, message: `must be one of ${field.enum.join(', ')}`, expected: field.enum.join(', '), actual: value });
+    return;
+  }
+
+  const number = typeof value === 'number' || field.numeric ? Number(value) : undefined;
+  if (number !== undefined && field.min !== undefined && number < field.min) {
+    issues.push({ code: 'range', path, message: `must be at least ${field.min}`, expected: field.min, actual: value });
+  }
+  if (number !== undefined && field.max !== undefined && number > field.max) {
+    issues.push({ code: 'range', path, message: `must be at most ${field.max}`, expected: field.max, actual: value });
+  }
+
+  if (type === 'object' && field.fields) {
+    checkObject(field.fields, field.additionalFields === true, value, path, mode, issues);
+  }
+  if (type === 'array' && field.items) {
+    value.forEach((item: any, index: number) => {
+      if (!isMissing(item)) {
+        checkField(field.items!, item, `${path}[${index}]`, mode, issues);
+      }
+    });
+  }
+}
+
+function matchesType(type: SchemaType, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value);
+    case 'object':
+      return isPOJO(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'any':
+      return true;
+  }
+}
+
+function describeTypes(types: SchemaType[]): string {
+  const names: Record<SchemaType, string> = {
+    string: 'a string',
+    number: 'a number',
+    integer: 'an integer',
+    boolean: 'a boolean',
+    date: 'a date like 2025-03-01 00:00:00',
+    object: 'an object',
+    array: 'an array',
+    any: 'any value'
+  };
+  return types.map(type => names[type]).join(' or ');
+}
+
+// null clears an optional field, so it only counts as missing
+function isMissing(value: any): boolean {
+  return value === undefined || value === null;
+}
+
+// Closest known field within a couple of typos, for "did you mean" hints
+function closest(name: string, candidates: string[]): string | undefined {
+  const limit = Math.max(1, Math.min(3, Math.floor(name.length / 4)));
+  let best: { candidate: string; distance: number } | undefined;
+  candidates.forEach(candidate => {
+    const distance = editDistance(name, candidate);
+    if (distance <= limit && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  });
+  return best?.candidate;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
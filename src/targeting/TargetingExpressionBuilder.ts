@@ -0,0 +1,161 @@
+import {
+  TargetingModule,
+  TargetingModuleCriteria,
+  TargetingModuleRule,
+  TargetingExpressionTargeting,
+  TargetingExpression
+} from '../types';
+
+type RuleMode = 'include' | 'exclude';
+
+/**
+ * Fluent builder for v2 targeting expressions.
+ *
+ * Each module keeps a single include/exclude rule. Calling include() or
+ * exclude() more than once for the same module merges the value lists.
+ *
+ * @example
+ * const targeting = new TargetingExpressionBuilder()
+ *   .geo({ include: { country: ['USA'] }, exclude: { region: ['USA-AK'] } })
+ *   .device({ include: { device_type: [1, 2] } })
+ *   .timeOfDay({ include: { day_of_week: [1, 2, 3, 4, 5] } })
+ *   .build();
+ */
+export class TargetingExpressionBuilder {
+  private rules: { [M in TargetingModule]?: TargetingModuleRule<M> } = {};
+
+  include<M extends TargetingModule>(module: M, criteria: TargetingModuleCriteria[M]): this {
+    return this.add(module, 'include', criteria);
+  }
+
+  exclude<M extends TargetingModule>(module: M, criteria: TargetingModuleCriteria[M]): this {
+    return this.add(module, 'exclude', criteria);
+  }
+
+  geo(rule: TargetingModuleRule<'geo'>): this {
+    return this.rule('geo', rule);
+  }
+
+  inventory(rule: TargetingModuleRule<'inventory'>): this {
+    return this.rule('inventory', rule);
+  }
+
+  device(rule: TargetingModuleRule<'device'>): this {
+    return this.rule('device', rule);
+  }
+
+  platform(rule: TargetingModuleRule<'platform'>): this {
+    return this.rule('platform', rule);
+  }
+
+  segment(rule: TargetingModuleRule<'segment'>): this {
+    return this.rule('segment', rule);
+  }
+
+  timeOfDay(rule: TargetingModuleRule<'time_of_day'>): this {
+    return this.rule('time_of_day', rule);
+  }
+
+  content(rule: TargetingModuleRule<'content'>): this {
+    return this.rule('content', rule);
+  }
+
+  video(rule: TargetingModuleRule<'video'>): this {
+    return this.rule('video', rule);
+  }
+
+  user(rule: TargetingModuleRule<'user'>): this {
+    return this.rule('user', rule);
+  }
+
+  /**
+   * Remove all rules for a module
+   */
+  clear(module: TargetingModule): this {
+    delete this.rules[module];
+    return this;
+  }
+
+  isEmpty(): boolean {
+    return Object.keys(this.rules).length === 0;
+  }
+
+  /**
+   * Produce the `targeting` object expected by /rest/v2/targeting-expressions
+   */
+  build(): TargetingExpressionTargeting {
+    const targeting: TargetingExpressionTargeting = {};
+
+    for (const module of Object.keys(this.rules) as TargetingModule[]) {
+      const rule = this.rules[module] as TargetingModuleRule;
+      (targeting as any)[module] = [{ ...rule }];
+    }
+
+    return targeting;
+  }
+
+  /**
+   * Produce a complete targeting expression body ready for targetingExpressions.create()
+   */
+  toExpression(
+    fields: Pick<TargetingExpression, 'advertiser_id' | 'name' | 'type' | 'alternative_id' | 'notes' | 'active'>
+  ): TargetingExpression {
+    return {
+      ...fields,
+      targeting: this.build()
+    };
+  }
+
+  /**
+   * Start a builder from an existing targeting object, e.g. one loaded from the API
+   */
+  static from(targeting: TargetingExpressionTargeting): TargetingExpressionBuilder {
+    const builder = new TargetingExpressionBuilder();
+
+    for (const module of Object.keys(targeting) as TargetingModule[]) {
+      for (const rule of (targeting[module] || []) as TargetingModuleRule[]) {
+        builder.rule(module, rule);
+      }
+    }
+
+    return builder;
+  }
+
+  private rule<M extends TargetingModule>(module: M, rule: TargetingModuleRule<M>): this {
+    if (rule.include) {
+      this.add(module, 'include', rule.include);
+    }
+    if (rule.exclude) {
+      this.add(module, 'exclude', rule.exclude);
+    }
+    return this;
+  }
+
+  private add<M extends TargetingModule>(module: M, mode: RuleMode, criteria: TargetingModuleCriteria[M]): this {
+    const existing = (this.rules[module] || {}) as TargetingModuleRule<M>;
+    const merged: Record<string, any> = { ...(existing[mode] || {}) };
+
+    for (const [key, value] of Object.entries(criteria as Record<string, any>)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (Array.isArray(value) && Array.isArray(merged[key])) {
+        merged[key] = Array.from(new Set([...merged[key], ...value]));
+      } else {
+        merged[key] = value;
+      }
+    }
+
+    (this.rules as any)[module] = { ...existing, [mode]: merged };
+    return this;
+  }
+}
+
+/**
+ * Normalize the values accepted by LineItemCreationOptions.targeting
+ */
+export function resolveTargeting(
+  targeting: TargetingExpressionTargeting | TargetingExpressionBuilder
+): TargetingExpressionTargeting {
+  return targeting instanceof TargetingExpressionBuilder ? targeting.build() : targeting;
+}
@@ -0,0 +1,146 @@
+import { createRequire } from 'module';
+
+// Structural subset of @opentelemetry/api, so the package stays optional:
+// any OpenTelemetry tracer and meter satisfy these interfaces.
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: any): unknown;
+  end(): void;
+}
+
+export interface TelemetryTracer {
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: { kind?: number; attributes?: TelemetryAttributes },
+    fn: F
+  ): ReturnType<F>;
+}
+
+export interface TelemetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): {
+    add(value: number, attributes?: TelemetryAttributes): void;
+  };
+  createHistogram(name: string, options?: { description?: string; unit?: string }): {
+    record(value: number, attributes?: TelemetryAttributes): void;
+  };
+}
+
+export interface TelemetryOptions {
+  tracer?: TelemetryTracer; // Defaults to the global tracer from @opentelemetry/api
+  meter?: TelemetryMeter; // Defaults to the global meter from @opentelemetry/api
+}
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums
+export const SPAN_KIND_INTERNAL = 0;
+export const SPAN_KIND_CLIENT = 2;
+export const SPAN_STATUS_ERROR = 2;
+
+const INSTRUMENTATION_NAME = 'beeswax-node-client';
+
+/**
+ * Spans and request metrics for a client. Without a tracer/meter, and with
+ * @opentelemetry/api not installed, every method is a no-op.
+ */
+export class Telemetry {
+  private tracer?: TelemetryTracer;
+  private requests?: ReturnType<TelemetryMeter['createCounter']>;
+  private errors?: ReturnType<TelemetryMeter['createCounter']>;
+  private duration?: ReturnType<TelemetryMeter['createHistogram']>;
+
+  constructor(options: TelemetryOptions | false = {}) {
+    if (options === false) {
+      return;
+    }
+
+    const api = options.tracer && options.meter ? undefined : loadOpenTelemetryApi();
+    this.tracer = options.tracer || api?.trace.getTracer(INSTRUMENTATION_NAME);
+
+    const meter: TelemetryMeter | undefined = options.meter || api?.metrics.getMeter(INSTRUMENTATION_NAME);
+    if (meter) {
+      this.requests = meter.createCounter('beeswax.client.requests', { description: 'Beeswax API requests' });
+      this.errors = meter.createCounter('beeswax.client.errors', { description: 'Failed Beeswax API requests' });
+      this.duration = meter.createHistogram('beeswax.client.request.duration', {
+        description: 'Beeswax API request latency, retries included',
+        unit: 'ms'
+      });
+    }
+  }
+
+  /**
+   * Run `fn` inside an active span, so spans started within it (e.g. the
+   * requests of a macro) become its children. Errors mark the span failed.
+   */
+  async span<T>(
+    name: string,
+    kind: number,
+    attributes: Record<string, string | number | boolean | undefined>,
+    fn: (span?: TelemetrySpan) => Promise<T>
+  ): Promise<T> {
+    if (!this.tracer) {
+      return fn();
+    }
+
+    return this.tracer.startActiveSpan(name, { kind, attributes: definedAttributes(attributes) }, async span => {
+      try {
+        return await fn(span);
+      } catch (error: any) {
+        span.recordException(error);
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: error?.message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  recordRequest(attributes: Record<string, string | number | boolean | undefined>, durationMs: number, error?: any): void {
+    const defined = definedAttributes(attributes);
+    this.requests?.add(1, defined);
+    this.duration?.record(durationMs, defined);
+    if (error) {
+      this.errors?.add(1, { ...defined, 'error.type': error.name || 'Error' });
+    }
+  }
+}
+
+/**
+ * Low-cardinality form of an endpoint for span names and metrics:
+ * `/rest/v2/campaigns/123?x=1` becomes `/rest/v2/campaigns/{id}`
+ */
+export function endpointTemplate(endpoint: string): string {
+  const path = /^https?:\/\//.test(endpoint) ? new URL(endpoint).pathname : endpoint.split('?')[0];
+  return path
+    .split('/')
+    .map(segment => /^\d+$/.test(segment) ? '{id}' : segment)
+    .join('/');
+}
+
+function definedAttributes(attributes: Record<string, string | number | boolean | undefined>): TelemetryAttributes {
+  const defined: TelemetryAttributes = {};
+  Object.entries(attributes).forEach(([key, value]) => {
+    if (value !== undefined) {
+      defined[key] = value;
+    }
+  });
+  return defined;
+}
+
+// The parts of @opentelemetry/api used to find the global tracer and meter
+interface OpenTelemetryApi {
+  trace: { getTracer(name: string): TelemetryTracer };
+  metrics: { getMeter(name: string): TelemetryMeter };
+}
+
+// Resolves modules from here like require(), for optional peer dependencies
+const requireOptional: (id: string) => unknown = createRequire(__filename);
+
+function loadOpenTelemetryApi(): OpenTelemetryApi | undefined {
+  try {
+    return requireOptional('@opentelemetry/api') as OpenTelemetryApi;
+  } catch (_error) {
+    return undefined;
+  }
+}
@@ -0,0 +1,246 @@
+import type { AxiosAdapter, AxiosInstance } from 'axios';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { Readable } from 'stream';
+import { AuthStrategy } from '../auth/AuthStrategy';
+import { createBeeswaxError } from '../errors';
+import { Middleware, RequestContext } from '../middleware/Middleware';
+import { BeeswaxClientOptions } from '../types';
+import { stableStringify } from '../utils/helpers';
+import { DEFAULT_REDACTED_FIELDS, redact } from '../utils/logger';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  mode?: CassetteMode; // Defaults to 'replay'
+  redactFields?: string[]; // Keys scrubbed from recorded bodies, added to DEFAULT_REDACTED_FIELDS
+  // Where a recording comes from, saved with it, e.g. 'MockBeeswaxServer' for
+  // a synthetic fixture
+  source?: string;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    endpoint: string;
+    body?: any; // '[binary]' for uploads
+    params?: any;
+  };
+  status?: number;
+  response?: any; // What request() resolved with; stream responses are kept as text
+  error?: { status: number; body?: any }; // Replayed as the matching BeeswaxError subclass
+}
+
+interface CassetteFile {
+  version: number;
+  source?: string;
+  interactions: CassetteInteraction[];
+}
+
+const CASSETTE_VERSION = 1;
+const BINARY = '[binary]';
+
+/**
+ * Record/replay fixture for BeeswaxClient.request. Recording keeps each
+ * request with its response or API error, credentials, cookies and PII
+ * redacted (see DEFAULT_REDACTED_FIELDS); replaying answers the same
+ * requests from the file without network or login. Identical requests are
+ * answered in recorded order, the last answer repeating once they run out.
+ *
+ *   const cassette = await Cassette.open('test/cassettes/extract.json', {
+ *     mode: process.env.BEESWAX_RECORD === '1' ? 'record' : 'replay'
+ *   });
+ *   const client = new BeeswaxClient({ apiRoot, creds, ...cassette.clientOptions() });
+ *   ...
+ *   await cassette.save(); // Writes the file when recording
+ */
+export class Cassette {
+  public readonly path: string;
+  public readonly mode: CassetteMode;
+  public readonly source?: string;
+  public readonly middleware: Middleware;
+  private recorded: CassetteInteraction[] = [];
+  private queues = new Map<string, CassetteInteraction[]>(); // Replay answers by request key
+  private redactFields: string[];
+
+  private constructor(path: string, mode: CassetteMode, interactions: CassetteInteraction[], options: CassetteOptions) {
+    this.path = path;
+    this.mode = mode;
+    this.source = options.source;
+    this.redactFields = [...DEFAULT_REDACTED_FIELDS, ...(options.redactFields || [])];
+
+    interactions.forEach(interaction => {
+      const { method, endpoint, body, params } = interaction.request;
+      const key = requestKey(method, endpoint, body, params);
+      this.queues.set(key, [...(this.queues.get(key) || []), interaction]);
+    });
+
+    this.middleware = mode === 'replay'
+      ? { name: 'cassette', before: context => this.replay(context) }
+      : {
+        name: 'cassette',
+        after: (context, response) => this.record(context, response),
+        onError: (context, error) => this.recordError(context, error)
+      };
+  }
+
+  /**
+   * Open a cassette; replaying reads the file, recording starts empty
+   */
+  static async open(path: string, options: CassetteOptions = {}): Promise<Cassette> {
+    const mode = options.mode || 'replay';
+    if (mode === 'record') {
+      return new Cassette(path, mode, [], options);
+    }
+
+    let file: CassetteFile;
+    try {
+      file = JSON.parse(await fs.readFile(path, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Can't replay cassette ${path}: ${error.message}`);
+    }
+    if (file.version !== CASSETTE_VERSION) {
+      throw new Error(`Cassette ${path} has version ${file.version}, expected ${CASSETTE_VERSION}`);
+    }
+    return new Cassette(path, mode, file.interactions || [], { ...options, source: file.source });
+  }
+
+  /**
+   * Interactions recorded so far
+   */
+  get interactions(): CassetteInteraction[] {
+    return [...this.recorded];
+  }
+
+  /**
+   * Client options wiring in the cassette. Replaying also swaps in a no-op
+   * login and an adapter failing anything that bypasses request(), so no
+   * request can go out.
+   */
+  clientOptions(): Partial<BeeswaxClientOptions> {
+    if (this.mode === 'record') {
+      return { middleware: [this.middleware] };
+    }
+    return {
+      middleware: [this.middleware],
+      auth: new ReplayAuthStrategy(),
+      adapter: offlineAdapter,
+      rateLimit: false
+    };
+  }
+
+  /**
+   * Write the recorded interactions to the cassette file; a no-op when replaying
+   */
+  async save(): Promise<void> {
+    if (this.mode !== 'record') {
+      return;
+    }
+    const file: CassetteFile = { version: CASSETTE_VERSION, source: this.source, interactions: this.recorded };
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  private replay(context: RequestContext): any {
+    const request = this.describe(context);
+    const queue = this.queues.get(requestKey(request.method, request.endpoint, request.body, request.params));
+    if (!queue?.length) {
+      throw new Error(
+        `Cassette ${this.path} has no recorded response for ${request.method} ${request.endpoint} ` +
+        stableStringify({ body: request.body, params: request.params })
+      );
+    }
+
+    const interaction = queue.length > 1 ? queue.shift()! : queue[0];
+    context.status = interaction.error?.status ?? interaction.status;
+    if (interaction.error) {
+      throw createBeeswaxError(interaction.error.status, copy(interaction.error.body), {
+        endpoint: context.endpoint,
+        method: context.method
+      });
+    }
+
+    const response = copy(interaction.response);
+    return context.responseType === 'stream' ? Readable.from([response]) : response;
+  }
+
+  private async record(context: RequestContext, response: any): Promise<any> {
+    // Streams can be read once: keep the text and hand the caller a fresh stream
+    let text: string | undefined;
+    if (context.responseType === 'stream' && typeof response?.pipe === 'function') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of response as Readable) {
+        chunks.push(Buffer.from(chunk));
+      }
+      text = Buffer.concat(chunks).toString();
+    }
+
+    this.recorded.push({
+      request: this.describe(context),
+      status: context.status,
+      response: this.sanitize(text ?? response)
+    });
+    return text === undefined ? undefined : Readable.from([text]);
+  }
+
+  private recordError(context: RequestContext, error: any): void {
+    // Only API errors can be replayed; network failures aren't recorded
+    if (error?.status !== undefined) {
+      this.recorded.push({
+        request: this.describe(context),
+        error: { status: error.status, body: this.sanitize(error.responseBody) }
+      });
+    }
+  }
+
+  private describe(context: RequestContext): CassetteInteraction['request'] {
+    return {
+      method: context.method.toUpperCase(),
+      endpoint: context.endpoint,
+      body: this.sanitize(context.body),
+      params: this.sanitize(context.params)
+    };
+  }
+
+  private sanitize(value: any): any {
+    if (value === undefined || value === null) {
+      return value;
+    }
+    if (Buffer.isBuffer(value) || typeof value.pipe === 'function') {
+      return BINARY;
+    }
+    return redact(copy(value), this.redactFields);
+  }
+}
+
+/**
+ * Nothing to log in to when every response comes from the cassette
+ */
+class ReplayAuthStrategy implements AuthStrategy {
+  async authenticate(_http: AxiosInstance): Promise<void> {
+    // No session needed
+  }
+
+  applyAuth(_headers: Record<string, any>): void {
+    // Replayed requests never reach the network
+  }
+
+  async onUnauthorized(): Promise<boolean> {
+    return false;
+  }
+}
+
+const offlineAdapter: AxiosAdapter = async config => {
+  throw new Error(
+    `Cassette replay is offline: ${(config.method || 'get').toUpperCase()} ${config.url} didn't go through BeeswaxClient.request`
+  );
+};
+
+// Redacted values are the same placeholder whatever was sent, so keys match across runs
+function requestKey(method: string, endpoint: string, body: any, params: any): string {
+  return `${method} ${endpoint} ${stableStringify({ body, params })}`;
+}
+
+function copy<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
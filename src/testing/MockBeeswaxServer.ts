@@ -0,0 +1,835 @@
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { randomBytes } from 'crypto';
+import { PassThrough } from 'stream';
+import { BeeswaxClient } from '../BeeswaxClient';
+import { BeeswaxClientOptions, BeeswaxCredentials } from '../types';
+
+export type MockEntityType =
+  | 'advertiser'
+  | 'campaign'
+  | 'line_item'
+  | 'creative'
+  | 'creative_line_item'
+  | 'targeting_template'
+  | 'targeting_expression'
+  | 'creative_asset'
+  | 'segment'
+  | 'report';
+
+// Stored with v1 field names (campaign_name, line_item_type, ...)
+export type MockEntity = Record<string, any>;
+
+export interface MockBeeswaxServerOptions {
+  apiRoot?: string; // Defaults to https://mock.api.beeswax.com
+  users?: BeeswaxCredentials[]; // Logins /rest/authenticate accepts, defaults to MOCK_CREDENTIALS
+  tokens?: string[]; // API tokens accepted as `Authorization: Bearer <token>`
+  seed?: Partial<Record<MockEntityType, MockEntity[]>>; // Inserted with insert() on creation and reset()
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, any>;
+  body?: any; // Parsed JSON body; undefined for uploads
+  status: number;
+}
+
+export const MOCK_CREDENTIALS: BeeswaxCredentials = { email: 'test@example.com', password: 'password' };
+
+const DEFAULT_API_ROOT = 'https://mock.api.beeswax.com';
+const SESSION_COOKIE = 'beeswax_session';
+const DEFAULT_ROWS = 50;
+const READ_ONLY_FIELDS = ['id', 'created_date', 'updated_date', 'create_date', 'update_date'];
+
+type FieldErrors = Record<string, string[]>;
+
+interface MockResponse {
+  status: number;
+  data?: any;
+  headers?: Record<string, any>;
+}
+
+interface FieldAlias {
+  v1: string;
+  v2: string;
+  values?: Record<string, string>; // v1 value -> v2 value
+}
+
+interface ValidationContext {
+  lookup(type: MockEntityType, id: any): MockEntity | undefined;
+  rows(type: MockEntityType): MockEntity[];
+  add(field: string, message: string): void;
+}
+
+interface EntitySpec {
+  idField: string;
+  v1?: string;
+  v2?: string;
+  aliases?: FieldAlias[];
+  required: string[];
+  references?: Array<{ field: string; type: MockEntityType }>;
+  validate?(entity: MockEntity, context: ValidationContext): void;
+}
+
+const CAMPAIGN_BUDGET_TYPES: Record<string, string> = {
+  '0': 'spend',
+  '1': 'impressions',
+  '2': 'spend including vendor fees'
+};
+
+const CREATIVE_TYPES: Record<string, string> = {
+  '0': 'banner',
+  '1': 'video',
+  '2': 'native'
+};
+
+const LINE_ITEM_TYPES = ['banner', 'video', 'native', 'audio'];
+
+const ENTITIES: Record<MockEntityType, EntitySpec> = {
+  advertiser: {
+    idField: 'advertiser_id',
+    v1: '/rest/advertiser',
+    v2: '/rest/v2/advertisers',
+    aliases: [{ v1: 'advertiser_name', v2: 'name' }],
+    required: ['advertiser_name']
+  },
+  campaign: {
+    idField: 'campaign_id',
+    v1: '/rest/campaign',
+    v2: '/rest/v2/campaigns',
+    aliases: [
+      { v1: 'campaign_name', v2: 'name' },
+      { v1: 'campaign_budget', v2: 'budget' },
+      { v1: 'budget_type', v2: 'budget_type', values: CAMPAIGN_BUDGET_TYPES }
+    ],
+    required: ['advertiser_id', 'campaign_name', 'start_date'],
+    references: [{ field: 'advertiser_id', type: 'advertiser' }],
+    validate: (campaign, { add }) => {
+      checkFlight(campaign, add);
+      checkAmount(campaign.campaign_budget, 'campaign_budget', add);
+      if (!isBlank(campaign.budget_type) && !(String(campaign.budget_type) in CAMPAIGN_BUDGET_TYPES)) {
+        add('budget_type', `"${campaign.budget_type}" is not a valid choice.`);
+      }
+    }
+  },
+  line_item: {
+    idField: 'line_item_id',
+    v1: '/rest/line_item',
+    v2: '/rest/v2/line-items',
+    aliases: [
+      { v1: 'line_item_name', v2: 'name' },
+      { v1: 'line_item_type', v2: 'type' },
+      { v1: 'line_item_budget', v2: 'budget' }
+    ],
+    required: ['advertiser_id', 'campaign_id', 'line_item_name', 'line_item_type', 'start_date'],
+    references: [
+      { field: 'advertiser_id', type: 'advertiser' },
+      { field: 'campaign_id', type: 'campaign' },
+      { field: 'targeting_expression_id', type: 'targeting_expression' }
+    ],
+    validate: (lineItem, { lookup, add }) => {
+      if (!isBlank(lineItem.line_item_type) && !LINE_ITEM_TYPES.includes(lineItem.line_item_type)) {
+        add('line_item_type', `"${lineItem.line_item_type}" is not a valid choice.`);
+      }
+      checkFlight(lineItem, add);
+      checkAmount(lineItem.line_item_budget, 'line_item_budget', add);
+      checkAmount(lineItem.spend_budget?.lifetime, 'spend_budget.lifetime', add);
+      checkAmount(lineItem.spend_budget?.daily, 'spend_budget.daily', add);
+
+      // Line items have to run within their campaign's flight
+      const campaign = lookup('campaign', lineItem.campaign_id);
+      const start = parseDate(lineItem.start_date);
+      const end = parseDate(lineItem.end_date);
+      if (campaign && start !== undefined && start < (parseDate(campaign.start_date) ?? -Infinity)) {
+        add('start_date', 'must not be before the campaign start date');
+      }
+      if (campaign && end !== undefined && end > (parseDate(campaign.end_date) ?? Infinity)) {
+        add('end_date', 'must not be after the campaign end date');
+      }
+
+      const expression = lookup('targeting_expression', lineItem.targeting_expression_id);
+      if (expression?.type && expression.type !== lineItem.line_item_type) {
+        add('targeting_expression_id', `targeting expression ${expression.targeting_expression_id} is for ${expression.type} line items`);
+      }
+    }
+  },
+  creative: {
+    idField: 'creative_id',
+    v1: '/rest/creative',
+    v2: '/rest/v2/creatives',
+    aliases: [
+      { v1: 'creative_name', v2: 'name' },
+      { v1: 'creative_type', v2: 'type', values: CREATIVE_TYPES },
+      { v1: 'creative_attributes', v2: 'attributes' }
+    ],
+    required: ['advertiser_id', 'creative_name', 'creative_type', 'creative_template_id'],
+    references: [
+      { field: 'advertiser_id', type: 'advertiser' },
+      { field: 'creative_asset_id', type: 'creative_asset' }
+    ],
+    validate: (creative, { add }) => {
+      if (!isBlank(creative.creative_type) && !(String(creative.creative_type) in CREATIVE_TYPES)) {
+        add('creative_type', `"${creative.creative_type}" is not a valid choice.`);
+      }
+    }
+  },
+  creative_line_item: {
+    idField: 'cli_id',
+    v1: '/rest/creative_line_item',
+    v2: '/rest/v2/creative-line-items',
+    required: ['creative_id', 'line_item_id'],
+    references: [
+      { field: 'creative_id', type: 'creative' },
+      { field: 'line_item_id', type: 'line_item' }
+    ],
+    validate: (cli, { lookup, rows, add }) => {
+      const creative = lookup('creative', cli.creative_id);
+      const lineItem = lookup('line_item', cli.line_item_id);
+      if (creative && lineItem) {
+        if (Number(creative.advertiser_id) !== Number(lineItem.advertiser_id)) {
+          add('creative_id', `creative ${creative.creative_id} and line item ${lineItem.line_item_id} belong to different advertisers`);
+        } else if (CREATIVE_TYPES[String(creative.creative_type)] !== lineItem.line_item_type) {
+          add('creative_id', `creative ${creative.creative_id} can't serve on a ${lineItem.line_item_type} line item`);
+        }
+      }
+      if (rows('creative_line_item').some(other =>
+        other.cli_id !== cli.cli_id &&
+        Number(other.creative_id) === Number(cli.creative_id) &&
+        Number(other.line_item_id) === Number(cli.line_item_id)
+      )) {
+        add('_general', `creative ${cli.creative_id} is already associated with line item ${cli.line_item_id}`);
+      }
+      if (!isBlank(cli.weighting) && !(Number(cli.weighting) >= 0)) {
+        add('weighting', 'must not be negative');
+      }
+    }
+  },
+  targeting_template: {
+    idField: 'targeting_template_id',
+    v1: '/rest/targeting_template',
+    required: ['advertiser_id', 'targeting_template_name'],
+    references: [{ field: 'advertiser_id', type: 'advertiser' }]
+  },
+  targeting_expression: {
+    idField: 'targeting_expression_id',
+    v2: '/rest/v2/targeting-expressions',
+    required: ['advertiser_id', 'name'],
+    references: [{ field: 'advertiser_id', type: 'advertiser' }],
+    validate: (expression, { add }) => {
+      if (!isBlank(expression.type) && !LINE_ITEM_TYPES.includes(expression.type)) {
+        add('type', `"${expression.type}" is not a valid choice.`);
+      }
+      if (!isBlank(expression.targeting) && (typeof expression.targeting !== 'object' || Array.isArray(expression.targeting))) {
+        add('targeting', 'must be an object keyed by targeting module');
+      }
+    }
+  },
+  creative_asset: {
+    idField: 'creative_asset_id',
+    v1: '/rest/creative_asset',
+    required: ['advertiser_id', 'creative_asset_name'],
+    references: [{ field: 'advertiser_id', type: 'advertiser' }],
+    validate: (asset, { add }) => checkAmount(asset.size_in_bytes, 'size_in_bytes', add)
+  },
+  segment: {
+    idField: 'segment_id',
+    v1: '/rest/segment',
+    required: ['advertiser_id', 'segment_name'],
+    references: [{ field: 'advertiser_id', type: 'advertiser' }]
+  },
+  report: {
+    idField: 'report_id',
+    v1: '/rest/report',
+    required: ['report_name'],
+    references: [{ field: 'advertiser_id', type: 'advertiser' }]
+  }
+};
+
+const ENTITY_TYPES = Object.keys(ENTITIES) as MockEntityType[];
+
+/**
+ * In-memory fake of the Beeswax REST API for tests: login, v1 CRUD for every
+ * resource, the v2 endpoints the client uses and creative asset uploads.
+ * Writes are validated like the real API (required fields, valid choices,
+ * flight dates, non-negative budgets) and references are enforced: ids must
+ * exist and belong to the same advertiser, and entities still referenced
+ * can't be deleted.
+ *
+ * Clients talk to it through an axios adapter, so everything but the network
+ * (interceptors, middleware, retries, re-authentication) runs for real:
+ *
+ *   const server = new MockBeeswaxServer({ seed: { advertiser: [{ advertiser_name: 'Acme' }] } });
+ *   const client = server.createClient();
+ *   await client.macros.createFullCampaign({ ... });
+ *   server.list('line_item');
+ */
+export class MockBeeswaxServer {
+  public readonly apiRoot: string;
+  public readonly requests: MockRequest[] = [];
+  private users: BeeswaxCredentials[];
+  private tokens: Set<string>;
+  private seed: Partial<Record<MockEntityType, MockEntity[]>>;
+  private tables = new Map<MockEntityType, Map<number, MockEntity>>();
+  private uploads = new Map<number, Buffer>();
+  private sessions = new Set<string>();
+  private nextId = 1; // Shared by all types, so passing an id of the wrong type fails
+
+  constructor(options: MockBeeswaxServerOptions = {}) {
+    this.apiRoot = options.apiRoot || DEFAULT_API_ROOT;
+    this.users = options.users || [MOCK_CREDENTIALS];
+    this.tokens = new Set(options.tokens || []);
+    this.seed = options.seed || {};
+    this.reset();
+  }
+
+  /**
+   * Axios adapter answering requests from this server; pass it as the
+   * client's `adapter` option
+   */
+  readonly adapter: AxiosAdapter = async config => {
+    const url = new URL(config.url || '', config.baseURL || this.apiRoot);
+    const query: Record<string, any> = { ...Object.fromEntries(url.searchParams), ...config.params };
+    const raw = await readBody(config.data);
+    const body = Buffer.isBuffer(raw) ? undefined : raw;
+    const method = (config.method || 'get').toUpperCase();
+
+    const { status, data, headers } = this.route(method, url.pathname, query, raw, config);
+    this.requests.push({ method, path: url.pathname, query, body, status });
+
+    const response: AxiosResponse = {
+      data: clone(data),
+      status,
+      statusText: '',
+      headers: headers || {},
+      config,
+      request: {}
+    };
+    if (!config.validateStatus || config.validateStatus(status)) {
+      return response;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response
+    );
+  };
+
+  /**
+   * Client for this server, logged in as the first user and without rate limiting
+   */
+  createClient(options: Partial<BeeswaxClientOptions> = {}): BeeswaxClient {
+    return new BeeswaxClient({
+      apiRoot: this.apiRoot,
+      creds: this.users[0],
+      rateLimit: false,
+      ...options,
+      adapter: this.adapter
+    });
+  }
+
+  /**
+   * Store an entity as is, without validation, e.g. a fixture in a state the
+   * API wouldn't let you create. Returns it with its id.
+   */
+  insert(type: MockEntityType, fields: MockEntity): MockEntity {
+    const { idField } = ENTITIES[type];
+    const id = fields[idField] !== undefined ? Number(fields[idField]) : this.nextId++;
+    this.nextId = Math.max(this.nextId, id + 1);
+
+    const now = timestamp();
+    const entity = { created_date: now, updated_date: now, ...fields, [idField]: id };
+    this.table(type).set(id, entity);
+    return clone(entity);
+  }
+
+  get(type: MockEntityType, id: number): MockEntity | undefined {
+    return clone(this.table(type).get(Number(id)));
+  }
+
+  /**
+   * Stored entities of a type, optionally only those matching every field of `filter`
+   */
+  list(type: MockEntityType, filter: Record<string, any> = {}): MockEntity[] {
+    return this.rows(type)
+      .filter(entity => Object.entries(filter).every(([field, value]) => String(entity[field]) === String(value)))
+      .map(clone);
+  }
+
+  /**
+   * Bytes uploaded for a creative asset
+   */
+  uploadedContent(creativeAssetId: number): Buffer | undefined {
+    return this.uploads.get(Number(creativeAssetId));
+  }
+
+  /**
+   * Invalidate every login session, so the next request gets a 401
+   */
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  /**
+   * Drop all data, sessions and logged requests, then insert the seed again
+   */
+  reset(): void {
+    this.tables.clear();
+    this.uploads.clear();
+    this.sessions.clear();
+    this.requests.length = 0;
+    this.nextId = 1;
+    ENTITY_TYPES.forEach(type => (this.seed[type] || []).forEach(fields => this.insert(type, fields)));
+  }
+
+  private route(
+    method: string,
+    path: string,
+    query: Record<string, any>,
+    body: any,
+    config: InternalAxiosRequestConfig
+  ): MockResponse {
+    if (path === '/rest/authenticate' && method === 'POST') {
+      return this.login(body);
+    }
+    if (!this.isAuthorized(config)) {
+      return { status: 401, data: { success: false, message: 'Not logged in' } };
+    }
+
+    if (path === '/rest/user/current' && method === 'GET') {
+      const user = this.users[0];
+      return { status: 200, data: { success: true, payload: { user_id: 1, account_id: 1, email: user.email } } };
+    }
+    if (path === '/rest/account' && method === 'GET') {
+      return { status: 200, data: { success: true, payload: [{ account_id: 1, account_name: 'Mock Account' }] } };
+    }
+
+    const upload = /^\/rest\/creative_asset\/upload\/(\d+)\/?$/.exec(path);
+    if (upload && method === 'POST') {
+      return this.upload(Number(upload[1]), body, String(config.headers?.get?.('Content-Type') || ''));
+    }
+
+    for (const type of ENTITY_TYPES) {
+      const { v1, v2 } = ENTITIES[type];
+      if (v1 && (path === v1 || path === `${v1}/` || path === `${v1}/strict`)) {
+        return this.handleV1(type, method, method === 'GET' ? query : { ...query, ...body });
+      }
+
+      const match = v2 ? new RegExp(`^${v2}(?:/(\\d+))?/?$`).exec(path) : null;
+      if (match) {
+        return this.handleV2(type, method, match[1] === undefined ? undefined : Number(match[1]), query, body);
+      }
+    }
+
+    return { status: 404, data: { success: false, message: `Unknown endpoint: ${method} ${path}` } };
+  }
+
+  private login(body: any): MockResponse {
+    const user = this.users.find(candidate => candidate.email === body?.email && candidate.password === body?.password);
+    if (!user) {
+      return { status: 401, data: { success: false, message: 'Invalid email or password' } };
+    }
+
+    const session = randomBytes(16).toString('hex');
+    this.sessions.add(session);
+    return {
+      status: 200,
+      data: { success: true, message: 'Authenticated', payload: { email: user.email } },
+      headers: { 'set-cookie': [`${SESSION_COOKIE}=${session}; Path=/; HttpOnly`] }
+    };
+  }
+
+  private isAuthorized(config: InternalAxiosRequestConfig): boolean {
+    const header = (name: string) => String(config.headers?.get?.(name) || '');
+
+    const token = header('Authorization').replace(/^Bearer\s+/i, '');
+    if (token && this.tokens.has(token)) {
+      return true;
+    }
+
+    return header('Cookie').split(';').some(pair => {
+      const [name, value] = pair.trim().split('=');
+      return name === SESSION_COOKIE && this.sessions.has(value);
+    });
+  }
+
+  private handleV1(type: MockEntityType, method: string, args: Record<string, any>): MockResponse {
+    const spec = ENTITIES[type];
+    const id = args[spec.idField];
+
+    switch (method) {
+      case 'GET':
+        return { status: 200, data: { success: true, payload: this.select(type, args, 'v1') } };
+      case 'POST': {
+        const result = this.write(type, undefined, args);
+        return 'errors' in result
+          ? v1Error(400, result.errors)
+          : { status: 200, data: { success: true, payload: { id: result.id } } };
+      }
+      case 'PUT': {
+        if (!this.table(type).has(Number(id))) {
+          return v1NotFound();
+        }
+        const result = this.write(type, Number(id), args);
+        return 'errors' in result
+          ? v1Error(400, result.errors)
+          : { status: 200, data: { success: true, payload: [{ id: result.id }] } };
+      }
+      case 'DELETE': {
+        if (!this.table(type).has(Number(id))) {
+          return v1NotFound();
+        }
+        const conflict = this.remove(type, Number(id));
+        return conflict
+          ? v1Error(400, { _general: [conflict] })
+          : { status: 200, data: { success: true, payload: [{ id: Number(id) }] } };
+      }
+    }
+    return v1Error(405, { _general: [`Method ${method} not allowed`] });
+  }
+
+  private handleV2(type: MockEntityType, method: string, id: number | undefined, query: Record<string, any>, body: any): MockResponse {
+    if (id === undefined) {
+      if (method === 'GET') {
+        const results = this.select(type, query, 'v2');
+        return { status: 200, data: { count: results.length, next: null, previous: null, results } };
+      }
+      if (method === 'POST') {
+        const result = this.write(type, undefined, fromV2(type, body || {}));
+        return 'errors' in result
+          ? v2Error(type, result.errors)
+          : { status: 201, data: toV2(type, this.table(type).get(result.id)!) };
+      }
+      return { status: 405, data: { detail: `Method "${method}" not allowed.` } };
+    }
+
+    const entity = this.table(type).get(id);
+    if (!entity) {
+      return { status: 404, data: { detail: 'Not found.' } };
+    }
+
+    switch (method) {
+      case 'GET':
+        return { status: 200, data: toV2(type, entity) };
+      case 'PUT':
+      case 'PATCH': {
+        const result = this.write(type, id, fromV2(type, body || {}));
+        return 'errors' in result
+          ? v2Error(type, result.errors)
+          : { status: 200, data: toV2(type, this.table(type).get(id)!) };
+      }
+      case 'DELETE': {
+        const conflict = this.remove(type, id);
+        return conflict ? { status: 409, data: { detail: conflict } } : { status: 204, data: '' };
+      }
+    }
+    return { status: 405, data: { detail: `Method "${method}" not allowed.` } };
+  }
+
+  /**
+   * Validate and store a create (no id) or update, returning the id or field errors
+   */
+  private write(type: MockEntityType, id: number | undefined, fields: MockEntity): { id: number } | { errors: FieldErrors } {
+    const spec = ENTITIES[type];
+    const changes = { ...fields };
+    [spec.idField, ...READ_ONLY_FIELDS].forEach(field => delete changes[field]);
+
+    const existing = id !== undefined ? this.table(type).get(id) : undefined;
+    const candidate = { ...existing, ...changes, [spec.idField]: id };
+    const errors = this.validate(type, candidate);
+    if (Object.keys(errors).length > 0) {
+      return { errors };
+    }
+
+    if (existing) {
+      this.table(type).set(id!, { ...candidate, updated_date: timestamp() });
+      return { id: id! };
+    }
+    return { id: this.insert(type, { ...changes })[spec.idField] };
+  }
+
+  private validate(type: MockEntityType, entity: MockEntity): FieldErrors {
+    const spec = ENTITIES[type];
+    const errors: FieldErrors = {};
+    const add = (field: string, message: string) => (errors[field] = errors[field] || []).push(message);
+    const lookup = (refType: MockEntityType, id: any) => isBlank(id) ? undefined : this.table(refType).get(Number(id));
+
+    spec.required.filter(field => isBlank(entity[field])).forEach(field => add(field, 'This field is required.'));
+
+    (spec.references || []).forEach(({ field, type: refType }) => {
+      if (isBlank(entity[field])) {
+        return;
+      }
+      const target = lookup(refType, entity[field]);
+      if (!target) {
+        add(field, `${refType} ${entity[field]} does not exist`);
+      } else if (
+        field !== 'advertiser_id' &&
+        !isBlank(entity.advertiser_id) &&
+        !isBlank(target.advertiser_id) &&
+        Number(target.advertiser_id) !== Number(entity.advertiser_id)
+      ) {
+        add(field, `${refType} ${entity[field]} belongs to advertiser ${target.advertiser_id}, not ${entity.advertiser_id}`);
+      }
+    });
+
+    spec.validate?.(entity, { lookup, rows: refType => this.rows(refType), add });
+    return errors;
+  }
+
+  /**
+   * Delete an entity unless something still references it; returns the conflict if so
+   */
+  private remove(type: MockEntityType, id: number): string | undefined {
+    for (const other of ENTITY_TYPES) {
+      for (const { field, type: refType } of ENTITIES[other].references || []) {
+        const dependent = refType === type && this.rows(other).find(entity => Number(entity[field]) === id);
+        if (dependent) {
+          return `Cannot delete ${type} ${id}: it is referenced by ${other} ${dependent[ENTITIES[other].idField]}`;
+        }
+      }
+    }
+
+    this.table(type).delete(id);
+    if (type === 'creative_asset') {
+      this.uploads.delete(id);
+    }
+    return undefined;
+  }
+
+  private upload(id: number, body: any, contentType: string): MockResponse {
+    const asset = this.table('creative_asset').get(id);
+    if (!asset) {
+      return v1NotFound();
+    }
+
+    const file = Buffer.isBuffer(body) ? parseMultipart(body, contentType).find(part => part.filename !== undefined) : undefined;
+    if (!file || file.content.length === 0) {
+      return v1Error(400, { creative_content: ['No file was uploaded.'] });
+    }
+
+    this.uploads.set(id, file.content);
+    Object.assign(asset, {
+      size_in_bytes: file.content.length,
+      mime_type: file.contentType,
+      path_to_asset: `${this.apiRoot}/assets/${id}/${encodeURIComponent(file.filename!)}`,
+      updated_date: timestamp()
+    });
+    return { status: 200, data: { success: true, payload: [{ id }] } };
+  }
+
+  /**
+   * Filter, sort and page rows like list endpoints do: v1 takes
+   * rows/offset/sort_by/order, v2 limit/offset/ordering. `*_id` filters
+   * accept comma-separated lists.
+   */
+  private select(type: MockEntityType, query: Record<string, any>, version: 'v1' | 'v2'): MockEntity[] {
+    const { rows, limit, offset, sort_by, order, ordering, ...filter } = query;
+    const views = this.rows(type).map(entity => version === 'v2' ? toV2(type, entity) : entity);
+
+    const matches = views.filter(view => Object.entries(filter).every(([field, value]) => {
+      const wanted = (field === 'id' || field.endsWith('_id')) ? String(value).split(',') : [String(value)];
+      return wanted.includes(String(view[field]));
+    }));
+
+    const sortField = version === 'v2'
+      ? String(ordering || 'id').replace(/^-/, '')
+      : sort_by || ENTITIES[type].idField;
+    const descending = version === 'v2' ? String(ordering || '').startsWith('-') : order === 'desc';
+    matches.sort((a, b) => compare(a[sortField], b[sortField]) * (descending ? -1 : 1));
+
+    const start = Number(offset) || 0;
+    return matches.slice(start, start + (Number(version === 'v2' ? limit : rows) || DEFAULT_ROWS));
+  }
+
+  private table(type: MockEntityType): Map<number, MockEntity> {
+    let table = this.tables.get(type);
+    if (!table) {
+      table = new Map();
+      this.tables.set(type, table);
+    }
+    return table;
+  }
+
+  private rows(type: MockEntityType): MockEntity[] {
+    return Array.from(this.table(type).values());
+  }
+}
+
+// Convert a v2 request body to the stored v1 field names
+function fromV2(type: MockEntityType, body: MockEntity): MockEntity {
+  const { idField, aliases = [] } = ENTITIES[type];
+  const fields: MockEntity = { ...body };
+  delete fields.id;
+  delete fields[idField];
+
+  for (const { v1, v2, values } of aliases) {
+    if (fields[v2] === undefined) {
+      continue;
+    }
+    const value = fields[v2];
+    delete fields[v2];
+    const code = values && Object.keys(values).find(key => values[key] === value);
+    fields[v1] = code !== undefined ? Number(code) : value;
+  }
+  return fields;
+}
+
+function toV2(type: MockEntityType, entity: MockEntity): MockEntity {
+  const { idField, aliases = [] } = ENTITIES[type];
+  const view: MockEntity = { id: entity[idField], ...entity };
+  delete view[idField];
+
+  for (const { v1, v2, values } of aliases) {
+    if (view[v1] === undefined) {
+      continue;
+    }
+    const value = view[v1];
+    delete view[v1];
+    view[v2] = values?.[String(value)] ?? value;
+  }
+  return view;
+}
+
+function v1Error(status: number, errors: FieldErrors): MockResponse {
+  const messages = Object.entries(errors).flatMap(([field, fieldMessages]) =>
+    fieldMessages.map(message => field === '_general' ? message : `${field}: ${message}`)
+  );
+  return { status, data: { success: false, message: messages[0], payload: [{ message: messages }] } };
+}
+
+function v1NotFound(): MockResponse {
+  return { status: 404, data: { success: false, message: 'Could not load object', payload: [{ message: ['Could not load object'] }] } };
+}
+
+// v2 reports errors under its own field names
+function v2Error(type: MockEntityType, errors: FieldErrors): MockResponse {
+  const renamed: FieldErrors = {};
+  Object.entries(errors).forEach(([field, messages]) => {
+    const name = field === '_general'
+      ? 'non_field_errors'
+      : ENTITIES[type].aliases?.find(alias => alias.v1 === field)?.v2 || field;
+    renamed[name] = messages;
+  });
+  return { status: 400, data: { errors: renamed } };
+}
+
+function checkFlight(entity: MockEntity, add: ValidationContext['add']): void {
+  const start = parseDate(entity.start_date);
+  const end = parseDate(entity.end_date);
+  if (!isBlank(entity.start_date) && start === undefined) {
+    add('start_date', `"${entity.start_date}" is not a valid date`);
+  }
+  if (!isBlank(entity.end_date) && end === undefined) {
+    add('end_date', `"${entity.end_date}" is not a valid date`);
+  }
+  if (start !== undefined && end !== undefined && end <= start) {
+    add('end_date', 'must be after start_date');
+  }
+}
+
+function checkAmount(value: any, field: string, add: ValidationContext['add']): void {
+  if (isBlank(value)) {
+    return;
+  }
+  const amount = Number(value);
+  if (Number.isNaN(amount)) {
+    add(field, `"${value}" is not a number`);
+  } else if (amount < 0) {
+    add(field, 'must not be negative');
+  }
+}
+
+function parseDate(value: any): number | undefined {
+  if (isBlank(value)) {
+    return undefined;
+  }
+  // v1 dates look like '2024-01-01 00:00:00'
+  const time = Date.parse(String(value).replace(' ', 'T'));
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function isBlank(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function compare(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * The request body as axios hands it to an adapter: JSON text, or a stream
+ * (form-data uploads) read into a Buffer
+ */
+async function readBody(data: any): Promise<any> {
+  if (data === undefined || data === null || data === '') {
+    return undefined;
+  }
+  if (typeof data.pipe === 'function') {
+    const chunks: Buffer[] = [];
+    for await (const chunk of data.pipe(new PassThrough())) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch (_error) {
+      return data;
+    }
+  }
+  return data;
+}
+
+interface MultipartPart {
+  name?: string;
+  filename?: string;
+  contentType?: string;
+  content: Buffer;
+}
+
+function parseMultipart(body: Buffer, contentType: string): MultipartPart[] {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  if (!match) {
+    return [];
+  }
+
+  const delimiter = Buffer.from(`--${match[1] || match[2]}`);
+  const parts: MultipartPart[] = [];
+  let start = body.indexOf(delimiter);
+
+  while (start !== -1) {
+    const partStart = start + delimiter.length + 2; // Skip the CRLF after the delimiter
+    const next = body.indexOf(delimiter, partStart);
+    if (next === -1) {
+      break;
+    }
+
+    const part = body.subarray(partStart, next - 2); // Drop the CRLF before the next delimiter
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString();
+      parts.push({
+        name: /[;\s]name="([^"]*)"/i.exec(headers)?.[1],
+        filename: /filename="([^"]*)"/i.exec(headers)?.[1],
+        contentType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1],
+        content: part.subarray(headerEnd + 4)
+      });
+    }
+    start = next;
+  }
+  return parts;
+}
@@ -0,0 +1,11 @@
+// Entry point of 'beeswax-node-client/testing'; kept out of the main export
+// so production code doesn't load test helpers
+export {
+  MockBeeswaxServer,
+  MockBeeswaxServerOptions,
+  MockEntity,
+  MockEntityType,
+  MockRequest,
+  MOCK_CREDENTIALS
+} from './MockBeeswaxServer';
+export { Cassette, CassetteInteraction, CassetteMode, CassetteOptions } from './Cassette';
@@ -1,3 +1,18 @@
+import type { TargetingExpressionBuilder } from '../targeting/TargetingExpressionBuilder';
+import type { Readable } from 'stream';
+import type { AuthStrategy } from '../auth/AuthStrategy';
+import type { SessionStore } from '../auth/SessionStore';
+import type { RateLimiter } from '../utils/RateLimiter';
+import type { Logger } from '../utils/logger';
+import type { Middleware } from '../middleware/Middleware';
+import type { TelemetryOptions } from '../telemetry/Telemetry';
+import type { ResponseCacheOptions } from '../cache/ResponseCache';
+import type { BatchLoaderOptions } from '../utils/BatchLoader';
+import type { DryRunCall } from '../dryrun/DryRun';
+import type { AxiosAdapter, ResponseType } from 'axios';
+
+export * from './models';
+
 export enum CreativeType {
   DISPLAY = 0,
   VIDEO = 1,
@@ -9,15 +24,83 @@ export interface BeeswaxCredentials {
   password: string;
 }
 
+export type BeeswaxApiVersion = 'v1' | 'v2';
+
+export interface RateLimiterOptions {
+  requestsPerSecond?: number; // Unlimited when omitted
+  maxConcurrent?: number; // Maximum requests in flight, unlimited when omitted
+  burst?: number; // Bucket size, defaults to requestsPerSecond
+}
+
+export interface RateLimitOptions extends RateLimiterOptions {
+  maxRateLimitRetries?: number; // Retries after a 429 response, defaults to 3
+}
+
 export interface BeeswaxClientOptions {
   apiRoot?: string;
-  creds: BeeswaxCredentials;
+  creds?: BeeswaxCredentials; // Email/password login; not needed when `auth` is given
+  auth?: AuthStrategy; // Defaults to a PasswordAuthStrategy for `creds`
+  sessionStore?: SessionStore; // Shares the `creds` login session between clients and processes
+  apiVersion?: BeeswaxApiVersion; // Defaults to 'v1'
   timeout?: number;
   retryOptions?: {
     retries?: number;
     retryDelay?: (retryCount: number) => number;
     retryCondition?: (error: any) => boolean;
   };
+  // Client-side throttling; pass a RateLimiter instance to share one budget
+  // between clients, or false to disable. Defaults to 10 req/s, 5 in flight.
+  rateLimit?: RateLimitOptions | RateLimiter | false;
+  // Structured logger; defaults to console warnings and errors, or everything
+  // when DEBUG_BEESWAX is set
+  logger?: Logger;
+  redactFields?: string[]; // Keys redacted from log fields, added to DEFAULT_REDACTED_FIELDS
+  middleware?: Middleware[]; // Hooks around every request, see BeeswaxClient.use()
+  // OpenTelemetry spans and metrics; uses the global tracer and meter when
+  // @opentelemetry/api is installed. Pass false to turn it off.
+  telemetry?: TelemetryOptions | false;
+  // Cache resource find()/query() responses; true for the defaults (60s TTL, 500 entries)
+  cache?: ResponseCacheOptions | boolean;
+  // Coalesce concurrent find() calls per resource into list queries; off by
+  // default, true for the defaults (100 ids per batch)
+  findBatching?: BatchLoaderOptions | boolean;
+  // Replaces the HTTP transport of every request, login included; e.g. the
+  // adapter of a MockBeeswaxServer from 'beeswax-node-client/testing'
+  adapter?: AxiosAdapter;
+  // Check create()/edit() bodies against ENTITY_SCHEMAS before sending them,
+  // throwing BeeswaxSchemaError; 'strict' also checks API responses
+  schemaValidation?: boolean | 'strict';
+  // Record writes instead of sending them, see BeeswaxClient.dryRun() to
+  // dry-run a single operation
+  dryRun?: boolean;
+}
+
+export interface RequestOptions {
+  body?: any; // Sent as query params for GET requests
+  params?: any;
+  headers?: Record<string, string>;
+  responseType?: ResponseType;
+  resource?: string; // Resource name middleware sees, derived from the endpoint by default
+}
+
+export interface BeeswaxClientPoolOptions {
+  accounts?: Record<string, BeeswaxClientOptions>;
+  defaults?: Partial<BeeswaxClientOptions>; // Merged under every account's options
+  // Budget shared by every account on the same API host. Accounts with their
+  // own `rateLimit` keep it. Defaults to 10 req/s, 5 in flight per host.
+  rateLimit?: RateLimiterOptions | false;
+}
+
+export interface PoolRunOptions {
+  accounts?: string[]; // Defaults to every account
+  concurrency?: number; // Accounts run at once, defaults to all
+}
+
+export interface AccountResult<T> {
+  account: string;
+  success: boolean;
+  result?: T;
+  error?: Error;
 }
 
 export interface BeeswaxResponse<T = any> {
@@ -26,6 +109,7 @@ export interface BeeswaxResponse<T = any> {
   code?: number;
   message?: string;
   errors?: string[];
+  dryRun?: DryRunCall[]; // Writes the operation would have sent, when dry-running
 }
 
 export interface QueryOptions {
@@ -35,6 +119,20 @@ export interface QueryOptions {
   [key: string]: any;
 }
 
+export interface PageInfo<T> {
+  rows: T[];
+  pageNumber: number; // Zero-based
+  offset: number;
+}
+
+export interface IterateOptions<T = any> {
+  pageSize?: number; // Rows per request, defaults to 50
+  sortBy?: string; // Defaults to the resource's id field so paging is stable
+  order?: 'asc' | 'desc';
+  limit?: number; // Stop after this many rows in total
+  onPage?: (page: PageInfo<T>) => void | Promise<void>;
+}
+
 export interface Advertiser {
   advertiser_id: number;
   advertiser_name: string;
@@ -160,6 +258,119 @@ export interface TargetingTemplate {
   [key: string]: any;
 }
 
+export type TargetingModule =
+  | 'geo'
+  | 'inventory'
+  | 'device'
+  | 'platform'
+  | 'segment'
+  | 'time_of_day'
+  | 'content'
+  | 'video'
+  | 'user';
+
+export interface GeoTargeting {
+  country?: string[];
+  region?: string[];
+  city?: string[];
+  metro?: string[];
+  zip?: string[];
+  latlong?: string[];
+}
+
+export interface InventoryTargeting {
+  inventory_source?: Array<string | number>;
+  domain?: string[];
+  app_bundle?: string[];
+  site_id?: string[];
+  app_id?: string[];
+  publisher_id?: string[];
+  deal_id?: string[];
+  ad_position?: Array<string | number>;
+}
+
+export interface DeviceTargeting {
+  device_type?: Array<string | number>;
+  device_make?: string[];
+  device_model?: string[];
+  screen_size?: string[];
+  carrier?: string[];
+}
+
+export interface PlatformTargeting {
+  os?: string[];
+  os_version?: string[];
+  browser?: string[];
+  browser_version?: string[];
+  language?: string[];
+}
+
+export interface SegmentTargeting {
+  segment?: string[];
+  user_id_type?: string[];
+}
+
+export interface TimeOfDayTargeting {
+  day_of_week?: number[]; // 0=Sunday ... 6=Saturday
+  hour_of_day?: number[]; // 0-23
+  user_time_zone?: boolean;
+}
+
+export interface ContentTargeting {
+  content_category?: string[];
+  content_rating?: string[];
+  keyword?: string[];
+}
+
+export interface VideoTargeting {
+  video_placement_type?: Array<string | number>;
+  video_player_size?: Array<string | number>;
+  video_start_delay?: Array<string | number>;
+  video_completion_rate?: number[];
+}
+
+export interface UserTargeting {
+  user_age?: string[];
+  user_gender?: string[];
+  ip_address?: string[];
+}
+
+export interface TargetingModuleCriteria {
+  geo: GeoTargeting;
+  inventory: InventoryTargeting;
+  device: DeviceTargeting;
+  platform: PlatformTargeting;
+  segment: SegmentTargeting;
+  time_of_day: TimeOfDayTargeting;
+  content: ContentTargeting;
+  video: VideoTargeting;
+  user: UserTargeting;
+}
+
+export interface TargetingModuleRule<M extends TargetingModule = TargetingModule> {
+  include?: TargetingModuleCriteria[M];
+  exclude?: TargetingModuleCriteria[M];
+}
+
+export type TargetingExpressionTargeting = {
+  [M in TargetingModule]?: TargetingModuleRule<M>[];
+};
+
+export interface TargetingExpression {
+  id?: number;
+  targeting_expression_id?: number; // Mirrors 'id' for consistency with v1 entities
+  advertiser_id: number;
+  name: string;
+  type?: string; // Line item type the expression applies to (banner, video, native)
+  targeting: TargetingExpressionTargeting;
+  alternative_id?: string;
+  notes?: string;
+  active?: boolean;
+  created_date?: string;
+  updated_date?: string;
+  [key: string]: any;
+}
+
 export interface CreativeAsset {
   creative_asset_id: number;
   advertiser_id: number;
@@ -174,13 +385,124 @@ export interface CreativeAsset {
   [key: string]: any;
 }
 
+export type ChecksumAlgorithm = 'md5' | 'sha1' | 'sha256';
+
+export interface UploadProgress {
+  loaded: number; // Bytes sent so far
+  total?: number; // Undefined when the size of a stream isn't known
+  percent?: number;
+}
+
 export interface UploadCreativeAssetParams {
   advertiser_id: number;
-  creative_asset_name?: string;
+  creative_asset_name?: string; // Defaults to the file name
   size_in_bytes?: number;
   notes?: string;
   active?: boolean;
-  sourceUrl: string;
+  // Exactly one source
+  sourceUrl?: string;
+  filePath?: string;
+  buffer?: Buffer;
+  stream?: Readable;
+  contentType?: string; // MIME type, detected from the content or file name when omitted
+  checksum?: string; // Expected hex digest of the content
+  checksumAlgorithm?: ChecksumAlgorithm; // Defaults to 'md5'
+  onProgress?: (progress: UploadProgress) => void;
+  // Check the content locally before any API call; throws BeeswaxAssetValidationError
+  validate?: AssetValidationOptions;
+}
+
+export type AssetFormat = 'png' | 'jpeg' | 'gif' | 'webp' | 'mp4' | 'webm' | 'mov' | 'zip' | 'unknown';
+
+// What inspectAsset() could read from the content itself
+export interface AssetInfo {
+  format: AssetFormat;
+  mimeType?: string;
+  size: number; // Bytes
+  width?: number;
+  height?: number;
+  duration?: number; // Seconds, for video
+  bitrate?: number; // Average kbps, for video
+  files?: string[]; // Entries of an HTML5 zip
+}
+
+export interface AssetRules {
+  formats?: AssetFormat[];
+  maxSize?: number; // Bytes
+  width?: number; // Exact dimensions, e.g. of the creative being built
+  height?: number;
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  minDuration?: number; // Seconds
+  maxDuration?: number;
+  maxBitrate?: number; // kbps
+  requiredFiles?: string[]; // Must be present in an HTML5 zip
+  maxFiles?: number;
+}
+
+export interface AssetValidationOptions extends AssetRules {
+  creativeType: CreativeType; // Selects the default rules, which the other options override
+}
+
+export type AssetViolationCode =
+  | 'format'
+  | 'size'
+  | 'dimensions'
+  | 'duration'
+  | 'bitrate'
+  | 'missing_file'
+  | 'file_count'
+  | 'unreadable';
+
+export interface AssetViolation {
+  code: AssetViolationCode;
+  field: keyof AssetInfo;
+  message: string;
+  expected?: string | number;
+  actual?: string | number;
+}
+
+export interface AssetValidationResult {
+  valid: boolean;
+  info: AssetInfo;
+  violations: AssetViolation[];
+}
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'date' | 'object' | 'array' | 'any';
+
+export interface FieldSchema {
+  type: SchemaType | SchemaType[];
+  required?: boolean; // In create bodies, and in any object that is given
+  enum?: Array<string | number>;
+  min?: number;
+  max?: number;
+  numeric?: boolean; // Strings must hold a number, e.g. spend_budget.lifetime '100.00'
+  fields?: Record<string, FieldSchema>; // Known keys of an object
+  additionalFields?: boolean; // Whether an object may have keys beyond `fields`
+  items?: FieldSchema; // Schema of each array element
+}
+
+export interface EntitySchema {
+  name: string; // Used in error messages, e.g. 'Campaign'
+  fields: Record<string, FieldSchema>;
+  requiredOneOf?: string[][]; // Alternative names of a required field, e.g. ['name', 'campaign_name']
+  check?: (entity: Record<string, any>, mode: SchemaValidationMode) => SchemaIssue[]; // Cross-field rules
+}
+
+// 'create' and 'edit' check caller input; 'response' checks what the API returned
+// and ignores unknown fields and missing required ones
+export type SchemaValidationMode = 'create' | 'edit' | 'response';
+
+export type SchemaIssueCode = 'required' | 'type' | 'enum' | 'format' | 'range' | 'unknown' | 'invalid';
+
+export interface SchemaIssue {
+  code: SchemaIssueCode;
+  path: string; // e.g. 'bidding.values.cpm_bid' or 'frequency_caps.limits[0].duration'
+  message: string;
+  expected?: string | number;
+  actual?: any;
 }
 
 export interface Segment {
@@ -207,6 +529,54 @@ export interface Report {
   [key: string]: any;
 }
 
+export interface ReportQuery {
+  advertiser_id?: number;
+  report_id?: number; // Saved report definition to run, if any
+  view_name?: string; // Reporting view, e.g. 'performance_agg'
+  dimensions: string[];
+  metrics: string[];
+  filters?: Record<string, any>;
+  start_date: string;
+  end_date: string;
+  timezone?: string; // IANA name, e.g. 'America/New_York'
+  sort_by?: string;
+  rows?: number;
+  [key: string]: any;
+}
+
+export type ReportQueueStatus = 'queued' | 'running' | 'complete' | 'failed';
+
+export interface ReportQueueEntry {
+  report_queue_id: number;
+  status?: ReportQueueStatus | string;
+  report_status?: ReportQueueStatus | string; // Older accounts return the status under this name
+  download_url?: string;
+  report_url?: string;
+  error?: string;
+  [key: string]: any;
+}
+
+export interface ReportPollOptions {
+  interval?: number; // First wait between status checks in ms, defaults to 1000
+  maxInterval?: number; // Backoff ceiling in ms, defaults to 30000
+  backoffFactor?: number; // Defaults to 1.5
+  timeout?: number; // Give up after this many ms, defaults to 10 minutes
+}
+
+export interface ReportColumn {
+  name: string;
+  kind: 'dimension' | 'metric';
+}
+
+export type ReportRow = Record<string, string | number | null>;
+
+export interface ReportResult<R = ReportRow> {
+  report_queue_id: number;
+  query: ReportQuery;
+  columns: ReportColumn[];
+  rows: R[];
+}
+
 // Macro functionality types
 export interface CampaignCreationOptions {
   advertiser_id: number;
@@ -249,7 +619,8 @@ export interface LineItemCreationOptions {
     bid_shading_control?: string;
   };
   targeting_expression_id?: number;
-  targeting?: any;
+  targeting_template_name?: string; // References an entry in CampaignCreationOptions.targeting_templates
+  targeting?: TargetingExpressionTargeting | TargetingExpressionBuilder;
   creatives?: CreativeCreationOptions[];
   pacing?: string;
   delivery_model?: string;
@@ -286,7 +657,8 @@ export interface CreativeCreationOptions {
 
 export interface TargetingTemplateCreationOptions {
   targeting_template_name: string;
-  targeting: any;
+  type?: string; // Line item type the expression applies to, defaults to 'banner'
+  targeting: TargetingExpressionTargeting | TargetingExpressionBuilder;
 }
 
 export interface FullCampaignResponse {
@@ -295,4 +667,91 @@ export interface FullCampaignResponse {
   creatives: Creative[];
   creative_line_items: CreativeLineItem[];
   targeting_templates?: TargetingTemplate[];
+  targeting_expressions?: TargetingExpression[];
+  report?: FullCampaignReport;
+}
+
+export interface CreateFullCampaignOptions {
+  transactional?: boolean; // Delete everything created so far if any step fails
+}
+
+export type CampaignEntityType =
+  | 'campaign'
+  | 'targeting_expression'
+  | 'line_item'
+  | 'creative_asset'
+  | 'creative'
+  | 'creative_line_item';
+
+export interface CampaignEntityRef {
+  type: CampaignEntityType;
+  id: number;
+  name?: string;
+}
+
+export interface CampaignEntityFailure {
+  type: CampaignEntityType;
+  name?: string;
+  error: string;
+}
+
+export interface FullCampaignReport {
+  created: CampaignEntityRef[];
+  failed: CampaignEntityFailure[];
+  rolledBack: CampaignEntityRef[];
+  rollbackFailed: Array<CampaignEntityRef & { error: string }>;
+}
+
+// Declarative plan/apply types
+export type PlanAction = 'create' | 'update' | 'delete' | 'noop';
+
+export interface FieldChange {
+  field: string;
+  from: any;
+  to: any;
+}
+
+export interface EntityPlan<T = any> {
+  action: PlanAction;
+  id?: number;
+  name?: string;
+  changes: FieldChange[];
+  current?: T;
+}
+
+export interface CreativePlan extends EntityPlan<Creative> {
+  cli_id?: number;
+  spec?: CreativeCreationOptions;
+}
+
+export interface LineItemPlan extends EntityPlan<LineItem> {
+  spec?: LineItemCreationOptions;
+  targeting_expression_id?: number; // Live expression whose targeting is compared and updated
+  creatives: CreativePlan[];
+}
+
+export interface CampaignPlanOptions {
+  // Delete live line items and creative associations missing from the spec;
+  // off by default, so a renamed line item isn't deleted and recreated
+  prune?: boolean;
+}
+
+export interface CampaignPlan {
+  spec: CampaignCreationOptions;
+  options: CampaignPlanOptions;
+  campaign: EntityPlan<Campaign>;
+  line_items: LineItemPlan[];
+  summary: Record<PlanAction, number>;
+}
+
+export interface AppliedOperation {
+  action: Exclude<PlanAction, 'noop'>;
+  type: CampaignEntityType;
+  id?: number;
+  name?: string;
+}
+
+export interface CampaignApplyResult {
+  campaign_id?: number;
+  operations: AppliedOperation[];
 }
\ No newline at end of file
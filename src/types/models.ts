@@ -0,0 +1,221 @@
+import type { TargetingExpressionTargeting } from './index';
+
+// Strict entity models. Unlike the loose `Campaign`, `LineItem`, ... types,
+// which take both the deprecated v1 and the current field names and any
+// extra key, these use one canonical name per field (the v2 one) and have no
+// index signature. `client.models` reads and writes them; the normalizers in
+// models/normalize translate to and from what either API version sends.
+
+export type BudgetType = 'spend' | 'impressions' | 'spend including vendor fees';
+export type LineItemType = 'banner' | 'video' | 'native';
+export type CreativeKind = 'banner' | 'video' | 'native';
+export type BiddingStrategy = 'CPM' | 'CPC' | 'CPA';
+
+/**
+ * Fields the API sets; present on reads, never accepted as input
+ */
+export interface ApiManagedFields {
+  account_id?: number;
+  created_date?: string;
+  updated_date?: string;
+  buzz_key?: string;
+  push_status?: number | string;
+  push_update?: boolean;
+  last_active?: string;
+}
+
+export interface FrequencyCaps {
+  id_type?: string;
+  use_fallback?: boolean;
+  id_vendor?: string | null;
+  limits?: Array<{
+    duration: number; // Seconds
+    impressions: number;
+  }>;
+}
+
+export interface SpendBudget {
+  lifetime?: number | null;
+  daily?: number | null;
+  include_fees?: boolean;
+}
+
+export interface Bidding {
+  strategy: BiddingStrategy;
+  values: {
+    cpm_bid?: number;
+    cpc_bid?: number;
+    cpa_bid?: number;
+  };
+  pacing?: string;
+  custom?: boolean;
+  bid_shading?: boolean;
+  bid_shading_control?: string;
+}
+
+// Advertisers
+
+export interface AdvertiserCreateInput {
+  name: string;
+  alternative_id?: string;
+  currency?: string;
+  notes?: string;
+  active?: boolean;
+}
+
+export type AdvertiserUpdateInput = Partial<AdvertiserCreateInput>;
+
+export interface AdvertiserRead extends ApiManagedFields, AdvertiserCreateInput {
+  advertiser_id: number;
+}
+
+// Campaigns
+
+export interface CampaignCreateInput {
+  advertiser_id: number;
+  name: string;
+  budget?: number;
+  daily_budget?: number;
+  budget_type?: BudgetType;
+  currency?: string;
+  start_date: string;
+  end_date?: string | null;
+  frequency_caps?: FrequencyCaps | null;
+  alternative_id?: string;
+  notes?: string;
+  active?: boolean;
+}
+
+export type CampaignUpdateInput = Partial<Omit<CampaignCreateInput, 'advertiser_id'>>;
+
+export interface CampaignRead extends ApiManagedFields, CampaignCreateInput {
+  campaign_id: number;
+  campaign_spend?: number;
+}
+
+// Line items, discriminated by `type`
+
+interface LineItemInputFields {
+  campaign_id: number;
+  advertiser_id: number;
+  name: string;
+  guaranteed?: boolean;
+  currency?: string;
+  budget?: number;
+  budget_type?: BudgetType;
+  spend_budget?: SpendBudget;
+  bidding?: Bidding;
+  start_date?: string;
+  end_date?: string | null;
+  targeting_expression_id?: number | null;
+  frequency_caps?: FrequencyCaps | null;
+  pacing?: string;
+  delivery_model?: string;
+  alternative_id?: string;
+  notes?: string;
+  active?: boolean;
+}
+
+export type BannerLineItemCreateInput = LineItemInputFields & { type: 'banner' };
+export type VideoLineItemCreateInput = LineItemInputFields & { type: 'video' };
+export type NativeLineItemCreateInput = LineItemInputFields & { type: 'native' };
+export type LineItemCreateInput = BannerLineItemCreateInput | VideoLineItemCreateInput | NativeLineItemCreateInput;
+
+// A line item's type, campaign and advertiser are fixed once it exists
+export type LineItemUpdateInput = Partial<Omit<LineItemInputFields, 'campaign_id' | 'advertiser_id'>>;
+
+interface LineItemReadFields extends ApiManagedFields, LineItemInputFields {
+  line_item_id: number;
+  line_item_spend?: number;
+  line_item_impressions?: number;
+  line_item_version?: number;
+}
+
+export type BannerLineItemRead = LineItemReadFields & { type: 'banner' };
+export type VideoLineItemRead = LineItemReadFields & { type: 'video' };
+export type NativeLineItemRead = LineItemReadFields & { type: 'native' };
+export type LineItemRead = BannerLineItemRead | VideoLineItemRead | NativeLineItemRead;
+
+// Creatives, discriminated by `type`
+
+interface CreativeInputFields {
+  advertiser_id: number;
+  name: string;
+  creative_template_id?: number;
+  creative_asset_id?: number;
+  click_url?: string;
+  secure?: boolean;
+  attributes?: Record<string, any>;
+  alternative_id?: string;
+  notes?: string;
+  active?: boolean;
+}
+
+export type BannerCreativeCreateInput = CreativeInputFields & { type: 'banner'; width: number; height: number };
+export type VideoCreativeCreateInput = CreativeInputFields & { type: 'video'; width?: number; height?: number };
+export type NativeCreativeCreateInput = CreativeInputFields & { type: 'native' };
+export type CreativeCreateInput = BannerCreativeCreateInput | VideoCreativeCreateInput | NativeCreativeCreateInput;
+
+// A creative's type and advertiser are fixed once it exists
+export type CreativeUpdateInput = Partial<Omit<CreativeInputFields, 'advertiser_id'>> & { width?: number; height?: number };
+
+interface CreativeReadFields extends ApiManagedFields, CreativeInputFields {
+  creative_id: number;
+  creative_thumbnail_url?: string;
+}
+
+export type BannerCreativeRead = CreativeReadFields & { type: 'banner'; width?: number; height?: number };
+export type VideoCreativeRead = CreativeReadFields & { type: 'video'; width?: number; height?: number };
+export type NativeCreativeRead = CreativeReadFields & { type: 'native' };
+export type CreativeRead = BannerCreativeRead | VideoCreativeRead | NativeCreativeRead;
+
+// Creative line items
+
+export interface CreativeLineItemCreateInput {
+  creative_id: number;
+  line_item_id: number;
+  weighting?: number;
+  start_date?: string | null;
+  end_date?: string | null;
+  active?: boolean;
+}
+
+export type CreativeLineItemUpdateInput = Partial<Omit<CreativeLineItemCreateInput, 'creative_id' | 'line_item_id'>>;
+
+export interface CreativeLineItemRead extends ApiManagedFields, CreativeLineItemCreateInput {
+  cli_id: number;
+}
+
+// Targeting expressions
+
+export interface TargetingExpressionCreateInput {
+  advertiser_id: number;
+  name: string;
+  type?: LineItemType;
+  targeting: TargetingExpressionTargeting;
+  alternative_id?: string;
+  notes?: string;
+  active?: boolean;
+}
+
+export type TargetingExpressionUpdateInput = Partial<Omit<TargetingExpressionCreateInput, 'advertiser_id'>>;
+
+export interface TargetingExpressionRead extends ApiManagedFields, TargetingExpressionCreateInput {
+  targeting_expression_id: number;
+}
+
+// Segments
+
+export interface SegmentCreateInput {
+  advertiser_id: number;
+  segment_name: string;
+  segment_description?: string;
+  alternative_id?: string;
+  active?: boolean;
+}
+
+export type SegmentUpdateInput = Partial<Omit<SegmentCreateInput, 'advertiser_id'>>;
+
+export interface SegmentRead extends ApiManagedFields, SegmentCreateInput {
+  segment_id: number;
+}
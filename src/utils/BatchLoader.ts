@@ -0,0 +1,82 @@
+export interface BatchLoaderOptions {
+  maxBatchSize?: number; // Keys per batch call, defaults to 100
+}
+
+interface PendingLoad<V> {
+  promise: Promise<V>;
+  resolve(value: V): void;
+  reject(error: any): void;
+}
+
+/**
+ * DataLoader-style coalescing: load() calls made in the same turn of the
+ * event loop are collected and passed to `batch` together, and a key that is
+ * already queued or in flight shares its pending promise.
+ */
+export class BatchLoader<K, V> {
+  private queue = new Map<string, { key: K; load: PendingLoad<V> }>();
+  private inFlight = new Map<string, Promise<V>>();
+  private scheduled = false;
+  private maxBatchSize: number;
+
+  /**
+   * `batch` resolves with one value per key, in the order of the keys
+   */
+  constructor(private batch: (keys: K[]) => Promise<V[]>, options: BatchLoaderOptions = {}) {
+    this.maxBatchSize = Math.max(1, options.maxBatchSize || 100);
+  }
+
+  load(key: K): Promise<V> {
+    const id = String(key);
+    const existing = this.queue.get(id)?.load.promise || this.inFlight.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    let resolve!: (value: V) => void;
+    let reject!: (error: any) => void;
+    const promise = new Promise<V>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    this.queue.set(id, { key, load: { promise, resolve, reject } });
+
+    if (!this.scheduled) {
+      this.scheduled = true;
+      // setImmediate rather than a microtask, so loads started after an
+      // await (e.g. a cache lookup) still join the batch
+      setImmediate(() => this.dispatch());
+    }
+    return promise;
+  }
+
+  /**
+   * Make later load() calls send a new request instead of joining the ones
+   * already sent, e.g. because they were sent before a write
+   */
+  clearInFlight(): void {
+    this.inFlight.clear();
+  }
+
+  private dispatch(): void {
+    this.scheduled = false;
+    const entries = Array.from(this.queue.entries());
+    this.queue.clear();
+
+    for (let start = 0; start < entries.length; start += this.maxBatchSize) {
+      const chunk = entries.slice(start, start + this.maxBatchSize);
+      chunk.forEach(([id, { load }]) => this.inFlight.set(id, load.promise));
+
+      this.batch(chunk.map(([, { key }]) => key))
+        .then(
+          values => chunk.forEach(([, { load }], index) => load.resolve(values[index])),
+          error => chunk.forEach(([, { load }]) => load.reject(error))
+        )
+        .finally(() => chunk.forEach(([id, { load }]) => {
+          if (this.inFlight.get(id) === load.promise) {
+            this.inFlight.delete(id);
+          }
+        }));
+    }
+  }
+}
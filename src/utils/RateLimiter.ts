@@ -0,0 +1,110 @@
+import { RateLimiterOptions } from '../types';
+
+/**
+ * Token bucket plus concurrency gate for outgoing API requests.
+ *
+ * Tasks run in FIFO order once a token is available (refilled at
+ * `requestsPerSecond`, holding at most `burst`) and fewer than `maxConcurrent`
+ * tasks are in flight. `pause()` holds every queued task, which is how
+ * 429 / Retry-After responses slow down all callers sharing the limiter.
+ */
+export class RateLimiter {
+  private requestsPerSecond: number;
+  private maxConcurrent: number;
+  private burst: number;
+  private tokens: number;
+  private lastRefill: number;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private pausedUntil = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.requestsPerSecond = options.requestsPerSecond || Infinity;
+    this.maxConcurrent = options.maxConcurrent || Infinity;
+    this.burst = options.burst || (isFinite(this.requestsPerSecond) ? Math.max(1, this.requestsPerSecond) : Infinity);
+    this.tokens = this.burst;
+    this.lastRefill = Date.now();
+  }
+
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Hold all queued and future tasks for `ms` milliseconds
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  get inFlight(): number {
+    return this.active;
+  }
+
+  private acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.drain();
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return; // A wake-up is already scheduled
+    }
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.wakeIn(this.pausedUntil - now);
+        return;
+      }
+
+      if (this.active >= this.maxConcurrent) {
+        return; // release() drains again
+      }
+
+      this.refill(now);
+      if (this.tokens < 1) {
+        this.wakeIn(Math.ceil(((1 - this.tokens) * 1000) / this.requestsPerSecond));
+        return;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+      this.queue.shift()!();
+    }
+  }
+
+  private refill(now: number): void {
+    if (!isFinite(this.burst)) {
+      return;
+    }
+
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private wakeIn(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, ms);
+  }
+}
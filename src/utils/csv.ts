@@ -0,0 +1,139 @@
+/**
+ * Incremental CSV/TSV parser. Chunks can split rows, quoted cells and CRLF
+ * pairs anywhere; push() returns the rows completed so far and end() flushes
+ * the last one. Without a delimiter it is detected from the header line.
+ */
+export class DelimitedParser {
+  private delimiter?: string;
+  private carry = '';
+  private row: string[] = [];
+  private cell = '';
+  private inQuotes = false;
+
+  constructor(delimiter?: string) {
+    this.delimiter = delimiter;
+  }
+
+  push(chunk: string): string[][] {
+    let text = this.carry + chunk;
+    this.carry = '';
+
+    if (!this.delimiter) {
+      const lineEnd = text.search(/[\r\n]/);
+      if (lineEnd === -1) {
+        this.carry = text;
+        return [];
+      }
+      this.delimiter = detectDelimiter(text.slice(0, lineEnd));
+    }
+
+    // Trailing quotes or a CR may pair with the start of the next chunk
+    // ("" escapes, CRLF), so hold them back until more text arrives
+    const tail = /["\r]+$/.exec(text);
+    if (tail) {
+      this.carry = tail[0];
+      text = text.slice(0, tail.index);
+    }
+
+    return this.consume(text);
+  }
+
+  end(): string[][] {
+    if (!this.delimiter) {
+      this.delimiter = detectDelimiter(this.carry);
+    }
+    const rows = this.consume(this.carry);
+    this.carry = '';
+
+    if (this.cell !== '' || this.row.length > 0) {
+      this.row.push(this.cell);
+      rows.push(this.row);
+      this.row = [];
+      this.cell = '';
+    }
+
+    return rows;
+  }
+
+  private consume(text: string): string[][] {
+    const rows: string[][] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          this.cell += '"';
+          i++;
+        } else if (char === '"') {
+          this.inQuotes = false;
+        } else {
+          this.cell += char;
+        }
+      } else if (char === '"') {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.row.push(this.cell);
+        this.cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          i++;
+        }
+        this.row.push(this.cell);
+        rows.push(this.row);
+        this.row = [];
+        this.cell = '';
+      } else {
+        this.cell += char;
+      }
+    }
+
+    return rows;
+  }
+}
+
+/**
+ * Parse CSV/TSV text into rows of cells. Handles quoted cells containing
+ * delimiters, escaped quotes ("") and newlines.
+ */
+export function parseDelimited(text: string, delimiter = ','): string[][] {
+  const parser = new DelimitedParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+}
+
+/**
+ * Parse a stream of CSV/TSV chunks (e.g. an HTTP response body) row by row
+ */
+export async function* parseDelimitedStream(
+  source: AsyncIterable<string | Buffer>,
+  delimiter?: string
+): AsyncGenerator<string[]> {
+  const parser = new DelimitedParser(delimiter);
+  const decoder = new TextDecoder();
+
+  for await (const chunk of source) {
+    yield* parser.push(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
+  }
+  yield* parser.push(decoder.decode());
+  yield* parser.end();
+}
+
+/**
+ * Guess the delimiter from the header line
+ */
+export function detectDelimiter(headerLine: string): string {
+  return headerLine.split('\t').length > headerLine.split(',').length ? '\t' : ',';
+}
+
+/**
+ * Format one row of cells, quoting cells that contain the delimiter, quotes
+ * or line breaks
+ */
+export function formatDelimitedRow(cells: unknown[], delimiter = ','): string {
+  return cells.map(cell => {
+    const text = cell === null || cell === undefined ? '' : String(cell);
+    return text.includes(delimiter) || /["\r\n]/.test(text)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  }).join(delimiter);
+}
@@ -0,0 +1,116 @@
+import { once } from 'events';
+import { Writable } from 'stream';
+import { formatDelimitedRow } from './csv';
+
+export type RowExportFormat = 'csv' | 'tsv' | 'ndjson' | 'json';
+
+export interface RowExportOptions {
+  columns?: string[]; // CSV/TSV column order, defaults to the keys of the first row
+  end?: boolean; // End the destination when done, defaults to true
+}
+
+type RowSource<R> = AsyncIterable<R> | Iterable<R>;
+
+/**
+ * Write rows as CSV (or TSV) with a header line. Returns the number of rows written.
+ */
+export async function writeCsv<R extends object>(
+  rows: RowSource<R>,
+  destination: Writable,
+  options: RowExportOptions & { delimiter?: string } = {}
+): Promise<number> {
+  const delimiter = options.delimiter || ',';
+  let columns = options.columns;
+  let count = 0;
+
+  if (columns) {
+    await write(destination, formatDelimitedRow(columns, delimiter) + '\n');
+  }
+  for await (const row of rows) {
+    if (!columns) {
+      columns = Object.keys(row);
+      await write(destination, formatDelimitedRow(columns, delimiter) + '\n');
+    }
+    const record = row as Record<string, unknown>;
+    await write(destination, formatDelimitedRow(columns.map(column => record[column]), delimiter) + '\n');
+    count++;
+  }
+
+  await finish(destination, options);
+  return count;
+}
+
+/**
+ * Write rows as newline-delimited JSON, one object per line
+ */
+export async function writeNdjson<R>(
+  rows: RowSource<R>,
+  destination: Writable,
+  options: RowExportOptions = {}
+): Promise<number> {
+  let count = 0;
+  for await (const row of rows) {
+    await write(destination, JSON.stringify(row) + '\n');
+    count++;
+  }
+
+  await finish(destination, options);
+  return count;
+}
+
+/**
+ * Write rows as a single JSON array without holding them all in memory
+ */
+export async function writeJson<R>(
+  rows: RowSource<R>,
+  destination: Writable,
+  options: RowExportOptions = {}
+): Promise<number> {
+  let count = 0;
+  await write(destination, '[');
+  for await (const row of rows) {
+    await write(destination, (count ? ',\n' : '\n') + JSON.stringify(row));
+    count++;
+  }
+  await write(destination, count ? '\n]\n' : ']\n');
+
+  await finish(destination, options);
+  return count;
+}
+
+export function writeRows<R extends object>(
+  rows: RowSource<R>,
+  destination: Writable,
+  format: RowExportFormat,
+  options: RowExportOptions = {}
+): Promise<number> {
+  switch (format) {
+    case 'csv':
+      return writeCsv(rows, destination, options);
+    case 'tsv':
+      return writeCsv(rows, destination, { ...options, delimiter: '\t' });
+    case 'ndjson':
+      return writeNdjson(rows, destination, options);
+    case 'json':
+      return writeJson(rows, destination, options);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+// Respect backpressure so large exports don't buffer in memory
+async function write(destination: Writable, chunk: string): Promise<void> {
+  if (!destination.write(chunk)) {
+    await once(destination, 'drain');
+  }
+}
+
+async function finish(destination: Writable, options: RowExportOptions): Promise<void> {
+  if (options.end === false) {
+    return;
+  }
+  destination.end();
+  if (!destination.writableFinished) {
+    await once(destination, 'finish');
+  }
+}
@@ -24,4 +24,44 @@ export function cleanObject<T extends Record<string, any>>(obj: T): Partial<T> {
     }
   });
   return cleaned;
-}
\ No newline at end of file
+}
+
+// JSON with sorted keys, undefined values dropped and numbers as strings (GET
+// params are sent as strings anyway), so equivalent query bodies share a key
+export function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(typeof value === 'number' ? String(value) : value);
+}
+
+/**
+ * Run `operation` over `items` with at most `concurrency` calls in flight,
+ * resolving with the results in input order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  operation: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await operation(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency || items.length, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
@@ -0,0 +1,142 @@
+import { randomBytes } from 'crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger, fields first like pino (`logger.info({ id }, 'msg')`).
+ * A pino logger can be passed as is; wrap message-first loggers such as
+ * winston with fromMessageFirstLogger().
+ */
+export interface Logger {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+}
+
+export interface MessageFirstLogger {
+  debug(message: string, meta?: LogFields): unknown;
+  info(message: string, meta?: LogFields): unknown;
+  warn(message: string, meta?: LogFields): unknown;
+  error(message: string, meta?: LogFields): unknown;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+// Matched case-insensitively against object keys at any depth
+export const DEFAULT_REDACTED_FIELDS = [
+  'password',
+  'token',
+  'access_token',
+  'refresh_token',
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'api_key',
+  'secret',
+  'email',
+  'first_name',
+  'last_name',
+  'phone',
+  'ip_address'
+];
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Logger writing to the console at `level` and above, or nothing for 'silent'
+ */
+export function createConsoleLogger(level: LogLevel | 'silent' = 'warn'): Logger {
+  const threshold = level === 'silent' ? LEVELS.length : LEVELS.indexOf(level);
+  const write = (logLevel: LogLevel) => (fields: LogFields, message: string) => {
+    if (LEVELS.indexOf(logLevel) < threshold) {
+      return;
+    }
+    const out = logLevel === 'debug' ? console.log : console[logLevel];
+    if (Object.keys(fields).length > 0) {
+      out(`[beeswax] ${message}`, JSON.stringify(fields, null, 2));
+    } else {
+      out(`[beeswax] ${message}`);
+    }
+  };
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+export function fromMessageFirstLogger(logger: MessageFirstLogger): Logger {
+  return {
+    debug: (fields, message) => logger.debug(message, fields),
+    info: (fields, message) => logger.info(message, fields),
+    warn: (fields, message) => logger.warn(message, fields),
+    error: (fields, message) => logger.error(message, fields)
+  };
+}
+
+/**
+ * Deep copy of `value` with the values of sensitive keys replaced
+ */
+export function redact(value: unknown, fields: string[] = DEFAULT_REDACTED_FIELDS): unknown {
+  const keys = new Set(fields.map(field => field.toLowerCase()));
+  const seen = new WeakSet<object>();
+
+  const walk = (current: unknown): unknown => {
+    if (Array.isArray(current)) {
+      return current.map(walk);
+    }
+    if (!isPlainObject(current)) {
+      return current;
+    }
+    if (seen.has(current)) {
+      return '[Circular]';
+    }
+    seen.add(current);
+
+    const copy: LogFields = {};
+    Object.entries(current).forEach(([key, entry]) => {
+      copy[key] = keys.has(key.toLowerCase()) && entry !== undefined && entry !== null ? REDACTED : walk(entry);
+    });
+    return copy;
+  };
+
+  return walk(value);
+}
+
+function isPlainObject(value: unknown): value is object {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Short random id tying together the log lines of one request
+ */
+export function createCorrelationId(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Fields describing an error without its (possibly large) cause chain
+ */
+export function errorFields(error: any): LogFields {
+  return {
+    error: {
+      name: error?.name,
+      message: error?.message || String(error),
+      status: error?.status,
+      requestId: error?.requestId
+    }
+  };
+}
+
+/**
+ * Wrap `logger` so every field it receives is redacted first
+ */
+export function withRedaction(logger: Logger, fields: string[] = DEFAULT_REDACTED_FIELDS): Logger {
+  const write = (level: LogLevel) => (logFields: LogFields, message: string) =>
+    logger[level](redact(logFields, fields) as LogFields, message);
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
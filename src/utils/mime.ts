@@ -0,0 +1,67 @@
+const EXTENSION_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  zip: 'application/zip',
+  html: 'text/html',
+  htm: 'text/html',
+  js: 'application/javascript',
+  css: 'text/css'
+};
+
+// Number of leading bytes detectMimeType() needs to recognise every signature
+export const MIME_SNIFF_BYTES = 16;
+
+/**
+ * Detect a MIME type from the leading bytes of the content, falling back to
+ * the file extension
+ */
+export function detectMimeType(header?: Buffer, filename?: string): string | undefined {
+  if (header) {
+    const sniffed = sniff(header);
+    if (sniffed) {
+      return sniffed;
+    }
+  }
+
+  const extension = filename?.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  return extension ? EXTENSION_TYPES[extension] : undefined;
+}
+
+function sniff(header: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => header.toString('latin1', start, end);
+
+  if (header[0] === 0x89 && ascii(1, 4) === 'PNG') {
+    return 'image/png';
+  }
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (ascii(0, 4) === 'GIF8') {
+    return 'image/gif';
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return ascii(8, 10) === 'qt' ? 'video/quicktime' : 'video/mp4';
+  }
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x1a45dfa3) {
+    return 'video/webm';
+  }
+  if (ascii(0, 4) === 'PK\x03\x04') {
+    return 'application/zip';
+  }
+  if (ascii(0, 3) === 'ID3') {
+    return 'audio/mpeg';
+  }
+  return undefined;
+}
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { Hash, createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { basename } from 'path';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { ChecksumAlgorithm, UploadCreativeAssetParams, UploadProgress } from '../types';
+import type { Logger } from './logger';
+import { MIME_SNIFF_BYTES, detectMimeType } from './mime';
+
+/**
+ * Where creative asset content comes from, resolved from
+ * UploadCreativeAssetParams before the asset is created
+ */
+export interface UploadSource {
+  name?: string;
+  size?: number;
+  contentType?: string;
+  checksum?: string; // Known up front for buffers and files, when requested
+  open(): Promise<Readable>;
+}
+
+export async function resolveUploadSource(params: UploadCreativeAssetParams, logger?: Logger): Promise<UploadSource> {
+  const sources = [params.sourceUrl, params.filePath, params.buffer, params.stream].filter(Boolean);
+  if (sources.length !== 1) {
+    throw new Error('uploadCreativeAsset params requires exactly one of sourceUrl, filePath, buffer or stream.');
+  }
+  const algorithm = params.checksumAlgorithm || 'md5';
+
+  if (params.buffer) {
+    const buffer = params.buffer;
+    return {
+      name: params.creative_asset_name,
+      size: buffer.length,
+      contentType: params.contentType || detectMimeType(buffer.subarray(0, MIME_SNIFF_BYTES), params.creative_asset_name),
+      checksum: params.checksum ? createHash(algorithm).update(buffer).digest('hex') : undefined,
+      open: async () => Readable.from([buffer])
+    };
+  }
+
+  if (params.filePath) {
+    const filePath = params.filePath;
+    const stats = await fs.stat(filePath);
+    return {
+      name: basename(filePath),
+      size: stats.size,
+      contentType: params.contentType || detectMimeType(await readHeader(filePath), filePath),
+      checksum: params.checksum ? await hashStream(createReadStream(filePath), algorithm) : undefined,
+      open: async () => createReadStream(filePath)
+    };
+  }
+
+  if (params.stream) {
+    const stream = params.stream;
+    const path = typeof (stream as any).path === 'string' ? (stream as any).path : undefined;
+    return {
+      name: path && basename(path),
+      contentType: params.contentType || detectMimeType(undefined, params.creative_asset_name || path),
+      open: async () => stream
+    };
+  }
+
+  const sourceUrl = params.sourceUrl as string;
+  const urlParts = sourceUrl.split(/[?#]/)[0].split('/');
+  const source: UploadSource = {
+    name: urlParts[urlParts.length - 1],
+    contentType: params.contentType || detectMimeType(undefined, sourceUrl),
+    open: async () => (await axios.get(sourceUrl, { responseType: 'stream' })).data
+  };
+
+  // Get file size if not provided
+  if (!params.size_in_bytes) {
+    try {
+      const headResponse = await axios.head(sourceUrl);
+      source.size = parseInt(headResponse.headers['content-length'] || '0', 10) || undefined;
+      source.contentType = source.contentType || headResponse.headers['content-type']?.split(';')[0];
+    } catch (_error) {
+      logger?.warn({ sourceUrl }, 'Unable to detect content-length of sourceUrl');
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Read the whole content of a source so it can be inspected, and make later
+ * open() calls replay it instead of reading the source again
+ */
+export async function bufferUploadSource(source: UploadSource): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await source.open()) {
+    chunks.push(Buffer.from(chunk));
+  }
+  const content = Buffer.concat(chunks);
+
+  source.size = source.size ?? content.length;
+  source.open = async () => Readable.from([content]);
+  return content;
+}
+
+/**
+ * Pass-through stream that counts and hashes the bytes flowing through it,
+ * reporting progress as it goes
+ */
+export class UploadTracker extends Transform {
+  public loaded = 0;
+  private hash: Hash;
+
+  constructor(
+    private total: number | undefined,
+    algorithm: ChecksumAlgorithm,
+    private onProgress?: (progress: UploadProgress) => void
+  ) {
+    super();
+    this.hash = createHash(algorithm);
+  }
+
+  get digest(): string {
+    return this.hash.copy().digest('hex');
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.loaded += chunk.length;
+    this.hash.update(chunk);
+    this.onProgress?.({
+      loaded: this.loaded,
+      total: this.total,
+      percent: this.total ? Math.min(100, Math.round((this.loaded / this.total) * 100)) : undefined
+    });
+    callback(null, chunk);
+  }
+}
+
+async function readHeader(filePath: string): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(MIME_SNIFF_BYTES);
+    const { bytesRead } = await handle.read(header, 0, MIME_SNIFF_BYTES, 0);
+    return header.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function hashStream(stream: Readable, algorithm: ChecksumAlgorithm): Promise<string> {
+  const hash = createHash(algorithm);
+  for await (const chunk of stream) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
@@ -0,0 +1,142 @@
+import {
+  BeeswaxAssetValidationError,
+  BeeswaxClient,
+  CreativeType,
+  inspectAsset,
+  validateCreativeAsset
+} from '../src';
+
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(24);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'latin1');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+function jpeg(width: number, height: number): Buffer {
+  const app0 = Buffer.alloc(18);
+  app0.writeUInt16BE(0xffe0, 0);
+  app0.writeUInt16BE(16, 2);
+  const sof = Buffer.alloc(19);
+  sof.writeUInt16BE(0xffc0, 0);
+  sof.writeUInt16BE(17, 2);
+  sof[4] = 8;
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof]);
+}
+
+function box(type: string, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+function mp4(seconds: number, width: number, height: number, mdatBytes = 1000): Buffer {
+  const mvhd = Buffer.alloc(100);
+  mvhd.writeUInt32BE(1000, 12); // timescale
+  mvhd.writeUInt32BE(seconds * 1000, 16); // duration
+  const tkhd = Buffer.alloc(84);
+  tkhd.writeUInt32BE(width * 65536, 76);
+  tkhd.writeUInt32BE(height * 65536, 80);
+
+  return Buffer.concat([
+    box('ftyp', Buffer.from('isom\0\0\0\0', 'latin1')),
+    box('moov', box('mvhd', mvhd), box('trak', box('tkhd', tkhd))),
+    box('mdat', Buffer.alloc(mdatBytes))
+  ]);
+}
+
+function zip(names: string[]): Buffer {
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  const entries = names.map(name => {
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(Buffer.byteLength(name), 28);
+    return Buffer.concat([entry, Buffer.from(name)]);
+  });
+  const directory = Buffer.concat(entries);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(names.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(local.length, 16);
+  return Buffer.concat([local, directory, eocd]);
+}
+
+describe('Creative asset validation', () => {
+  test('inspectAsset should read image dimensions from headers', () => {
+    expect(inspectAsset(png(300, 250))).toEqual(expect.objectContaining({ format: 'png', width: 300, height: 250 }));
+    expect(inspectAsset(jpeg(728, 90))).toEqual(expect.objectContaining({ format: 'jpeg', width: 728, height: 90 }));
+
+    const gif = Buffer.from('GIF89a\x40\x01\xfa\x00', 'latin1');
+    expect(inspectAsset(gif)).toEqual(expect.objectContaining({ format: 'gif', width: 320, height: 250 }));
+  });
+
+  test('inspectAsset should read MP4 duration, size and bitrate from boxes', () => {
+    const info = inspectAsset(mp4(30, 1280, 720, 375000));
+
+    expect(info).toEqual(expect.objectContaining({ format: 'mp4', duration: 30, width: 1280, height: 720 }));
+    expect(info.bitrate).toBe(Math.round((info.size * 8) / 30 / 1000));
+  });
+
+  test('inspectAsset should list HTML5 zip entries', () => {
+    expect(inspectAsset(zip(['ad/index.html', 'ad/main.js'])).files).toEqual(['ad/index.html', 'ad/main.js']);
+  });
+
+  test('should report dimension and format violations for display assets', () => {
+    const result = validateCreativeAsset(png(300, 600), { creativeType: CreativeType.DISPLAY, width: 300, height: 250 });
+
+    expect(result.valid).toBe(false);
+    expect(result.violations).toEqual([
+      expect.objectContaining({ code: 'dimensions', field: 'height', expected: 250, actual: 600 })
+    ]);
+
+    const video = validateCreativeAsset(mp4(10, 640, 360), { creativeType: CreativeType.DISPLAY });
+    expect(video.violations.map(violation => violation.code)).toEqual(['format']);
+  });
+
+  test('should apply video duration and bitrate rules', () => {
+    expect(validateCreativeAsset(mp4(30, 640, 360), { creativeType: CreativeType.VIDEO }).valid).toBe(true);
+
+    const result = validateCreativeAsset(mp4(240, 640, 360, 375000), { creativeType: CreativeType.VIDEO, maxBitrate: 1 });
+    expect(result.violations.map(violation => [violation.code, violation.field])).toEqual([
+      ['duration', 'duration'],
+      ['bitrate', 'bitrate']
+    ]);
+  });
+
+  test('should require index.html in HTML5 zips and size limits for native', () => {
+    const html5 = validateCreativeAsset(zip(['main.js']), { creativeType: CreativeType.DISPLAY });
+    expect(html5.violations).toEqual([expect.objectContaining({ code: 'missing_file', expected: 'index.html' })]);
+
+    const native = validateCreativeAsset(png(50, 50), { creativeType: CreativeType.NATIVE, maxSize: 10 });
+    expect(native.violations.map(violation => violation.code)).toEqual(['size', 'dimensions', 'dimensions']);
+  });
+
+  test('uploadCreativeAsset should fail validation before any API call', async () => {
+    const client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: false
+    });
+    const request = jest.spyOn(client, 'request');
+
+    const error = await client.uploadCreativeAsset({
+      advertiser_id: 1,
+      creative_asset_name: 'banner.png',
+      buffer: png(300, 600),
+      validate: { creativeType: CreativeType.DISPLAY, width: 300, height: 250 }
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BeeswaxAssetValidationError);
+    expect(error.fieldErrors).toEqual({ height: ['Height is 600px, expected exactly 250px'] });
+    expect(request).not.toHaveBeenCalled();
+  });
+});
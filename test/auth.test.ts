@@ -0,0 +1,257 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BeeswaxAuthError,
+  BeeswaxClient,
+  CookieAuthStrategy,
+  FileSessionStore,
+  MemorySessionStore,
+  PasswordAuthStrategy,
+  SessionStore,
+  TokenAuthStrategy
+} from '../src';
+
+type Handler = (config: InternalAxiosRequestConfig) => { status: number; data?: any; headers?: any };
+
+// Route the client's API and auth instances through fake handlers
+function mockHttp(client: BeeswaxClient, api: Handler, auth: Handler = () => ({ status: 200, data: { success: true } })) {
+  const respond = (handler: Handler) => async (config: InternalAxiosRequestConfig) => {
+    const { status, data = {}, headers = {} } = handler(config);
+    const response = { data, status, statusText: String(status), headers, config };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, response);
+    }
+    return response;
+  };
+
+  (client as any).axiosInstance.defaults.adapter = respond(api);
+  (client as any).authHttp.defaults.adapter = respond(auth);
+}
+
+describe('Authentication strategies', () => {
+  const apiRoot = 'https://example.api.beeswax.com';
+
+  test('password strategy logs in and re-authenticates once for concurrent 401s', async () => {
+    const client = new BeeswaxClient({
+      apiRoot,
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: false
+    });
+    let logins = 0;
+    mockHttp(
+      client,
+      config => config.headers.get('Cookie') === `session=${logins}` && logins > 1
+        ? { status: 200, data: { success: true, payload: [] } }
+        : { status: 401, data: { success: false } },
+      () => ({ status: 200, data: { success: true }, headers: { 'set-cookie': [`session=${++logins}`] } })
+    );
+
+    await client.authenticate();
+    expect(logins).toBe(1);
+
+    // session=1 is rejected; both requests share one new login and retry with session=2
+    const results = await Promise.all([client.request('GET', '/rest/campaign'), client.request('GET', '/rest/advertiser')]);
+    expect(results.map(result => result.success)).toEqual([true, true]);
+    expect(logins).toBe(2);
+  });
+
+  test('password strategy still requires email and password', () => {
+    expect(() => new BeeswaxClient({ apiRoot, creds: { email: '', password: '' } }))
+      .toThrow('Must provide creds object with email + password');
+    expect(() => new PasswordAuthStrategy({ email: 'a@example.com', password: '' })).toThrow();
+  });
+
+  test('token strategy sends a bearer token without creds', async () => {
+    const client = new BeeswaxClient({ apiRoot, auth: new TokenAuthStrategy('secret'), rateLimit: false });
+    const seen: string[] = [];
+    mockHttp(client, config => {
+      seen.push(String(config.headers.get('Authorization')));
+      return { status: 200, data: { success: true, payload: [] } };
+    });
+
+    await client.authenticate();
+    await client.request('GET', '/rest/campaign');
+
+    expect(seen).toEqual(['Bearer secret']);
+  });
+
+  test('token strategy keeps the token off other hosts', async () => {
+    const client = new BeeswaxClient({ apiRoot, auth: new TokenAuthStrategy('secret'), rateLimit: false });
+    const seen: Record<string, unknown> = {};
+    mockHttp(client, config => {
+      seen[client.isApiUrl(String(config.url)) ? 'api' : 'download'] = config.headers.get('Authorization');
+      return { status: 200, data: 'campaign_id\n42\n' };
+    });
+
+    // The first request going elsewhere doesn't move the token there
+    await client.request('GET', 'https://reports.s3.amazonaws.com/99.csv?X-Amz-Signature=abc');
+    await client.request('GET', '/rest/report_queue/download/99');
+
+    expect(seen).toEqual({ api: 'Bearer secret', download: undefined });
+
+    const pinned = new TokenAuthStrategy('secret', { apiRoot: 'https://other.api.beeswax.com' });
+    pinned.attach(apiRoot);
+    const headers: Record<string, any> = {};
+    pinned.applyAuth(headers, `${apiRoot}/rest/campaign`);
+    expect(headers).toEqual({});
+  });
+
+  test('token strategy refreshes on 401 when it can, otherwise surfaces the error', async () => {
+    const refresh = jest.fn(async () => 'fresh');
+    const refreshing = new BeeswaxClient({ apiRoot, auth: new TokenAuthStrategy('stale', { refresh }), rateLimit: false });
+    mockHttp(refreshing, config => config.headers.get('Authorization') === 'Bearer fresh'
+      ? { status: 200, data: { success: true, payload: [] } }
+      : { status: 401 });
+
+    await expect(refreshing.request('GET', '/rest/campaign')).resolves.toEqual({ success: true, payload: [] });
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    const fixed = new BeeswaxClient({ apiRoot, auth: new TokenAuthStrategy('stale', { header: 'X-Api-Key', scheme: '' }), rateLimit: false });
+    mockHttp(fixed, config => {
+      expect(config.headers.get('X-Api-Key')).toBe('stale');
+      return { status: 401 };
+    });
+    await expect(fixed.request('GET', '/rest/campaign')).rejects.toBeInstanceOf(BeeswaxAuthError);
+  });
+
+  test('cookie strategy reuses a session cookie and never logs in', async () => {
+    const client = new BeeswaxClient({ apiRoot, auth: new CookieAuthStrategy('session=abc'), rateLimit: false });
+    const login = jest.fn(() => ({ status: 200 }));
+    mockHttp(client, config => config.headers.get('Cookie') === 'session=abc'
+      ? { status: 200, data: { success: true, payload: [] } }
+      : { status: 401 }, login);
+
+    await client.authenticate();
+    await expect(client.request('GET', '/rest/campaign')).resolves.toEqual({ success: true, payload: [] });
+    expect(login).not.toHaveBeenCalled();
+  });
+});
+
+describe('Session stores', () => {
+  const apiRoot = 'https://example.api.beeswax.com';
+  const creds = { email: 'test@example.com', password: 'test_password' };
+
+  // Clients sharing `store` against an API that only accepts the latest session
+  function createWorkers(store: SessionStore, count: number) {
+    const state = { logins: 0 };
+    const clients = Array.from({ length: count }, () => {
+      const client = new BeeswaxClient({ apiRoot, creds, sessionStore: store, rateLimit: false });
+      mockHttp(
+        client,
+        config => config.headers.get('Cookie') === `session=${state.logins}`
+          ? { status: 200, data: { success: true, payload: [] } }
+          : { status: 401 },
+        () => ({ status: 200, data: { success: true }, headers: { 'set-cookie': [`session=${++state.logins}`] } })
+      );
+      return client;
+    });
+    return { state, clients };
+  }
+
+  test('clients sharing a store log in once and reuse the session', async () => {
+    const store = new MemorySessionStore();
+    const { state, clients } = createWorkers(store, 3);
+
+    await Promise.all(clients.map(client => client.authenticate()));
+    expect(state.logins).toBe(1);
+
+    await Promise.all(clients.map(client => client.request('GET', '/rest/campaign')));
+    expect(state.logins).toBe(1);
+  });
+
+  test('an expired session is refreshed once across clients', async () => {
+    const store = new MemorySessionStore();
+    const { state, clients } = createWorkers(store, 3);
+    await Promise.all(clients.map(client => client.authenticate()));
+
+    // The server invalidates session=1; every client gets a 401 at once
+    state.logins = 10;
+    const results = await Promise.all(clients.map(client => client.request('GET', '/rest/campaign')));
+
+    expect(results.every(result => result.success)).toBe(true);
+    expect(state.logins).toBe(11);
+    expect((await store.get(`beeswax:${apiRoot}:${creds.email}`))?.cookies).toBe('session=11');
+  });
+
+  test('FileSessionStore persists sessions and locks across instances', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'beeswax-sessions-'));
+    try {
+      const key = `beeswax:${apiRoot}:${creds.email}`;
+      const first = new FileSessionStore(directory);
+      const second = new FileSessionStore(directory);
+
+      await first.set(key, { cookies: 'session=1', createdAt: Date.now() });
+      expect(await second.get(key)).toEqual(expect.objectContaining({ cookies: 'session=1' }));
+
+      expect(await first.acquireLock(key, 1000)).toBe(true);
+      expect(await second.acquireLock(key, 1000)).toBe(false);
+      await first.releaseLock(key);
+      expect(await second.acquireLock(key, -1)).toBe(true);
+      // A lock past its ttl is taken over
+      expect(await first.acquireLock(key, 1000)).toBe(true);
+      await first.releaseLock(key);
+
+      // A new process picks up the stored session without logging in
+      const { state, clients: [client] } = createWorkers(second, 1);
+      state.logins = 1;
+      await client.authenticate();
+      await client.request('GET', '/rest/campaign');
+      expect(state.logins).toBe(1);
+    } finally {
+      await fs.rm(directory, { recursive: true });
+    }
+  });
+
+  test('FileSessionStore takes over dead locks once and releases only its own', async () => {
+    const directory = await fs.mkdtemp(join(tmpdir(), 'beeswax-sessions-'));
+    try {
+      const key = 'beeswax:lock';
+      const [dead, ...workers] = Array.from({ length: 5 }, () => new FileSessionStore(directory));
+
+      // A holder that died before writing its lock leaves an empty file
+      expect(await dead.acquireLock(key, 1000)).toBe(true);
+      const [lockName] = await fs.readdir(directory);
+      await fs.writeFile(join(directory, lockName), '');
+      expect(await workers[0].acquireLock(key, 1000)).toBe(false);
+      const past = new Date(Date.now() - 5000);
+      await fs.utimes(join(directory, lockName), past, past);
+
+      // Of the workers that all see the lock as stale, exactly one takes it over
+      const taken = await Promise.all(workers.map(worker => worker.acquireLock(key, 1000)));
+      expect(taken.filter(Boolean)).toHaveLength(1);
+      const holder = workers[taken.indexOf(true)];
+      const other = workers[taken.indexOf(false)];
+
+      // Releasing a lock you don't hold leaves the holder's alone
+      await dead.releaseLock(key);
+      await other.releaseLock(key);
+      expect(await other.acquireLock(key, 1000)).toBe(false);
+      await holder.releaseLock(key);
+      expect(await other.acquireLock(key, 1000)).toBe(true);
+      expect(await fs.readdir(directory)).toEqual([lockName]);
+    } finally {
+      await fs.rm(directory, { recursive: true });
+    }
+  });
+
+  test('MemorySessionStore releases only the lock its owner holds', async () => {
+    const store = new MemorySessionStore();
+    const key = 'beeswax:lock';
+
+    expect(await store.acquireLock(key, -1, 'expired')).toBe(true);
+    expect(await store.acquireLock(key, 1000, 'holder')).toBe(true);
+
+    // The holder whose lock expired can't release its successor's
+    await store.releaseLock(key, 'expired');
+    expect(await store.acquireLock(key, 1000, 'third')).toBe(false);
+    await store.releaseLock(key, 'holder');
+    expect(await store.acquireLock(key, 1000, 'third')).toBe(true);
+  });
+
+  test('PasswordAuthStrategy accepts a store directly', () => {
+    expect(() => new PasswordAuthStrategy(creds, { sessionStore: new MemorySessionStore(), sessionTtl: 1000 }))
+      .not.toThrow();
+  });
+});
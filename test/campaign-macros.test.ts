@@ -0,0 +1,120 @@
+import { BeeswaxClient, BeeswaxValidationError, CampaignCreationOptions } from '../src';
+
+describe('CampaignMacros', () => {
+  let client: BeeswaxClient;
+
+  const campaignOptions: CampaignCreationOptions = {
+    advertiser_id: 1,
+    name: 'Rollback Campaign',
+    budget: 1000,
+    start_date: '2024-01-01',
+    end_date: '2024-01-31',
+    line_items: [{
+      name: 'Line Item A',
+      budget: 500,
+      creatives: [{ name: 'Creative A', width: 300, height: 250 }]
+    }, {
+      name: 'Line Item B',
+      budget: 500,
+      creatives: [{ name: 'Creative B', width: 728, height: 90 }]
+    }]
+  };
+
+  beforeEach(() => {
+    client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' }
+    });
+
+    let nextId = 100;
+    jest.spyOn(client.campaigns, 'create').mockImplementation(async body => ({
+      success: true,
+      payload: { ...body, campaign_id: 1 } as any
+    }));
+    jest.spyOn(client, 'createLineItem').mockImplementation(async params => ({
+      success: true,
+      payload: { ...params, line_item_id: nextId++ }
+    }));
+    jest.spyOn(client.creatives, 'create').mockImplementation(async body => {
+      if (body.name === 'Creative B') {
+        throw new BeeswaxValidationError('creative_template_id: invalid', {}, { creative_template_id: ['invalid'] });
+      }
+      return { success: true, payload: { ...body, creative_id: nextId++ } as any };
+    });
+    jest.spyOn(client.creativeLineItems, 'create').mockImplementation(async body => ({
+      success: true,
+      payload: { ...body, cli_id: nextId++ } as any
+    }));
+
+    for (const resource of [client.campaigns, client.lineItems, client.creatives, client.creativeLineItems]) {
+      jest.spyOn(resource, 'delete').mockResolvedValue({ success: true });
+    }
+  });
+
+  describe('createFullCampaign', () => {
+    test('should skip failed entities and report them by default', async () => {
+      const response = await client.macros.createFullCampaign(campaignOptions);
+
+      expect(response.success).toBe(true);
+      expect(response.payload?.line_items).toHaveLength(2);
+      expect(response.payload?.creatives).toHaveLength(1);
+      expect(response.payload?.report?.failed).toEqual([
+        { type: 'creative', name: 'Creative B', error: 'creative_template_id: invalid' }
+      ]);
+      expect(response.payload?.report?.rolledBack).toEqual([]);
+      expect(client.campaigns.delete).not.toHaveBeenCalled();
+    });
+
+    test('should roll back in reverse dependency order when transactional', async () => {
+      const response = await client.macros.createFullCampaign(campaignOptions, { transactional: true });
+
+      expect(response.success).toBe(false);
+      expect(response.message).toBe('creative_template_id: invalid');
+
+      const report = response.payload!.report!;
+      expect(report.created.map(entity => entity.type)).toEqual([
+        'campaign', 'line_item', 'creative', 'creative_line_item', 'line_item'
+      ]);
+      expect(report.rolledBack.map(entity => `${entity.type}:${entity.id}`)).toEqual([
+        'creative_line_item:102',
+        'creative:101',
+        'line_item:103',
+        'line_item:100',
+        'campaign:1'
+      ]);
+      expect(report.rollbackFailed).toEqual([]);
+    });
+
+    test('should record entities that could not be rolled back', async () => {
+      jest.spyOn(client.campaigns, 'delete').mockRejectedValue(new Error('Campaign has spend'));
+
+      const response = await client.macros.createFullCampaign(campaignOptions, { transactional: true });
+
+      expect(response.payload?.report?.rollbackFailed).toEqual([
+        { type: 'campaign', id: 1, name: 'Rollback Campaign', error: 'Campaign has spend' }
+      ]);
+    });
+  });
+
+  describe('bulkUpdateCampaignStatus', () => {
+    test('should keep at most `concurrency` edits in flight', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      jest.spyOn(client.campaigns, 'edit').mockImplementation(async (...[id]) => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        if (id === 3) {
+          throw new Error('Campaign is archived');
+        }
+        return { success: true };
+      });
+
+      const response = await client.macros.bulkUpdateCampaignStatus([1, 2, 3, 4, 5, 6, 7], false, 2);
+
+      expect(response.payload).toEqual({ updated: 6, failed: 1 });
+      expect(peak).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { BeeswaxClient, CampaignCreationOptions, TargetingExpressionBuilder } from '../src';
+
+// Minimal in-memory stand-in for the v1 endpoints (plus v2 line item and
+// targeting expression endpoints) that plan/apply touch
+function createFakeApi(client: BeeswaxClient) {
+  const tables: Record<string, { idField: string; rows: Map<number, any> }> = {
+    '/rest/campaign': { idField: 'campaign_id', rows: new Map() },
+    '/rest/line_item': { idField: 'line_item_id', rows: new Map() },
+    '/rest/creative': { idField: 'creative_id', rows: new Map() },
+    '/rest/creative_line_item': { idField: 'cli_id', rows: new Map() }
+  };
+  const expressions = new Map<number, any>();
+  let nextId = 1;
+
+  const request = jest.spyOn(client, 'request').mockImplementation(async (method, endpoint, options) => {
+    const body = options?.body || {};
+
+    if (endpoint === '/rest/v2/line-items') {
+      const { id: _id, name, ...fields } = body;
+      const row = { ...fields, line_item_name: name, line_item_id: nextId++ };
+      tables['/rest/line_item'].rows.set(row.line_item_id, row);
+      return { ...body, id: row.line_item_id } as any;
+    }
+    if (endpoint.startsWith('/rest/v2/targeting-expressions')) {
+      const id = Number(endpoint.split('/')[4]);
+      if (method === 'POST') {
+        const expression = { ...body, id: nextId++ };
+        expressions.set(expression.id, expression);
+        return expression;
+      }
+      if (method === 'PATCH') {
+        expressions.set(id, { ...expressions.get(id), ...body });
+      }
+      return expressions.get(id);
+    }
+
+    const table = tables[endpoint.replace(/\/strict$/, '')];
+    if (method === 'GET') {
+      const { rows: _rows, offset = 0, sort_by: _sort_by, ...filter } = body;
+      const matches = Array.from(table.rows.values())
+        .filter(row => Object.entries(filter).every(([key, value]) => row[key] === value));
+      return { success: true, payload: matches.slice(offset, offset + (body.rows || matches.length)) };
+    }
+    if (method === 'POST') {
+      const id = nextId++;
+      table.rows.set(id, { ...body, [table.idField]: id });
+      return { success: true, payload: { id } };
+    }
+    if (method === 'PUT') {
+      const id = body[table.idField];
+      table.rows.set(id, { ...table.rows.get(id), ...body });
+      return { success: true, payload: [table.rows.get(id)] };
+    }
+    if (method === 'DELETE') {
+      table.rows.delete(body[table.idField]);
+      return { success: true, payload: [{}] };
+    }
+    throw new Error(`Unexpected ${method} ${endpoint}`);
+  });
+
+  return { tables, expressions, request };
+}
+
+describe('Campaign plan/apply', () => {
+  let client: BeeswaxClient;
+  let api: ReturnType<typeof createFakeApi>;
+
+  const spec: CampaignCreationOptions = {
+    advertiser_id: 1,
+    name: 'Declarative Campaign',
+    budget: 10000,
+    start_date: '2024-01-01',
+    end_date: '2024-03-31',
+    line_items: [{
+      name: 'Desktop',
+      budget: 5000,
+      bid_price: 2.5,
+      targeting: new TargetingExpressionBuilder().device({ include: { device_type: [1] } }),
+      creatives: [{ name: 'Leaderboard', width: 728, height: 90 }]
+    }, {
+      name: 'Mobile',
+      budget: 5000,
+      creatives: [{ name: 'Mobile Banner', width: 320, height: 50 }]
+    }]
+  };
+
+  beforeEach(() => {
+    client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: false
+    });
+    api = createFakeApi(client);
+  });
+
+  test('should plan creation of the whole tree for a new campaign', async () => {
+    const plan = await client.macros.plan(spec);
+
+    expect(plan.campaign.action).toBe('create');
+    expect(plan.line_items.map(li => li.action)).toEqual(['create', 'create']);
+    expect(plan.summary).toEqual({ create: 5, update: 0, delete: 0, noop: 0 });
+  });
+
+  test('should converge: re-planning after apply yields only no-ops', async () => {
+    const applied = await client.macros.apply(await client.macros.plan(spec));
+    expect(applied.success).toBe(true);
+    expect(api.tables['/rest/line_item'].rows.size).toBe(2);
+
+    const replan = await client.macros.plan(spec);
+    expect(replan.summary).toEqual({ create: 0, update: 0, delete: 0, noop: 5 });
+
+    // A second apply of a no-op plan does nothing
+    const reapplied = await client.macros.apply(replan);
+    expect(reapplied.payload?.operations).toEqual([]);
+    expect(api.tables['/rest/line_item'].rows.size).toBe(2);
+  });
+
+  test('should plan field updates, targeting changes and deletions', async () => {
+    await client.macros.apply(await client.macros.plan(spec));
+
+    const changed: CampaignCreationOptions = {
+      ...spec,
+      end_date: '2024-04-30',
+      line_items: [{
+        ...spec.line_items[0],
+        bid_price: 3,
+        targeting: new TargetingExpressionBuilder().device({ include: { device_type: [1, 2] } }),
+        creatives: []
+      }]
+    };
+
+    // Nothing is deleted unless pruning is asked for
+    const kept = await client.macros.plan(changed);
+    expect(kept.line_items.map(lineItem => lineItem.action)).toEqual(['update']);
+    expect(kept.line_items[0].creatives).toEqual([]);
+    expect(kept.summary.delete).toBe(0);
+
+    const plan = await client.macros.plan(changed, undefined, { prune: true });
+
+    expect(plan.campaign.changes).toEqual([{ field: 'end_date', from: '2024-03-31', to: '2024-04-30' }]);
+    const [desktop, mobile] = plan.line_items;
+    expect(desktop.action).toBe('update');
+    expect(desktop.changes.map(change => change.field)).toEqual(['bidding', 'targeting']);
+    expect(desktop.creatives.map(creative => creative.action)).toEqual(['delete']);
+    expect(mobile.action).toBe('delete');
+
+    const applied = await client.macros.apply(plan);
+    expect(applied.success).toBe(true);
+    expect(api.tables['/rest/line_item'].rows.size).toBe(1);
+    expect(api.tables['/rest/creative_line_item'].rows.size).toBe(0);
+    expect(Array.from(api.expressions.values())[0].targeting).toEqual({
+      device: [{ include: { device_type: [1, 2] } }]
+    });
+
+    const replan = await client.macros.plan(changed, undefined, { prune: true });
+    expect(replan.summary).toEqual({ create: 0, update: 0, delete: 0, noop: 2 });
+  });
+});
@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BeeswaxClient, BeeswaxNotFoundError, createConsoleLogger } from '../src';
+import { Cassette, MockBeeswaxServer } from '../src/testing';
+
+describe('Cassette', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'beeswax-cassette-'));
+    path = join(dir, 'nested', 'cassette.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // Record a short session against the mock server
+  async function record() {
+    const server = new MockBeeswaxServer({
+      seed: { advertiser: [{ advertiser_id: 1, advertiser_name: 'Acme', email: 'ops@acme.example' }] }
+    });
+    const cassette = await Cassette.open(path, { mode: 'record', redactFields: ['advertiser_name'], source: 'MockBeeswaxServer' });
+    const client = server.createClient({ logger: createConsoleLogger('silent'), ...cassette.clientOptions() });
+    await client.authenticate();
+
+    const created = await client.segments.create({ advertiser_id: 1, segment_name: 'Visitors' });
+    await client.advertisers.find(1);
+    await client.segments.find(999);
+    await client.campaigns.delete(999, true).catch(() => undefined);
+    await cassette.save();
+
+    return { server, cassette, segmentId: created.payload!.segment_id };
+  }
+
+  test('records sanitized request/response pairs', async () => {
+    const { server, cassette } = await record();
+    const file = JSON.parse(await fs.readFile(path, 'utf8'));
+
+    expect(file.version).toBe(1);
+    expect(file.source).toBe('MockBeeswaxServer');
+    expect(file.interactions).toEqual(cassette.interactions);
+    expect(file.interactions.map((interaction: any) => `${interaction.request.method} ${interaction.request.endpoint}`)).toEqual([
+      'POST /rest/segment/strict',
+      'GET /rest/segment',
+      'GET /rest/advertiser',
+      'GET /rest/segment',
+      'DELETE /rest/campaign/strict'
+    ]);
+    expect(file.interactions[2].response.payload[0]).toMatchObject({ email: '[REDACTED]', advertiser_name: '[REDACTED]' });
+    expect(file.interactions[4]).toMatchObject({ error: { status: 404, body: { message: 'Could not load object' } } });
+
+    // Login isn't part of the cassette, and no cookie made it in
+    expect(server.requests[0].path).toBe('/rest/authenticate');
+    expect(JSON.stringify(file)).not.toContain('beeswax_session');
+  });
+
+  test('replays responses and errors without network or login', async () => {
+    const { segmentId } = await record();
+
+    const cassette = await Cassette.open(path);
+    const client = new BeeswaxClient({ apiRoot: 'https://offline.example.com', ...cassette.clientOptions() });
+    await client.authenticate();
+    expect(cassette.source).toBe('MockBeeswaxServer');
+
+    const created = await client.segments.create({ advertiser_id: 1, segment_name: 'Visitors' });
+    expect(created.payload).toMatchObject({ segment_id: segmentId, segment_name: 'Visitors' });
+    expect((await client.advertisers.find(1)).payload).toMatchObject({ advertiser_id: 1, email: '[REDACTED]' });
+    expect((await client.segments.find(999)).payload).toBeUndefined();
+    await expect(client.campaigns.delete(999, true)).rejects.toBeInstanceOf(BeeswaxNotFoundError);
+
+    await expect(client.segments.find(12345)).rejects.toThrow(
+      `Cassette ${path} has no recorded response for GET /rest/segment`
+    );
+    await expect(client.getCurrentUser()).rejects.toThrow('Cassette replay is offline');
+  });
+
+  test('answers repeated requests in recorded order', async () => {
+    const server = new MockBeeswaxServer({
+      seed: {
+        advertiser: [{ advertiser_id: 1, advertiser_name: 'Acme' }],
+        segment: [{ segment_id: 7, advertiser_id: 1, segment_name: 'Before' }]
+      }
+    });
+    const recording = await Cassette.open(path, { mode: 'record' });
+    const recorder = server.createClient({ ...recording.clientOptions(), findBatching: false });
+    await recorder.segments.find(7);
+    await recorder.segments.edit(7, { segment_name: 'After' });
+    await recording.save();
+
+    const cassette = await Cassette.open(path);
+    const client = new BeeswaxClient({ apiRoot: server.apiRoot, ...cassette.clientOptions(), findBatching: false });
+    const names = async () => (await client.segments.find(7)).payload!.segment_name;
+
+    expect(await names()).toBe('Before');
+    await client.segments.edit(7, { segment_name: 'After' });
+    expect(await names()).toBe('After');
+    expect(await names()).toBe('After');
+  });
+
+  test('fails clearly when a cassette is missing', async () => {
+    await expect(Cassette.open(join(dir, 'missing.json'))).rejects.toThrow(/Can't replay cassette .*missing\.json/);
+  });
+});
@@ -0,0 +1,78 @@
+import { InternalAxiosRequestConfig } from 'axios';
+import { AuthStrategy, BeeswaxClient, BeeswaxClientPool, RateLimiter, TokenAuthStrategy } from '../src';
+
+// Token auth that counts logins instead of hitting the network
+function countingAuth(counter: { logins: number }, fail = false): AuthStrategy {
+  const strategy = new TokenAuthStrategy('secret');
+  strategy.authenticate = jest.fn(async () => {
+    counter.logins++;
+    if (fail) {
+      throw new Error('login failed');
+    }
+  });
+  return strategy;
+}
+
+function mockApi(client: BeeswaxClient, payload: any) {
+  (client as any).axiosInstance.defaults.adapter = async (config: InternalAxiosRequestConfig) =>
+    ({ data: { success: true, payload }, status: 200, statusText: 'OK', headers: {}, config });
+}
+
+describe('BeeswaxClientPool', () => {
+  test('accounts on the same host share one rate limiter', () => {
+    const pool = new BeeswaxClientPool({
+      accounts: {
+        east: { apiRoot: 'https://east.api.beeswax.com', auth: new TokenAuthStrategy('a') },
+        west: { apiRoot: 'https://west.api.beeswax.com', auth: new TokenAuthStrategy('b') },
+        eastTwo: { apiRoot: 'https://east.api.beeswax.com', auth: new TokenAuthStrategy('c') },
+        own: { apiRoot: 'https://east.api.beeswax.com', auth: new TokenAuthStrategy('d'), rateLimit: false }
+      }
+    });
+    const limiter = (name: string) => (pool.client(name) as any).rateLimiter;
+
+    expect(limiter('east')).toBeInstanceOf(RateLimiter);
+    expect(limiter('eastTwo')).toBe(limiter('east'));
+    expect(limiter('west')).not.toBe(limiter('east'));
+    expect(limiter('own')).toBeUndefined();
+    expect(pool.accounts).toEqual(['east', 'west', 'eastTwo', 'own']);
+  });
+
+  test('authenticates each account once, lazily', async () => {
+    const counter = { logins: 0 };
+    const pool = new BeeswaxClientPool({ defaults: { rateLimit: false } })
+      .add('main', { apiRoot: 'https://main.api.beeswax.com', auth: countingAuth(counter) });
+
+    expect(counter.logins).toBe(0);
+    const [first, second] = await Promise.all([pool.get('main'), pool.get('main')]);
+    await pool.get('main');
+
+    expect(first).toBe(second);
+    expect(counter.logins).toBe(1);
+    expect(() => pool.add('main', { apiRoot: 'https://main.api.beeswax.com' })).toThrow('already in the pool');
+    await expect(pool.get('missing')).rejects.toThrow('Unknown account: missing');
+  });
+
+  test('run tags results by account and captures failures', async () => {
+    const counter = { logins: 0 };
+    const pool = new BeeswaxClientPool({
+      defaults: { rateLimit: false },
+      accounts: {
+        a: { apiRoot: 'https://a.api.beeswax.com', auth: countingAuth(counter) },
+        b: { apiRoot: 'https://b.api.beeswax.com', auth: countingAuth(counter, true) },
+        c: { apiRoot: 'https://c.api.beeswax.com', auth: countingAuth(counter) }
+      }
+    });
+    mockApi(pool.client('a'), [{ campaign_id: 1 }]);
+    mockApi(pool.client('c'), [{ campaign_id: 2 }, { campaign_id: 3 }]);
+
+    const results = await pool.run(async client => (await client.campaigns.queryAll()).payload, { concurrency: 2 });
+
+    expect(results.map(result => [result.account, result.success])).toEqual([['a', true], ['b', false], ['c', true]]);
+    expect(results[0].result).toHaveLength(1);
+    expect(results[1].error?.message).toBe('login failed');
+    expect(results[2].result).toHaveLength(2);
+
+    const only = await pool.run(async (_client, account) => account.toUpperCase(), { accounts: ['c'] });
+    expect(only).toEqual([{ account: 'c', success: true, result: 'C' }]);
+  });
+});
@@ -0,0 +1,83 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { BeeswaxClient, CookieJar } from '../src';
+
+describe('CookieJar', () => {
+  const url = 'https://example.api.beeswax.com/rest/authenticate';
+
+  test('serializes only name=value pairs and merges updates', () => {
+    const jar = new CookieJar();
+    jar.setCookies([
+      'sessionid=abc; Path=/; HttpOnly; Secure; Expires=Wed, 21 Oct 2099 07:28:00 GMT',
+      'csrftoken=one; Path=/; SameSite=Lax'
+    ], url);
+    jar.setCookies('csrftoken=two; Path=/', 'https://example.api.beeswax.com/rest/campaign');
+
+    expect(jar.getCookieHeader('https://example.api.beeswax.com/rest/campaign')).toBe('sessionid=abc; csrftoken=two');
+    expect(jar.toJSON()).toHaveLength(2);
+  });
+
+  test('respects expiry, Max-Age and deletion', () => {
+    const jar = new CookieJar();
+    const now = Date.now();
+    jar.setCookie('short=1; Max-Age=60; Path=/', url, now);
+    jar.setCookie('gone=1; Expires=Thu, 01 Jan 1970 00:00:00 GMT; Path=/', url, now);
+    jar.setCookie('keep=1; Path=/', url, now);
+
+    expect(jar.getCookies('https://example.api.beeswax.com/', now).map(cookie => cookie.name)).toEqual(['short', 'keep']);
+    expect(jar.getCookies('https://example.api.beeswax.com/', now + 61000).map(cookie => cookie.name)).toEqual(['keep']);
+
+    jar.setCookie('keep=1; Max-Age=0; Path=/', url, now);
+    expect(jar.getCookieHeader('https://example.api.beeswax.com/')).toBe('');
+  });
+
+  test('matches domain, path and secure attributes', () => {
+    const jar = new CookieJar();
+    jar.setCookie('shared=1; Domain=.beeswax.com; Path=/', url);
+    jar.setCookie('scoped=1; Path=/rest/v2', url);
+    jar.setCookie('defaulted=1', url); // Default path is /rest
+    jar.setCookie('secure=1; Secure; Path=/', url);
+    jar.setCookie('foreign=1; Domain=example.org', url);
+
+    expect(jar.getCookieHeader('https://other.beeswax.com/')).toBe('shared=1');
+    expect(jar.getCookieHeader('http://example.api.beeswax.com/rest/v2/line-items'))
+      .toBe('scoped=1; defaulted=1; shared=1');
+    expect(jar.getCookieHeader('https://example.api.beeswax.com/rest/v2x')).toBe('defaulted=1; shared=1; secure=1');
+    expect(jar.getCookieHeader('https://example.api.beeswax.com/other')).toBe('shared=1; secure=1');
+  });
+
+  test('the client keeps cookies across responses and getCurrentUser uses them', async () => {
+    const client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: false
+    });
+    const cookiesSent: string[] = [];
+    const respond = (headers: any, data: any = { success: true, payload: [] }) =>
+      (config: InternalAxiosRequestConfig) => Promise.resolve({ data, status: 200, statusText: 'OK', headers, config });
+
+    (client as any).authHttp.defaults.adapter = respond({
+      'set-cookie': ['sessionid=abc; Path=/; HttpOnly', 'csrftoken=one; Path=/; Max-Age=3600']
+    });
+    (client as any).axiosInstance.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      cookiesSent.push(String(config.headers.get('Cookie')));
+      if (config.url === '/rest/user/current') {
+        throw new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, {}, {
+          data: { success: false, message: 'not allowed' }, status: 403, statusText: 'Forbidden', headers: {}, config
+        });
+      }
+      return respond({ 'set-cookie': ['csrftoken=two; Path=/'] })(config);
+    };
+
+    await client.authenticate();
+    await client.request('GET', '/rest/campaign');
+    await client.request('GET', '/rest/campaign');
+    const user = await client.getCurrentUser();
+
+    expect(cookiesSent).toEqual([
+      'sessionid=abc; csrftoken=one',
+      'sessionid=abc; csrftoken=two',
+      'sessionid=abc; csrftoken=two'
+    ]);
+    expect(user).toEqual({ success: false, message: 'not allowed' });
+  });
+});
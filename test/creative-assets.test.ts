@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import axios, { AxiosError } from 'axios';
+import FormData from 'form-data';
+import { BeeswaxClient, BeeswaxRateLimitError, BeeswaxUploadError, UploadProgress, detectMimeType } from '../src';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+  'base64'
+);
+const md5 = (content: Buffer) => createHash('md5').update(content).digest('hex');
+
+function readForm(form: FormData): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    form.on('data', chunk => chunks.push(Buffer.from(chunk)));
+    form.on('end', () => resolve(Buffer.concat(chunks).toString('latin1')));
+    form.on('error', reject);
+    form.resume();
+  });
+}
+
+function createAssetApi(client: BeeswaxClient) {
+  const calls: Array<{ method: string; endpoint: string; body?: any }> = [];
+  const uploads: string[] = [];
+
+  jest.spyOn(client, 'request').mockImplementation(async (method, endpoint, options) => {
+    calls.push({ method, endpoint, body: options?.body });
+
+    if (method === 'POST' && endpoint === '/rest/creative_asset') {
+      return { success: true, payload: { id: 5 } };
+    }
+    if (endpoint === '/rest/creative_asset/upload/5') {
+      uploads.push(await readForm(options?.body));
+      return { success: true, payload: [{}] };
+    }
+    if (method === 'GET' && endpoint === '/rest/creative_asset') {
+      return { success: true, payload: [{ creative_asset_id: 5, ...calls[0].body }] };
+    }
+    if (method === 'DELETE') {
+      return { success: true, payload: [{}] };
+    }
+    throw new Error(`Unexpected ${method} ${endpoint}`);
+  });
+
+  return { calls, uploads };
+}
+
+describe('Creative asset uploads', () => {
+  let client: BeeswaxClient;
+  let api: ReturnType<typeof createAssetApi>;
+
+  beforeEach(() => {
+    client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: false
+    });
+    api = createAssetApi(client);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should upload a Buffer with detected MIME type, size and progress', async () => {
+    const progress: UploadProgress[] = [];
+
+    const asset = await client.uploadCreativeAsset({
+      advertiser_id: 1,
+      creative_asset_name: 'pixel',
+      buffer: PNG,
+      checksum: md5(PNG),
+      onProgress: event => progress.push(event)
+    });
+
+    expect(asset.creative_asset_id).toBe(5);
+    expect(api.calls[0].body).toEqual(expect.objectContaining({
+      creative_asset_name: 'pixel',
+      size_in_bytes: PNG.length
+    }));
+    expect(api.uploads[0]).toContain('filename="pixel"');
+    expect(api.uploads[0]).toContain('Content-Type: image/png');
+    expect(api.uploads[0]).toContain(PNG.toString('latin1'));
+    expect(progress[progress.length - 1]).toEqual({ loaded: PNG.length, total: PNG.length, percent: 100 });
+  });
+
+  test('should upload a file from disk named after the file', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'beeswax-'));
+    const filePath = join(dir, 'banner.png');
+    await fs.writeFile(filePath, PNG);
+
+    try {
+      await client.uploadCreativeAsset({ advertiser_id: 1, filePath });
+    } finally {
+      await fs.rm(dir, { recursive: true });
+    }
+
+    expect(api.calls[0].body).toEqual(expect.objectContaining({
+      creative_asset_name: 'banner.png',
+      size_in_bytes: PNG.length
+    }));
+    expect(api.uploads[0]).toContain(PNG.toString('latin1'));
+  });
+
+  test('should reject a Buffer whose checksum does not match before creating the asset', async () => {
+    await expect(client.uploadCreativeAsset({ advertiser_id: 1, buffer: PNG, checksum: 'deadbeef' }))
+      .rejects.toBeInstanceOf(BeeswaxUploadError);
+    expect(api.calls).toHaveLength(0);
+  });
+
+  test('should delete a streamed asset whose checksum does not match', async () => {
+    const error = await client.uploadCreativeAsset({
+      advertiser_id: 1,
+      creative_asset_name: 'stream.png',
+      stream: Readable.from([PNG.subarray(0, 10), PNG.subarray(10)]),
+      checksum: 'deadbeef'
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BeeswaxUploadError);
+    expect(error.creativeAssetId).toBe(5);
+    expect(api.uploads[0]).toContain('Content-Type: image/png');
+    expect(api.calls[api.calls.length - 1]).toEqual(expect.objectContaining({ method: 'DELETE' }));
+  });
+
+  test('should delete the asset when the source fails mid-upload', async () => {
+    const stream = new Readable({ read() {} });
+    stream.push(PNG.subarray(0, 10));
+    setImmediate(() => stream.destroy(new Error('connection reset')));
+
+    const error = await client.uploadCreativeAsset({ advertiser_id: 1, creative_asset_name: 'broken.png', stream })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(BeeswaxUploadError);
+    expect(error.message).toBe('Reading broken.png failed during upload: connection reset');
+    expect(error.creativeAssetId).toBe(5);
+    expect(api.calls.map(call => call.method)).toEqual(['POST', 'POST', 'DELETE']);
+  });
+
+  test('should not create an asset when the source cannot be opened', async () => {
+    jest.spyOn(axios, 'head').mockResolvedValue({ headers: { 'content-length': '68' } });
+    jest.spyOn(axios, 'get').mockRejectedValue(new Error('getaddrinfo ENOTFOUND cdn.example.com'));
+
+    await expect(client.uploadCreativeAsset({ advertiser_id: 1, sourceUrl: 'https://cdn.example.com/banner.png' }))
+      .rejects.toThrow('Unable to read banner.png: getaddrinfo ENOTFOUND cdn.example.com');
+    expect(api.calls).toEqual([]);
+  });
+
+  test('should not retry a rate-limited upload with its consumed stream', async () => {
+    const limited = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: { maxRateLimitRetries: 3 }
+    });
+    const sent: string[] = [];
+    (limited as any).axiosInstance.defaults.adapter = async (config: any) => {
+      sent.push(`${config.method.toUpperCase()} ${config.url}`);
+      const upload = config.url.startsWith('/rest/creative_asset/upload');
+      const response = {
+        status: upload ? 429 : 200,
+        statusText: '',
+        headers: { 'retry-after': '0' },
+        config,
+        data: { success: !upload, payload: { id: 5 } }
+      };
+      if (upload) {
+        throw new AxiosError('Too Many Requests', 'ERR_BAD_REQUEST', config, {}, response as any);
+      }
+      return response;
+    };
+
+    await expect(limited.uploadCreativeAsset({ advertiser_id: 1, creative_asset_name: 'pixel.png', buffer: PNG }))
+      .rejects.toBeInstanceOf(BeeswaxRateLimitError);
+    expect(sent).toEqual([
+      'POST /rest/creative_asset',
+      'POST /rest/creative_asset/upload/5',
+      'DELETE /rest/creative_asset/strict'
+    ]);
+  });
+
+  test('should require exactly one source', async () => {
+    await expect(client.uploadCreativeAsset({ advertiser_id: 1 }))
+      .rejects.toThrow('requires exactly one of sourceUrl, filePath, buffer or stream');
+  });
+
+  test('detectMimeType should prefer content over the extension', () => {
+    expect(detectMimeType(PNG, 'banner.jpg')).toBe('image/png');
+    expect(detectMimeType(Buffer.from('plain'), 'clip.mp4')).toBe('video/mp4');
+    expect(detectMimeType(undefined, 'https://cdn.example.com/ad.zip?v=2')).toBe('application/zip');
+  });
+});
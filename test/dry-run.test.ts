@@ -0,0 +1,187 @@
+import { createHash } from 'crypto';
+import { BeeswaxClient, createConsoleLogger } from '../src';
+import { MockBeeswaxServer } from '../src/testing';
+
+const ADVERTISER_ID = 1;
+
+const campaignOptions = {
+  advertiser_id: ADVERTISER_ID,
+  name: 'Spring Sale',
+  budget: 5000,
+  start_date: '2025-03-01 00:00:00',
+  end_date: '2025-03-31 23:59:59'
+};
+
+function createServer() {
+  return new MockBeeswaxServer({
+    seed: {
+      advertiser: [{ advertiser_id: ADVERTISER_ID, advertiser_name: 'Acme', currency: 'EUR' }],
+      campaign: [{
+        campaign_id: 10,
+        advertiser_id: ADVERTISER_ID,
+        campaign_name: 'Winter Sale',
+        campaign_budget: 1000,
+        currency: 'EUR',
+        start_date: '2025-01-01 00:00:00',
+        end_date: '2025-01-31 23:59:59',
+        active: true
+      }],
+      line_item: [{
+        line_item_id: 20,
+        advertiser_id: ADVERTISER_ID,
+        campaign_id: 10,
+        line_item_name: 'Desktop',
+        line_item_type_id: 0,
+        line_item_budget: 500,
+        start_date: '2025-01-01 00:00:00',
+        end_date: '2025-01-31 23:59:59'
+      }]
+    }
+  });
+}
+
+// Requests other than reads and login that reached the server
+function writes(server: MockBeeswaxServer) {
+  return server.requests.filter(request => request.method !== 'GET' && request.path !== '/rest/authenticate');
+}
+
+describe('Dry run', () => {
+  let server: MockBeeswaxServer;
+  let client: BeeswaxClient;
+
+  beforeEach(async () => {
+    server = createServer();
+    client = server.createClient({ logger: createConsoleLogger('silent') });
+    await client.authenticate();
+  });
+
+  test('plans createFullCampaign with defaults resolved and synthetic ids threaded through', async () => {
+    const { result, calls } = await client.dryRun(() => client.macros.createFullCampaign({
+      ...campaignOptions,
+      line_items: [{
+        name: 'Desktop',
+        budget: 2000,
+        targeting: { platform: [{ include: { os: ['Windows'] } }] },
+        creatives: [{ name: 'Leaderboard', width: 728, height: 90 }]
+      }]
+    }));
+
+    expect(result.success).toBe(true);
+    expect(result.dryRun).toEqual(calls);
+    expect(calls.map(call => `${call.method} ${call.endpoint} ${call.id}`)).toEqual([
+      'POST /rest/campaign/strict -1',
+      'POST /rest/v2/targeting-expressions -2',
+      'POST /rest/v2/line-items -3',
+      'POST /rest/creative/strict -4',
+      'POST /rest/creative_line_item/strict -5'
+    ]);
+    expect(calls[0].body).toMatchObject({ campaign_name: 'Spring Sale', campaign_budget: 5000 });
+    expect(calls[2]).toMatchObject({
+      resource: 'line_item',
+      body: {
+        advertiser_id: ADVERTISER_ID,
+        campaign_id: -1,
+        targeting_expression_id: -2,
+        start_date: campaignOptions.start_date,
+        end_date: campaignOptions.end_date
+      }
+    });
+    expect(calls[4].body).toMatchObject({ creative_id: -4, line_item_id: -3 });
+    expect(result.payload!.campaign).toMatchObject({ campaign_id: -1, campaign_name: 'Spring Sale' });
+
+    expect(writes(server)).toEqual([]);
+    expect(server.list('campaign')).toHaveLength(1);
+  });
+
+  test('edits and deletes existing entities in a dryRun client without changing them', async () => {
+    const dryRunClient = server.createClient({ dryRun: true, logger: createConsoleLogger('silent') });
+
+    const edited = await dryRunClient.campaigns.edit(10, { name: 'Winter Clearance' });
+    expect(edited.payload).toMatchObject({ campaign_id: 10, campaign_name: 'Winter Clearance', campaign_budget: 1000 });
+    expect(edited.dryRun).toEqual([{
+      method: 'PUT',
+      endpoint: '/rest/campaign/strict',
+      resource: 'campaign',
+      body: { campaign_name: 'Winter Clearance', campaign_id: 10 },
+      id: 10
+    }]);
+
+    // Later reads of the same client see the planned writes
+    expect((await dryRunClient.campaigns.find(10)).payload!.campaign_name).toBe('Winter Clearance');
+    const deleted = await dryRunClient.lineItems.delete(20);
+    expect(deleted.dryRun).toEqual([expect.objectContaining({ method: 'DELETE', id: 20 })]);
+    expect((await dryRunClient.lineItems.query({ campaign_id: 10 })).payload).toEqual([]);
+    expect(await dryRunClient.lineItems.delete(20)).toMatchObject({ success: false, message: 'Not found' });
+
+    expect(writes(server)).toEqual([]);
+    expect(server.get('campaign', 10)).toMatchObject({ campaign_name: 'Winter Sale' });
+    expect(server.get('line_item', 20)).toBeDefined();
+
+    // Other clients are unaffected
+    expect((await client.campaigns.find(10)).payload!.campaign_name).toBe('Winter Sale');
+    expect((await client.campaigns.edit(10, { name: 'Sent' })).dryRun).toBeUndefined();
+  });
+
+  test('plans cloneCampaign from the live campaign tree', async () => {
+    const { result, calls } = await client.dryRun(() => client.macros.cloneCampaign(10, 'Winter Sale (copy)', {
+      budget_multiplier: 2
+    }));
+
+    expect(result.success).toBe(true);
+    expect(calls.map(call => `${call.method} ${call.endpoint}`)).toEqual([
+      'POST /rest/campaign/strict',
+      'POST /rest/v2/line-items'
+    ]);
+    expect(calls[0].body).toMatchObject({ campaign_budget: 2000, advertiser_id: ADVERTISER_ID });
+    expect(calls[1].body).toMatchObject({ campaign_id: -1, advertiser_id: ADVERTISER_ID, name: 'Desktop' });
+    expect(writes(server)).toEqual([]);
+  });
+
+  test('still validates inputs', async () => {
+    const { result, calls } = await client.dryRun(() => client.segments.create({}));
+    expect(result).toMatchObject({ success: false, message: 'Body must be non-empty object' });
+    expect(calls).toEqual([]);
+
+    await expect(client.dryRun(() => client.createLineItem({ campaign_id: 999, name: 'Orphan' })))
+      .rejects.toThrow('Campaign not found');
+    await expect(client.dryRun(() => client.segments.edit(-5, { segment_name: 'Unknown' }, true)))
+      .rejects.toMatchObject({ status: 404 });
+  });
+
+  test('reads upload content for checksums without uploading it', async () => {
+    const content = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>');
+    const checksum = createHash('md5').update(content).digest('hex');
+
+    const { result, calls } = await client.dryRun(() => client.uploadCreativeAsset({
+      advertiser_id: ADVERTISER_ID,
+      creative_asset_name: 'logo.svg',
+      buffer: content,
+      contentType: 'image/svg+xml',
+      checksum
+    }));
+
+    expect(result).toMatchObject({ creative_asset_id: -1, creative_asset_name: 'logo.svg', size_in_bytes: content.length });
+    expect(calls.map(call => `${call.method} ${call.endpoint}`)).toEqual([
+      'POST /rest/creative_asset',
+      'POST /rest/creative_asset/upload/-1'
+    ]);
+    expect(calls[1].body).toMatch(/^\[multipart: \d+ bytes\]$/);
+    expect(writes(server)).toEqual([]);
+  });
+
+  test('answers v2 writes in the v2 shape', async () => {
+    const v2 = server.createClient({ apiVersion: 'v2', dryRun: true, logger: createConsoleLogger('silent') });
+
+    const created = await v2.campaigns.create({ ...campaignOptions, budget_type: 0 });
+    expect(created.payload).toMatchObject({ id: -1, campaign_id: -1, name: 'Spring Sale' });
+    expect(created.dryRun).toEqual([expect.objectContaining({ method: 'POST', endpoint: '/rest/v2/campaigns', id: -1 })]);
+
+    const edited = await v2.campaigns.edit(10, { budget: 1500 });
+    expect(edited.payload).toMatchObject({ id: 10, name: 'Winter Sale', budget: 1500 });
+    expect((await v2.campaigns.find(-1)).payload).toMatchObject({ name: 'Spring Sale' });
+
+    await v2.campaigns.delete(-1);
+    expect((await v2.campaigns.find(-1)).payload).toBeUndefined();
+    expect(writes(server)).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  BeeswaxClient,
+  BeeswaxAuthError,
+  BeeswaxError,
+  BeeswaxNetworkError,
+  BeeswaxNotFoundError,
+  BeeswaxRateLimitError,
+  BeeswaxServerError,
+  BeeswaxValidationError,
+  createBeeswaxError,
+  toBeeswaxError
+} from '../src';
+
+describe('Beeswax errors', () => {
+  const context = { endpoint: '/rest/campaign/strict', method: 'PUT' };
+
+  test('maps HTTP status codes to error classes', () => {
+    expect(createBeeswaxError(401, {}, context)).toBeInstanceOf(BeeswaxAuthError);
+    expect(createBeeswaxError(404, {}, context)).toBeInstanceOf(BeeswaxNotFoundError);
+    expect(createBeeswaxError(429, {}, context)).toBeInstanceOf(BeeswaxRateLimitError);
+    expect(createBeeswaxError(503, {}, context)).toBeInstanceOf(BeeswaxServerError);
+    expect(createBeeswaxError(400, {}, context)).toBeInstanceOf(BeeswaxValidationError);
+    expect(createBeeswaxError(400, {}, context)).toBeInstanceOf(BeeswaxError);
+  });
+
+  test('parses payload messages and field errors', () => {
+    const error = createBeeswaxError(400, {
+      success: false,
+      payload: [{ message: ['campaign_budget: must be a positive number', 'Something else went wrong'] }]
+    }, context) as BeeswaxValidationError;
+
+    expect(error.messages).toEqual(['campaign_budget: must be a positive number', 'Something else went wrong']);
+    expect(error.fieldErrors).toEqual({
+      campaign_budget: ['must be a positive number'],
+      _general: ['Something else went wrong']
+    });
+    expect(error.endpoint).toBe('/rest/campaign/strict');
+    expect(error.method).toBe('PUT');
+    expect(error.message).toContain('PUT /rest/campaign/strict failed');
+  });
+
+  test('treats "Could not load object" messages as not found', () => {
+    const error = createBeeswaxError(406, {
+      success: false,
+      payload: [{ message: ['Could not load object 123 to update'] }]
+    }, context);
+
+    expect(error).toBeInstanceOf(BeeswaxNotFoundError);
+  });
+
+  test('converts axios errors with and without a response', () => {
+    const rateLimited = toBeeswaxError({
+      isAxiosError: true,
+      response: { status: 429, data: {}, headers: { 'retry-after': '7', 'x-request-id': 'abc' } }
+    }, context) as BeeswaxRateLimitError;
+
+    expect(rateLimited).toBeInstanceOf(BeeswaxRateLimitError);
+    expect(rateLimited.retryAfter).toBe(7);
+    expect(rateLimited.requestId).toBe('abc');
+
+    const network = toBeeswaxError({ isAxiosError: true, message: 'socket hang up' }, context);
+    expect(network).toBeInstanceOf(BeeswaxNetworkError);
+    expect(network.message).toContain('socket hang up');
+  });
+
+  test('resources report not found on edit and delete instead of throwing', async () => {
+    const client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' }
+    });
+    jest.spyOn(client, 'request').mockRejectedValue(createBeeswaxError(404, {}, context));
+
+    await expect(client.campaigns.edit(1, { active: false })).resolves.toMatchObject({ success: false, message: 'Not found' });
+    await expect(client.campaigns.delete(1)).resolves.toMatchObject({ success: false, message: 'Not found' });
+    await expect(client.campaigns.delete(1, true)).rejects.toBeInstanceOf(BeeswaxNotFoundError);
+  });
+});
@@ -0,0 +1,147 @@
+import { BatchLoader, BatchLoaderOptions, BeeswaxClient, BeeswaxValidationError } from '../src';
+
+describe('find() batching', () => {
+  function createClient(findBatching: BatchLoaderOptions | boolean = true, apiVersion: 'v1' | 'v2' = 'v1') {
+    const client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      apiVersion,
+      findBatching,
+      rateLimit: false
+    });
+    const request = jest.spyOn(client, 'request').mockImplementation(async (_method, endpoint, options) => {
+      if (apiVersion === 'v2') {
+        const ids: string[] = options?.params?.id ? String(options.params.id).split(',') : [endpoint.split('/').pop()!];
+        return { results: ids.filter(id => id !== '404').map(id => ({ id: Number(id) })) } as any;
+      }
+      const ids = String(options?.body?.campaign_id ?? '').split(',').filter(id => id && id !== '404');
+      return { success: true, payload: ids.map(id => ({ campaign_id: Number(id), campaign_name: `Campaign ${id}` })) };
+    });
+    return { client, request };
+  }
+
+  test('concurrent finds on a resource become one list query', async () => {
+    const { client, request } = createClient();
+
+    const results = await Promise.all([3, 1, 404, 2].map(id => client.campaigns.find(id)));
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request).toHaveBeenCalledWith('GET', '/rest/campaign', { body: { campaign_id: '3,1,404,2', rows: 4 } });
+    expect(results.map(result => result.payload?.campaign_id)).toEqual([3, 1, undefined, 2]);
+    expect(results.every(result => result.success)).toBe(true);
+  });
+
+  test('the same id in flight shares one request and a lone find is unchanged', async () => {
+    const { client, request } = createClient();
+
+    const [first, second] = await Promise.all([client.campaigns.find(5), client.campaigns.find('5')]);
+    await client.campaigns.find(6);
+
+    expect(first.payload).toBe(second.payload);
+    expect(request.mock.calls).toEqual([
+      ['GET', '/rest/campaign', { body: { campaign_id: 5 } }],
+      ['GET', '/rest/campaign', { body: { campaign_id: 6 } }]
+    ]);
+  });
+
+  test('the same id in flight shares one request with batching off', async () => {
+    const { client, request } = createClient(false);
+
+    const [first, second] = await Promise.all([client.campaigns.find(1), client.campaigns.find('1')]);
+    await client.campaigns.find(1);
+
+    expect(first.payload).toBe(second.payload);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  test('batches are split at maxBatchSize and are off by default', async () => {
+    const batched = createClient({ maxBatchSize: 2 });
+    await Promise.all([1, 2, 3].map(id => batched.client.campaigns.find(id)));
+    expect(batched.request).toHaveBeenCalledTimes(2);
+
+    const unbatched = createClient(false);
+    await Promise.all([1, 2, 3].map(id => unbatched.client.campaigns.find(id)));
+    expect(unbatched.request).toHaveBeenCalledTimes(3);
+    const creds = { email: 'test@example.com', password: 'test_password' };
+    expect(new BeeswaxClient({ apiRoot: 'https://example.api.beeswax.com', creds }).findBatching).toBe(false);
+  });
+
+  test('falls back to single finds when the endpoint rejects id lists', async () => {
+    const { client, request } = createClient();
+    request.mockImplementation(async (_method, _endpoint, options) => {
+      if (String(options?.body?.campaign_id).includes(',')) {
+        throw new BeeswaxValidationError('Invalid campaign_id', { status: 400 });
+      }
+      return { success: true, payload: [{ campaign_id: options?.body?.campaign_id }] };
+    });
+
+    const results = await Promise.all([1, 2].map(id => client.campaigns.find(id)));
+    await Promise.all([3, 4].map(id => client.campaigns.find(id)));
+
+    expect(results.map(result => result.payload?.campaign_id)).toEqual([1, 2]);
+    // One rejected list query, then single finds from then on
+    expect(request).toHaveBeenCalledTimes(5);
+  });
+
+  test('v2 resources batch with an id filter', async () => {
+    const { client, request } = createClient(undefined, 'v2');
+
+    const results = await Promise.all([7, 8].map(id => client.campaigns.find(id)));
+
+    expect(request).toHaveBeenCalledWith('GET', '/rest/v2/campaigns', { params: { id: '7,8', limit: 2 } });
+    expect(results.map(result => result.payload?.campaign_id)).toEqual([7, 8]);
+  });
+
+  test('identical concurrent queries share one request', async () => {
+    const { client, request } = createClient();
+
+    await Promise.all([
+      client.campaigns.query({ advertiser_id: 1, active: true }),
+      client.campaigns.query({ active: true, advertiser_id: 1 }),
+      client.campaigns.query({ advertiser_id: 2 })
+    ]);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  test('reads after a write do not share requests sent before it', async () => {
+    const { client, request } = createClient();
+    let name = 'Before';
+    const sent: Array<() => void> = [];
+    request.mockImplementation(async (method, _endpoint, options) => {
+      if (method === 'PUT') {
+        name = options?.body?.campaign_name;
+        return { success: true, payload: [] };
+      }
+      // Answer with the name at the time the request was sent, once released
+      const payload = [{ campaign_id: 5, campaign_name: name }];
+      await new Promise<void>(resolve => sent.push(resolve));
+      return { success: true, payload };
+    });
+
+    const find = client.campaigns.find(5);
+    const query = client.campaigns.query({ advertiser_id: 1 });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(sent).toHaveLength(2);
+
+    const edit = client.campaigns.edit(5, { campaign_name: 'After' });
+    await new Promise(resolve => setImmediate(resolve));
+    const laterFind = client.campaigns.find(5);
+    const laterQuery = client.campaigns.query({ advertiser_id: 1 });
+    await new Promise(resolve => setImmediate(resolve));
+    sent.forEach(resolve => resolve());
+    await new Promise(resolve => setImmediate(resolve));
+    sent.forEach(resolve => resolve());
+
+    expect((await find).payload?.campaign_name).toBe('Before');
+    expect((await query).payload?.[0].campaign_name).toBe('Before');
+    expect((await edit).payload?.campaign_name).toBe('After');
+    expect((await laterFind).payload?.campaign_name).toBe('After');
+    expect((await laterQuery).payload?.[0].campaign_name).toBe('After');
+  });
+
+  test('BatchLoader rejects every key of a failed batch', async () => {
+    const loader = new BatchLoader<number, number>(async () => { throw new Error('down'); });
+    await expect(Promise.all([loader.load(1), loader.load(2)])).rejects.toThrow('down');
+  });
+});
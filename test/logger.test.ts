@@ -0,0 +1,134 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import {
+  BeeswaxClient,
+  BeeswaxNotFoundError,
+  LogFields,
+  Logger,
+  REDACTED,
+  createConsoleLogger,
+  fromMessageFirstLogger,
+  redact
+} from '../src';
+
+type Entry = { level: string; fields: LogFields; message: string };
+
+function createMemoryLogger() {
+  const entries: Entry[] = [];
+  const write = (level: string) => (fields: LogFields, message: string) => entries.push({ level, fields, message });
+  const logger: Logger = { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+  return { logger, entries };
+}
+
+describe('Logging', () => {
+  const apiRoot = 'https://example.api.beeswax.com';
+
+  test('redact replaces credentials, cookies and PII at any depth', () => {
+    const input = {
+      email: 'a@example.com',
+      password: 'secret',
+      headers: { Cookie: 'sessionid=abc', Accept: 'application/json' },
+      users: [{ first_name: 'Ann', user_id: 1 }],
+      empty: null
+    };
+
+    expect(redact(input)).toEqual({
+      email: REDACTED,
+      password: REDACTED,
+      headers: { Cookie: REDACTED, Accept: 'application/json' },
+      users: [{ first_name: REDACTED, user_id: 1 }],
+      empty: null
+    });
+    expect(input.password).toBe('secret');
+    expect(redact({ notes: 'x', budget: 5 }, ['notes'])).toEqual({ notes: REDACTED, budget: 5 });
+  });
+
+  test('console logger honours its level and message-first loggers are adapted', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      const logger = createConsoleLogger('warn');
+      logger.debug({}, 'hidden');
+      logger.warn({ id: 1 }, 'shown');
+      createConsoleLogger('silent').error({}, 'hidden');
+
+      expect(log).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toBe('[beeswax] shown');
+    } finally {
+      warn.mockRestore();
+      log.mockRestore();
+    }
+
+    const winston = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    fromMessageFirstLogger(winston).info({ id: 1 }, 'hello');
+    expect(winston.info).toHaveBeenCalledWith('hello', { id: 1 });
+  });
+
+  test('requests are logged with a correlation id, timing and redacted bodies', async () => {
+    const { logger, entries } = createMemoryLogger();
+    const client = new BeeswaxClient({
+      apiRoot,
+      creds: { email: 'test@example.com', password: 'test_password' },
+      logger,
+      redactFields: ['notes'],
+      rateLimit: false
+    });
+    (client as any).axiosInstance.defaults.adapter = async (config: InternalAxiosRequestConfig) =>
+      ({ data: { success: true, payload: [{ user_id: 1, email: 'user@example.com' }] }, status: 200, statusText: 'OK', headers: { 'x-request-id': 'req-1' }, config });
+
+    await client.request('POST', '/rest/user', { body: { email: 'user@example.com', notes: 'private', active: true } });
+
+    const [request, response] = entries;
+    expect(request).toEqual({
+      level: 'debug',
+      message: 'Beeswax request',
+      fields: expect.objectContaining({ method: 'POST', endpoint: '/rest/user', body: { email: REDACTED, notes: REDACTED, active: true } })
+    });
+    expect(response.message).toBe('Beeswax response');
+    expect(response.fields).toEqual(expect.objectContaining({
+      correlationId: request.fields.correlationId,
+      status: 200,
+      requestId: 'req-1',
+      durationMs: expect.any(Number),
+      body: { success: true, payload: [{ user_id: 1, email: REDACTED }] }
+    }));
+    expect(JSON.stringify(entries)).not.toContain('user@example.com');
+  });
+
+  test('failed requests and skipped macro steps go through the logger', async () => {
+    const { logger, entries } = createMemoryLogger();
+    const client = new BeeswaxClient({ apiRoot, creds: { email: 'test@example.com', password: 'x' }, logger, rateLimit: false });
+    (client as any).axiosInstance.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      throw new AxiosError('Not found', 'ERR_BAD_REQUEST', config, {}, {
+        data: { success: false, message: 'Campaign not found' }, status: 404, statusText: 'Not Found', headers: {}, config
+      });
+    };
+
+    await expect(client.request('GET', '/rest/campaign')).rejects.toBeInstanceOf(BeeswaxNotFoundError);
+    expect(entries[1]).toEqual({
+      level: 'info',
+      message: 'Beeswax request failed',
+      fields: expect.objectContaining({
+        correlationId: entries[0].fields.correlationId,
+        durationMs: expect.any(Number),
+        error: expect.objectContaining({ name: 'BeeswaxNotFoundError', status: 404 })
+      })
+    });
+
+    jest.spyOn(client.campaigns, 'create').mockImplementation(async body => ({ success: true, payload: { ...body, campaign_id: 1 } as any }));
+    jest.spyOn(client, 'createLineItem').mockRejectedValue(new Error('bad line item'));
+    await client.macros.createFullCampaign({
+      advertiser_id: 1,
+      name: 'Test',
+      start_date: '2024-01-01',
+      end_date: '2024-01-31',
+      line_items: [{ name: 'Broken', budget: 100 }]
+    });
+
+    expect(entries.find(entry => entry.level === 'warn')).toEqual({
+      level: 'warn',
+      message: 'Failed to create line item, skipping',
+      fields: expect.objectContaining({ type: 'line_item', name: 'Broken', error: expect.objectContaining({ message: 'bad line item' }) })
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { BeeswaxClient, BeeswaxServerError, Middleware, RequestContext } from '../src';
+
+describe('Middleware', () => {
+  let client: BeeswaxClient;
+  let sent: InternalAxiosRequestConfig[];
+
+  beforeEach(() => {
+    client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: false
+    });
+    sent = [];
+    (client as any).axiosInstance.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      sent.push(config);
+      if (config.url === '/rest/segment') {
+        throw new AxiosError('Server error', 'ERR_BAD_RESPONSE', config, {}, {
+          data: { success: false, message: 'boom' }, status: 500, statusText: 'Error', headers: {}, config
+        });
+      }
+      return { data: { success: true, payload: [{ campaign_id: 1 }] }, status: 200, statusText: 'OK', headers: {}, config };
+    };
+  });
+
+  test('hooks see the resource and can rewrite requests and responses', async () => {
+    const calls: string[] = [];
+    const seen: RequestContext[] = [];
+    client
+      .use({
+        before: context => {
+          calls.push('tenant:before');
+          seen.push(context);
+          context.headers['X-Tenant'] = 'acme';
+          context.body = { ...context.body, name: undefined, campaign_name: context.body.name };
+        },
+        after: (_context, response) => {
+          calls.push('tenant:after');
+          return { ...response, message: 'tagged' };
+        }
+      })
+      .use({
+        before: () => { calls.push('audit:before'); },
+        after: (_context, response) => { calls.push(`audit:after:${response.message}`); }
+      });
+
+    const response = await client.request('POST', '/rest/campaign/strict', { body: { name: 'Spring' } });
+
+    expect(calls).toEqual(['tenant:before', 'audit:before', 'audit:after:undefined', 'tenant:after']);
+    expect(response.message).toBe('tagged');
+    expect(seen[0]).toEqual(expect.objectContaining({ method: 'POST', endpoint: '/rest/campaign/strict', resource: 'campaign' }));
+    expect(sent[0].headers.get('X-Tenant')).toBe('acme');
+    expect(JSON.parse(sent[0].data)).toEqual({ campaign_name: 'Spring' });
+  });
+
+  test('before can short-circuit and resources pass their name', async () => {
+    const cache = new Map<string, any>();
+    const later: Middleware = { before: jest.fn(), after: jest.fn() };
+    client.use({
+      before: context => cache.get(context.endpoint),
+      after: (context, response) => { cache.set(context.endpoint, response); }
+    }).use(later);
+
+    await client.lineItems.query({ advertiser_id: 1 });
+    const cached = await client.lineItems.query({ advertiser_id: 1 });
+
+    expect(sent).toHaveLength(1);
+    expect(cached.payload).toEqual([{ campaign_id: 1 }]);
+    expect(later.before).toHaveBeenCalledTimes(1);
+    expect((later.before as jest.Mock).mock.calls[0][0].resource).toBe('line_item');
+    expect(later.after).toHaveBeenCalledTimes(1);
+  });
+
+  test('onError sees typed errors and can recover', async () => {
+    const errors: any[] = [];
+    client.use({ onError: (_context, error) => { errors.push(error); } });
+
+    await expect(client.segments.query()).rejects.toBeInstanceOf(BeeswaxServerError);
+    expect(errors[0]).toBeInstanceOf(BeeswaxServerError);
+
+    client.use({ onError: context => ({ success: true, payload: [], message: `fallback for ${context.resource}` }) });
+    await expect(client.request('GET', '/rest/segment')).resolves.toEqual({ success: true, payload: [], message: 'fallback for segment' });
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,254 @@
+import {
+  BeeswaxAuthError,
+  BeeswaxClient,
+  BeeswaxValidationError,
+  CookieAuthStrategy,
+  TokenAuthStrategy,
+  createConsoleLogger
+} from '../src';
+import { MockBeeswaxServer } from '../src/testing';
+
+const ADVERTISER_ID = 1;
+const OTHER_ADVERTISER_ID = 2;
+
+function createServer() {
+  return new MockBeeswaxServer({
+    seed: {
+      advertiser: [
+        { advertiser_id: ADVERTISER_ID, advertiser_name: 'Acme' },
+        { advertiser_id: OTHER_ADVERTISER_ID, advertiser_name: 'Globex' }
+      ]
+    }
+  });
+}
+
+const campaignOptions = {
+  advertiser_id: ADVERTISER_ID,
+  name: 'Spring Sale',
+  budget: 5000,
+  start_date: '2025-03-01 00:00:00',
+  end_date: '2025-03-31 23:59:59'
+};
+
+describe('MockBeeswaxServer', () => {
+  let server: MockBeeswaxServer;
+  let client: BeeswaxClient;
+
+  beforeEach(async () => {
+    server = createServer();
+    client = server.createClient({ logger: createConsoleLogger('silent') });
+    await client.authenticate();
+  });
+
+  test('requires a session or a known API token', async () => {
+    const anonymous = new BeeswaxClient({
+      apiRoot: server.apiRoot,
+      auth: new CookieAuthStrategy('beeswax_session=stolen'),
+      adapter: server.adapter,
+      rateLimit: false
+    });
+    await expect(anonymous.advertisers.find(ADVERTISER_ID)).rejects.toBeInstanceOf(BeeswaxAuthError);
+
+    const wrongPassword = server.createClient({ creds: { email: 'test@example.com', password: 'nope' } });
+    await expect(wrongPassword.authenticate()).rejects.toBeInstanceOf(BeeswaxAuthError);
+
+    const tokenServer = new MockBeeswaxServer({ tokens: ['api-token'] });
+    const tokenClient = tokenServer.createClient({ auth: new TokenAuthStrategy('api-token') });
+    await expect(tokenClient.advertisers.query()).resolves.toMatchObject({ success: true, payload: [] });
+  });
+
+  test('logs in again once the session expires', async () => {
+    server.expireSessions();
+
+    const response = await client.advertisers.find(ADVERTISER_ID);
+
+    expect(response.payload).toMatchObject({ advertiser_name: 'Acme' });
+    expect(server.requests.map(request => `${request.status} ${request.path}`)).toEqual([
+      '200 /rest/authenticate',
+      '401 /rest/advertiser',
+      '200 /rest/authenticate',
+      '200 /rest/advertiser'
+    ]);
+  });
+
+  test('supports v1 CRUD with filtering and paging', async () => {
+    const created = await client.segments.create({ advertiser_id: ADVERTISER_ID, segment_name: 'Visitors' });
+    const segmentId = created.payload!.segment_id;
+    await client.segments.create({ advertiser_id: OTHER_ADVERTISER_ID, segment_name: 'Buyers' });
+
+    const edited = await client.segments.edit(segmentId, { segment_name: 'Site Visitors' });
+    expect(edited.payload).toMatchObject({ segment_id: segmentId, segment_name: 'Site Visitors', advertiser_id: ADVERTISER_ID });
+
+    const forAdvertiser = await client.segments.query({ advertiser_id: ADVERTISER_ID });
+    expect(forAdvertiser.payload!.map(segment => segment.segment_name)).toEqual(['Site Visitors']);
+
+    const page = await client.segments.query({ rows: 1, offset: 1, sort_by: 'segment_name' });
+    expect(page.payload!.map(segment => segment.segment_name)).toEqual(['Site Visitors']);
+
+    await client.segments.delete(segmentId);
+    expect(server.get('segment', segmentId)).toBeUndefined();
+    expect(await client.segments.delete(segmentId)).toMatchObject({ success: false, message: 'Not found' });
+  });
+
+  test('rejects invalid entities with field errors', async () => {
+    const error = await client.campaigns.create({
+      advertiser_id: ADVERTISER_ID,
+      budget: -10,
+      start_date: '2025-03-31',
+      end_date: '2025-03-01'
+    }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(BeeswaxValidationError);
+    expect(error.fieldErrors).toEqual({
+      campaign_name: ['This field is required.'],
+      end_date: ['must be after start_date'],
+      campaign_budget: ['must not be negative']
+    });
+    expect(server.list('campaign')).toEqual([]);
+  });
+
+  test('enforces referential integrity', async () => {
+    await expect(client.campaigns.create({ ...campaignOptions, advertiser_id: 99 }))
+      .rejects.toMatchObject({ fieldErrors: { advertiser_id: ['advertiser 99 does not exist'] } });
+
+    const campaign = (await client.campaigns.create(campaignOptions)).payload!;
+    await client.createLineItem({ campaign_id: campaign.campaign_id!, name: 'Banner' });
+
+    // Creatives of one advertiser can't serve on another advertiser's line items
+    const lineItem = server.list('line_item')[0];
+    const creative = await client.creatives.create({
+      advertiser_id: OTHER_ADVERTISER_ID,
+      name: 'Globex Banner',
+      type: 'display',
+      creative_template_id: 1
+    });
+    await expect(client.creativeLineItems.create({
+      creative_id: creative.payload!.creative_id!,
+      line_item_id: lineItem.line_item_id
+    })).rejects.toBeInstanceOf(BeeswaxValidationError);
+
+    // Campaigns with line items can't be deleted
+    await expect(client.campaigns.delete(campaign.campaign_id!)).rejects.toMatchObject({
+      messages: [`Cannot delete campaign ${campaign.campaign_id}: it is referenced by line_item ${lineItem.line_item_id}`]
+    });
+  });
+
+  test('validates line items against their campaign through the v2 API', async () => {
+    const campaign = (await client.campaigns.create(campaignOptions)).payload!;
+
+    const error = await client.createLineItem({
+      campaign_id: campaign.campaign_id!,
+      name: 'Too Late',
+      end_date: '2025-04-30 23:59:59'
+    }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(BeeswaxValidationError);
+    expect(error.fieldErrors).toEqual({ end_date: ['must not be after the campaign end date'] });
+    expect(server.requests[server.requests.length - 1]).toMatchObject({ method: 'POST', path: '/rest/v2/line-items', status: 400 });
+  });
+
+  test('runs createFullCampaign end to end', async () => {
+    const response = await client.macros.createFullCampaign({
+      ...campaignOptions,
+      line_items: [
+        {
+          name: 'Desktop',
+          budget: 2000,
+          targeting: { platform: [{ include: { os: ['Windows'] } }] },
+          creatives: [
+            { name: 'Leaderboard', width: 728, height: 90 },
+            { name: 'Rectangle', width: 300, height: 250 }
+          ]
+        },
+        { name: 'Mobile', budget: 1000, creatives: [{ name: 'Banner', width: 320, height: 50 }] }
+      ]
+    });
+
+    expect(response.success).toBe(true);
+    expect(response.errors).toBeUndefined();
+
+    const campaignId = response.payload!.campaign.campaign_id;
+    const lineItems = server.list('line_item', { campaign_id: campaignId });
+    expect(lineItems.map(lineItem => lineItem.line_item_name)).toEqual(['Desktop', 'Mobile']);
+    expect(lineItems[0]).toMatchObject({
+      advertiser_id: ADVERTISER_ID,
+      targeting_expression_id: response.payload!.targeting_expressions![0].id,
+      start_date: campaignOptions.start_date
+    });
+    expect(server.list('creative')).toHaveLength(3);
+    expect(server.list('creative_line_item', { line_item_id: lineItems[0].line_item_id })).toHaveLength(2);
+  });
+
+  test('rolls back a transactional createFullCampaign', async () => {
+    const response = await client.macros.createFullCampaign({
+      ...campaignOptions,
+      line_items: [{ name: 'Display', creatives: [{ name: 'Preroll', type: 'video' }] }]
+    }, { transactional: true });
+
+    expect(response.success).toBe(false);
+    expect(response.message).toContain("can't serve on a banner line item");
+    expect(response.payload!.report!.rollbackFailed).toEqual([]);
+    (['campaign', 'line_item', 'creative', 'creative_line_item'] as const).forEach(type => {
+      expect(server.list(type)).toEqual([]);
+    });
+  });
+
+  test('runs cloneCampaign end to end', async () => {
+    const original = await client.macros.createFullCampaign({
+      ...campaignOptions,
+      line_items: [
+        { name: 'Desktop', creatives: [{ name: 'Leaderboard', width: 728, height: 90 }] },
+        { name: 'Mobile' }
+      ]
+    });
+    const originalId = original.payload!.campaign.campaign_id!;
+
+    const clone = await client.macros.cloneCampaign(originalId, 'Spring Sale (copy)', { budget_multiplier: 2 });
+
+    expect(clone.success).toBe(true);
+    const cloneId = clone.payload!.campaign.campaign_id!;
+    expect(cloneId).not.toBe(originalId);
+    expect(server.get('campaign', cloneId)).toMatchObject({ campaign_budget: 10000, advertiser_id: ADVERTISER_ID });
+    expect(server.list('line_item', { campaign_id: cloneId }).map(lineItem => lineItem.line_item_name))
+      .toEqual(['Desktop', 'Mobile']);
+
+    // Creatives are shared; only their line item associations are copied
+    const [desktopClone] = server.list('line_item', { campaign_id: cloneId });
+    expect(server.list('creative_line_item', { line_item_id: desktopClone.line_item_id })).toEqual([
+      expect.objectContaining({ creative_id: original.payload!.creatives[0].creative_id })
+    ]);
+    expect(server.list('creative')).toHaveLength(1);
+  });
+
+  test('stores uploaded creative asset content', async () => {
+    const content = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>');
+
+    const asset = await client.uploadCreativeAsset({
+      advertiser_id: ADVERTISER_ID,
+      creative_asset_name: 'logo.svg',
+      buffer: content,
+      contentType: 'image/svg+xml'
+    });
+
+    expect(server.uploadedContent(asset.creative_asset_id)).toEqual(content);
+    expect(asset).toMatchObject({
+      size_in_bytes: content.length,
+      mime_type: 'image/svg+xml',
+      path_to_asset: `${server.apiRoot}/assets/${asset.creative_asset_id}/logo.svg`
+    });
+  });
+
+  test('serves v2 clients with v2 field names', async () => {
+    const v2 = server.createClient({ apiVersion: 'v2', logger: createConsoleLogger('silent') });
+
+    const campaign = await v2.campaigns.create({ ...campaignOptions, budget_type: 0 });
+    expect(campaign.payload).toMatchObject({ name: 'Spring Sale', budget: 5000, budget_type: 'spend' });
+    expect(server.get('campaign', campaign.payload!.campaign_id!)).toMatchObject({ campaign_name: 'Spring Sale', budget_type: 0 });
+
+    const found = await v2.campaigns.find(campaign.payload!.campaign_id!);
+    expect(found.payload).toMatchObject({ id: campaign.payload!.id, name: 'Spring Sale' });
+
+    await expect(v2.campaigns.edit(campaign.payload!.campaign_id!, { name: '' }, true))
+      .rejects.toMatchObject({ fieldErrors: { name: ['This field is required.'] } });
+  });
+});
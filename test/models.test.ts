@@ -0,0 +1,176 @@
+import {
+  BeeswaxApiVersion,
+  BeeswaxValidationError,
+  CampaignCreateInput,
+  CreativeCreateInput,
+  CreativeRead,
+  LineItemUpdateInput,
+  campaignToApi,
+  createConsoleLogger,
+  creativeToApi,
+  lineItemToApi,
+  normalizeCampaign,
+  normalizeCreative,
+  normalizeLineItem,
+  normalizeSegment
+} from '../src';
+import { MockBeeswaxServer } from '../src/testing';
+
+const ADVERTISER_ID = 1;
+
+const campaignInput: CampaignCreateInput = {
+  advertiser_id: ADVERTISER_ID,
+  name: 'Spring Sale',
+  budget: 5000,
+  budget_type: 'impressions',
+  start_date: '2025-03-01 00:00:00',
+  end_date: '2025-03-31 23:59:59',
+  active: true
+};
+
+describe('normalizers', () => {
+  test('read v1 and v2 payloads into the same model', () => {
+    const v1 = normalizeCampaign({
+      campaign_id: 10,
+      advertiser_id: ADVERTISER_ID,
+      campaign_name: 'Spring Sale',
+      campaign_budget: '5000.00',
+      budget_type: 2,
+      start_date: '2025-03-01 00:00:00',
+      active: true,
+      buzz_key: 'stinger',
+      create_date: '2025-02-01 10:00:00',
+      campaign_type: 'legacy'
+    });
+    const v2 = normalizeCampaign({
+      id: 10,
+      advertiser_id: ADVERTISER_ID,
+      name: 'Spring Sale',
+      budget: 5000,
+      budget_type: 'spend including vendor fees',
+      start_date: '2025-03-01 00:00:00',
+      active: true,
+      buzz_key: 'stinger',
+      created_date: '2025-02-01 10:00:00'
+    });
+
+    expect(v1).toEqual({
+      campaign_id: 10,
+      advertiser_id: ADVERTISER_ID,
+      name: 'Spring Sale',
+      budget: 5000,
+      budget_type: 'spend including vendor fees',
+      start_date: '2025-03-01 00:00:00',
+      active: true,
+      buzz_key: 'stinger',
+      created_date: '2025-02-01 10:00:00'
+    });
+    expect(v2).toEqual(v1);
+  });
+
+  test('map v1 type codes onto the type discriminant', () => {
+    expect(normalizeLineItem({ line_item_id: 20, line_item_type_id: 1, line_item_name: 'Preroll' }))
+      .toMatchObject({ line_item_id: 20, type: 'video', name: 'Preroll' });
+    expect(normalizeLineItem({ id: 20, type: 'native', bidding: { bidding_strategy: 'CPC', values: { cpc_bid: '0.50' } } }))
+      .toMatchObject({ type: 'native', bidding: { strategy: 'CPC', values: { cpc_bid: 0.5 } } });
+
+    const creative: CreativeRead = normalizeCreative({ creative_id: 30, creative_type: 0, width: 728, height: 90 });
+    expect(creative.type).toBe('banner');
+    if (creative.type === 'banner') {
+      expect(creative.width).toBe(728);
+    }
+    expect(normalizeCreative({ id: 31, type: 'native', width: 1 })).not.toHaveProperty('width');
+  });
+
+  test('coerce v1 flags and amounts, leaving out missing or non-numeric ones', () => {
+    expect(normalizeSegment({ segment_id: 1, active: 1 }).active).toBe(true);
+    expect(normalizeSegment({ segment_id: 1, active: 'true' }).active).toBe(true);
+    expect(normalizeSegment({ segment_id: 1, active: '0' }).active).toBe(false);
+    expect(normalizeSegment({ segment_id: 1, active: false }).active).toBe(false);
+    expect(normalizeSegment({ segment_id: 1 })).not.toHaveProperty('active');
+    expect(normalizeLineItem({ line_item_id: 2, line_item_budget: 'n/a' })).not.toHaveProperty('budget');
+  });
+
+  test('write inputs with the v1 names every resource accepts', () => {
+    expect(campaignToApi(campaignInput)).toEqual({
+      advertiser_id: ADVERTISER_ID,
+      campaign_name: 'Spring Sale',
+      campaign_budget: 5000,
+      budget_type: 1,
+      start_date: '2025-03-01 00:00:00',
+      end_date: '2025-03-31 23:59:59',
+      active: true
+    });
+    expect(creativeToApi({ advertiser_id: ADVERTISER_ID, name: 'Leaderboard', type: 'banner', width: 728, height: 90 }))
+      .toEqual({ advertiser_id: ADVERTISER_ID, creative_name: 'Leaderboard', creative_type: 0, width: 728, height: 90 });
+    expect(() => campaignToApi({ ...campaignInput, budget_type: 'daily' as any })).toThrow(BeeswaxValidationError);
+    expect(() => creativeToApi({ advertiser_id: ADVERTISER_ID, name: 'Audio', type: 'audio' } as unknown as CreativeCreateInput))
+      .toThrow('Unknown type "audio", expected one of banner, video, native');
+    expect(lineItemToApi({ campaign_id: 2, advertiser_id: ADVERTISER_ID, name: 'Preroll', type: 'video', budget: 100 }))
+      .toEqual({ campaign_id: 2, advertiser_id: ADVERTISER_ID, line_item_name: 'Preroll', line_item_type: 'video', line_item_budget: 100 });
+  });
+
+  test('keep read-only fields out of inputs', () => {
+    // @ts-expect-error buzz_key is set by the API
+    const campaign: CampaignCreateInput = { ...campaignInput, buzz_key: 'stinger' };
+    // @ts-expect-error a line item's type can't change
+    const update: LineItemUpdateInput = { name: 'Desktop', type: 'video' };
+    // @ts-expect-error line_item_spend is reported, not set
+    const spend: LineItemUpdateInput = { line_item_spend: 10 };
+    expect([campaign, update, spend]).toHaveLength(3);
+  });
+});
+
+describe.each<BeeswaxApiVersion>(['v1', 'v2'])('client.models (%s)', apiVersion => {
+  function createClient() {
+    const server = new MockBeeswaxServer({
+      seed: { advertiser: [{ advertiser_id: ADVERTISER_ID, advertiser_name: 'Acme' }] }
+    });
+    return server.createClient({ apiVersion, logger: createConsoleLogger('silent') });
+  }
+
+  test('creates, updates and reads entities as strict models', async () => {
+    const { models } = createClient();
+
+    const campaign = await models.campaigns.create(campaignInput);
+    expect(campaign).toMatchObject({ name: 'Spring Sale', budget: 5000, budget_type: 'impressions' });
+    expect(campaign).not.toHaveProperty('campaign_name');
+
+    const lineItem = await models.lineItems.create({
+      campaign_id: campaign.campaign_id,
+      advertiser_id: ADVERTISER_ID,
+      name: 'Preroll',
+      type: 'video',
+      budget: 2000,
+      start_date: '2025-03-01 00:00:00',
+      end_date: '2025-03-31 23:59:59'
+    });
+    expect(lineItem).toMatchObject({ campaign_id: campaign.campaign_id, name: 'Preroll', type: 'video', budget: 2000 });
+
+    const creative = await models.creatives.create({
+      advertiser_id: ADVERTISER_ID,
+      name: 'Leaderboard',
+      type: 'banner',
+      width: 728,
+      height: 90,
+      creative_template_id: 1
+    });
+    expect(creative).toMatchObject({ name: 'Leaderboard', type: 'banner', width: 728 });
+
+    const renamed = await models.lineItems.update(lineItem.line_item_id, { name: 'Preroll 15s', budget: 2500 });
+    expect(renamed).toMatchObject({ line_item_id: lineItem.line_item_id, name: 'Preroll 15s', budget: 2500, type: 'video' });
+
+    expect(await models.campaigns.find(campaign.campaign_id)).toEqual(campaign);
+    expect((await models.lineItems.query({ campaign_id: campaign.campaign_id })).map(row => row.name)).toEqual(['Preroll 15s']);
+
+    await models.lineItems.delete(lineItem.line_item_id);
+    expect(await models.lineItems.find(lineItem.line_item_id)).toBeUndefined();
+  });
+
+  test('throws instead of returning failed responses', async () => {
+    const { models } = createClient();
+
+    await expect(models.campaigns.update(999, { name: 'Missing' })).rejects.toMatchObject({ status: 404 });
+    await expect(models.segments.create({} as any)).rejects.toThrow(BeeswaxValidationError);
+  });
+});
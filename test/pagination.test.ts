@@ -0,0 +1,60 @@
+import { BeeswaxClient, Creative } from '../src';
+
+describe('Resource pagination', () => {
+  let client: BeeswaxClient;
+  let request: jest.SpyInstance;
+  const creatives = Array.from({ length: 7 }, (_, i) => ({ creative_id: i + 1, advertiser_id: 1 }));
+
+  beforeEach(() => {
+    client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' }
+    });
+    request = jest.spyOn(client, 'request').mockImplementation(async (_method, _endpoint, options) => {
+      const { rows, offset } = options?.body || {};
+      return { success: true, payload: creatives.slice(offset, offset + rows) };
+    });
+  });
+
+  test('should stream every row across pages', async () => {
+    const ids: number[] = [];
+    for await (const creative of client.creatives.iterate({ advertiser_id: 1 }, { pageSize: 3 })) {
+      ids.push(creative.creative_id!);
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(request).toHaveBeenLastCalledWith('GET', '/rest/creative', {
+      body: { advertiser_id: 1, rows: 3, offset: 6, sort_by: 'creative_id' }
+    });
+  });
+
+  test('should stop fetching when the loop breaks early', async () => {
+    for await (const creative of client.creatives.iterate({}, { pageSize: 2 })) {
+      if (creative.creative_id === 2) {
+        break;
+      }
+    }
+
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  test('should honor limit, sort options and page hooks', async () => {
+    const pages: number[][] = [];
+    const response = await client.creatives.queryAll({}, {
+      pageSize: 3,
+      limit: 5,
+      sortBy: 'creative_name',
+      order: 'desc',
+      onPage: page => {
+        pages.push(page.rows.map((c: Creative) => c.creative_id!));
+      }
+    });
+
+    expect(response.payload).toHaveLength(5);
+    expect(pages).toEqual([[1, 2, 3], [4, 5]]);
+    expect(request).toHaveBeenLastCalledWith('GET', '/rest/creative', {
+      body: { rows: 2, offset: 3, sort_by: 'creative_name', order: 'desc' }
+    });
+  });
+});
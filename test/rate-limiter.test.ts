@@ -0,0 +1,77 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { BeeswaxClient, BeeswaxRateLimitError, RateLimiter } from '../src';
+
+describe('Rate limiting', () => {
+  describe('RateLimiter', () => {
+    test('should cap the number of tasks in flight', async () => {
+      const limiter = new RateLimiter({ maxConcurrent: 2 });
+      let running = 0;
+      let peak = 0;
+
+      await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+      })));
+
+      expect(peak).toBe(2);
+      expect(limiter.inFlight).toBe(0);
+    });
+
+    test('should space requests to the configured rate', async () => {
+      const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1 });
+      const started: number[] = [];
+
+      await Promise.all(Array.from({ length: 4 }, () => limiter.schedule(async () => {
+        started.push(Date.now());
+      })));
+
+      // 4 tasks with one token up front and 50ms per refill
+      expect(started[3] - started[0]).toBeGreaterThanOrEqual(140);
+    });
+  });
+
+  describe('BeeswaxClient', () => {
+    const createClient = (maxRateLimitRetries: number) => new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: { maxConcurrent: 1, maxRateLimitRetries }
+    });
+
+    const tooManyRequests = (config: InternalAxiosRequestConfig) => new AxiosError('Too Many Requests', '429', config, null, {
+      status: 429,
+      statusText: 'Too Many Requests',
+      headers: { 'retry-after': '0.05' },
+      config,
+      data: {}
+    });
+
+    test('should retry after a 429 once Retry-After has passed', async () => {
+      const client = createClient(2);
+      const calls: number[] = [];
+      (client as any).axiosInstance.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+        calls.push(Date.now());
+        if (calls.length === 1) {
+          throw tooManyRequests(config);
+        }
+        return { status: 200, statusText: 'OK', headers: {}, config, data: { success: true, payload: [] } };
+      };
+
+      const response = await client.request('GET', '/rest/campaign');
+
+      expect(response.success).toBe(true);
+      expect(calls).toHaveLength(2);
+      expect(calls[1] - calls[0]).toBeGreaterThanOrEqual(45);
+    });
+
+    test('should give up with BeeswaxRateLimitError after maxRateLimitRetries', async () => {
+      const client = createClient(1);
+      (client as any).axiosInstance.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+        throw tooManyRequests(config);
+      };
+
+      await expect(client.request('GET', '/rest/campaign')).rejects.toBeInstanceOf(BeeswaxRateLimitError);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { PassThrough, Readable } from 'stream';
+import { BeeswaxClient, BeeswaxReportError, DelimitedParser, writeRows } from '../src';
+
+const CSV = [
+  'campaign_id,date,impressions,clicks,conversions,spend',
+  '42,2024-01-01,"1,000",10,1,$12.50',
+  '42,2024-01-02,500,5,,6.25',
+  ''
+].join('\n');
+
+function createReportApi(client: BeeswaxClient, statuses: string[], output = CSV) {
+  const calls: Array<{ method: string; endpoint: string; body?: any }> = [];
+
+  const request = jest.spyOn(client, 'request').mockImplementation(async (method, endpoint, options) => {
+    calls.push({ method, endpoint, body: options?.body });
+
+    if (endpoint === '/rest/campaign') {
+      return { success: true, payload: [{ campaign_id: 42, advertiser_id: 7 }] };
+    }
+    if (method === 'POST' && endpoint === '/rest/report_queue/strict') {
+      return { success: true, payload: { id: 99 } };
+    }
+    if (endpoint === '/rest/report_queue') {
+      const status = statuses.length > 1 ? statuses.shift() : statuses[0];
+      return { success: true, payload: [{ report_queue_id: 99, status, error: 'view not found' }] };
+    }
+    if (endpoint === '/rest/report_queue/download/99') {
+      // Stream downloads in small chunks that split cells, quotes and lines
+      return (options?.responseType === 'stream'
+        ? Readable.from(output.match(/[\s\S]{1,7}/g) || [])
+        : output) as any;
+    }
+    throw new Error(`Unexpected ${method} ${endpoint}`);
+  });
+
+  return { calls, request };
+}
+
+describe('Reports', () => {
+  let client: BeeswaxClient;
+  const query = {
+    advertiser_id: 7,
+    dimensions: ['campaign_id', 'date'],
+    metrics: ['impressions', 'clicks', 'conversions', 'spend'],
+    start_date: '2024-01-01',
+    end_date: '2024-01-02'
+  };
+
+  beforeEach(() => {
+    client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      rateLimit: false
+    });
+  });
+
+  test('should submit, poll until complete and parse typed rows', async () => {
+    const api = createReportApi(client, ['queued', 'running', 'complete']);
+
+    const result = await client.reports.run(query, { interval: 1, maxInterval: 2 });
+
+    expect(result.success).toBe(true);
+    expect(api.calls.filter(call => call.endpoint === '/rest/report_queue')).toHaveLength(3);
+    expect(api.calls[0].body).toEqual(expect.objectContaining({
+      advertiser_id: 7,
+      fields: ['campaign_id', 'date', 'impressions', 'clicks', 'conversions', 'spend'],
+      file_format: 'csv'
+    }));
+    expect(result.payload?.report_queue_id).toBe(99);
+    expect(result.payload?.columns.map(column => column.kind)).toEqual(
+      ['dimension', 'dimension', 'metric', 'metric', 'metric', 'metric']
+    );
+    expect(result.payload?.rows).toEqual([
+      { campaign_id: '42', date: '2024-01-01', impressions: 1000, clicks: 10, conversions: 1, spend: 12.5 },
+      { campaign_id: '42', date: '2024-01-02', impressions: 500, clicks: 5, conversions: null, spend: 6.25 }
+    ]);
+  });
+
+  test('should parse tab-separated output', () => {
+    const result = client.reports.parse('date\timpressions\n2024-01-01\t7\n', query);
+
+    expect(result.rows).toEqual([{ date: '2024-01-01', impressions: 7 }]);
+  });
+
+  test('should throw BeeswaxReportError when the report fails', async () => {
+    createReportApi(client, ['running', 'failed']);
+
+    const error = await client.reports.run(query, { interval: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BeeswaxReportError);
+    expect(error.reportQueueId).toBe(99);
+    expect(error.message).toContain('view not found');
+  });
+
+  test('should time out when the report never completes', async () => {
+    createReportApi(client, ['running']);
+
+    await expect(client.reports.run(query, { interval: 5, timeout: 20 }))
+      .rejects.toThrow('Timed out waiting for report 99');
+  });
+
+  test('getCampaignPerformance should report on the campaign advertiser', async () => {
+    const api = createReportApi(client, ['complete']);
+
+    const result = await client.macros.getCampaignPerformance(42, '2024-01-01', '2024-01-02', { interval: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.payload?.rows).toHaveLength(2);
+    const submitted = api.calls.find(call => call.endpoint === '/rest/report_queue/strict');
+    expect(submitted?.body).toEqual(expect.objectContaining({
+      advertiser_id: 7,
+      filters: { campaign_id: 42 },
+      start_date: '2024-01-01',
+      end_date: '2024-01-02'
+    }));
+  });
+
+  test('should stream typed rows from the download', async () => {
+    createReportApi(client, ['complete']);
+
+    const rows = [];
+    for await (const row of client.reports.rows(query, { interval: 1 })) {
+      rows.push(row);
+    }
+
+    expect(rows).toEqual([
+      { campaign_id: '42', date: '2024-01-01', impressions: 1000, clicks: 10, conversions: 1, spend: 12.5 },
+      { campaign_id: '42', date: '2024-01-02', impressions: 500, clicks: 5, conversions: null, spend: 6.25 }
+    ]);
+
+    createReportApi(client, ['complete']);
+    const streamed = await client.reports.stream(query, { interval: 1 }).toArray();
+    expect(streamed).toEqual(rows);
+  });
+
+  test('should fetch output hosted outside the API without its credentials', async () => {
+    const sent: any[] = [];
+    const external = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      adapter: async config => {
+        sent.push(config);
+        return { data: CSV, status: 200, statusText: 'OK', headers: {}, config };
+      }
+    });
+    const request = jest.spyOn(external, 'request');
+    const url = 'https://reports.s3.amazonaws.com/99.csv?X-Amz-Signature=abc';
+
+    expect(await external.reports.download({ report_queue_id: 99, download_url: url })).toBe(CSV);
+    expect(request).not.toHaveBeenCalled();
+    // No login, and nothing but the Accept header
+    expect(sent.map(config => config.url)).toEqual([url]);
+    expect(sent[0].headers.Authorization).toBeUndefined();
+    expect(sent[0].headers.Cookie).toBeUndefined();
+  });
+
+  test('should export rows as CSV, NDJSON and JSON', async () => {
+    const collect = async (format: 'csv' | 'ndjson' | 'json') => {
+      createReportApi(client, ['complete']);
+      const destination = new PassThrough();
+      const chunks: string[] = [];
+      destination.on('data', chunk => chunks.push(chunk.toString()));
+
+      const count = await client.reports.export(query, destination, format, { interval: 1 });
+      expect(count).toBe(2);
+      return chunks.join('');
+    };
+
+    expect(await collect('csv')).toBe([
+      'campaign_id,date,impressions,clicks,conversions,spend',
+      '42,2024-01-01,1000,10,1,12.5',
+      '42,2024-01-02,500,5,,6.25',
+      ''
+    ].join('\n'));
+    expect((await collect('ndjson')).trim().split('\n').map(line => JSON.parse(line).spend)).toEqual([12.5, 6.25]);
+    expect(JSON.parse(await collect('json'))).toHaveLength(2);
+  });
+
+  test('DelimitedParser should handle chunks split anywhere', () => {
+    const text = 'name\tnote\r\n"a ""quoted"" name"\t"line\nbreak"\r\nb\t\r\n';
+    const parser = new DelimitedParser();
+    const rows = [...text].flatMap(char => parser.push(char)).concat(parser.end());
+
+    expect(rows).toEqual([
+      ['name', 'note'],
+      ['a "quoted" name', 'line\nbreak'],
+      ['b', '']
+    ]);
+  });
+
+  test('writeRows should quote cells that need it', async () => {
+    const destination = new PassThrough();
+    const output = destination.toArray();
+
+    await writeRows([{ name: 'Smith, "Jo"', clicks: 3 }], destination, 'tsv');
+    expect(await writeRows([], new PassThrough(), 'json')).toBe(0);
+
+    expect(Buffer.concat(await output).toString()).toBe('name\tclicks\n"Smith, ""Jo"""\t3\n');
+  });
+});
@@ -0,0 +1,150 @@
+import { BeeswaxClient, MemoryCacheStore, ResponseCacheOptions } from '../src';
+
+describe('Response cache', () => {
+  function createClient(cache: ResponseCacheOptions | boolean, apiVersion: 'v1' | 'v2' = 'v1') {
+    const client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      apiVersion,
+      cache,
+      rateLimit: false
+    });
+    const request = jest.spyOn(client, 'request').mockImplementation(async (method, endpoint) => {
+      if (method !== 'GET') {
+        return { success: true, payload: apiVersion === 'v2' ? { id: 7 } : [{ id: 7 }] };
+      }
+      return apiVersion === 'v2' && /\/\d+$/.test(endpoint)
+        ? { id: 7, name: 'Seven' } as any
+        : { success: true, payload: [{ campaign_id: 7, campaign_name: 'Seven' }], results: [{ id: 7 }] };
+    });
+    return { client, request };
+  }
+
+  test('repeated find() and query() calls hit the API once', async () => {
+    const { client, request } = createClient(true);
+
+    await client.campaigns.find(7);
+    const second = await client.campaigns.find('7');
+    await client.campaigns.query({ advertiser_id: 1, active: true });
+    await client.campaigns.query({ active: true, advertiser_id: 1 });
+    await client.advertisers.find(7); // Different endpoint, not cached yet
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(second.payload).toEqual({ campaign_id: 7, campaign_name: 'Seven' });
+
+    // Cached payloads are copies
+    second.payload!.campaign_name = 'Changed';
+    expect((await client.campaigns.find(7)).payload?.campaign_name).toBe('Seven');
+  });
+
+  test('writes invalidate list queries and the written id', async () => {
+    const { client, request } = createClient(true);
+    await client.campaigns.find(7);
+    await client.campaigns.find(8);
+    await client.campaigns.query({ advertiser_id: 1 });
+    request.mockClear();
+
+    await client.campaigns.edit(7, { campaign_name: 'Renamed' }); // PUT, then a fresh find(7)
+    await client.campaigns.find(7);
+    await client.campaigns.find(8);
+    await client.campaigns.query({ advertiser_id: 1 });
+
+    expect(request.mock.calls.map(([method, endpoint]) => `${method} ${endpoint}`)).toEqual([
+      'PUT /rest/campaign/strict',
+      'GET /rest/campaign',
+      'GET /rest/campaign'
+    ]);
+
+    request.mockClear();
+    await client.campaigns.delete(8);
+    await client.campaigns.find(8);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  test('v1 line item creates, which go through v2, invalidate v1 queries', async () => {
+    const client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      cache: true,
+      rateLimit: false
+    });
+    const rows: any[] = [];
+    const request = jest.spyOn(client, 'request').mockImplementation(async method => {
+      if (method === 'POST') {
+        rows.push({ line_item_id: 9, campaign_id: 1 });
+        return { id: 9, campaign_id: 1 } as any;
+      }
+      return { success: true, payload: [...rows] };
+    });
+
+    expect((await client.lineItems.query({ campaign_id: 1 })).payload).toEqual([]);
+    await client.lineItems.create({ campaign_id: 1, advertiser_id: 1, line_item_name: 'Preroll' });
+    request.mockClear();
+
+    expect((await client.lineItems.query({ campaign_id: 1 })).payload).toEqual([{ line_item_id: 9, campaign_id: 1 }]);
+    expect(request).toHaveBeenCalledWith('GET', '/rest/line_item', { body: { campaign_id: 1 } });
+  });
+
+  test('a query that started before a write is not cached', async () => {
+    const { client, request } = createClient(true);
+    let respond!: () => void;
+    request.mockImplementationOnce(async () => {
+      await new Promise<void>(resolve => { respond = resolve; });
+      return { success: true, payload: [{ campaign_id: 7, campaign_name: 'Before' }] };
+    });
+
+    const stale = client.campaigns.query({ advertiser_id: 1 });
+    await new Promise(resolve => setImmediate(resolve));
+    await client.campaigns.edit(7, { campaign_name: 'Renamed' });
+    respond();
+    expect((await stale).payload).toEqual([{ campaign_id: 7, campaign_name: 'Before' }]);
+
+    request.mockClear();
+    expect((await client.campaigns.query({ advertiser_id: 1 })).payload).toEqual([{ campaign_id: 7, campaign_name: 'Seven' }]);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  test('v2 resources are cached and invalidated too', async () => {
+    const { client, request } = createClient(true, 'v2');
+    await client.campaigns.find(7);
+    await client.campaigns.find(7);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await client.campaigns.edit(7, { campaign_name: 'Renamed' });
+    await client.campaigns.find(7);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  test('entries expire after the TTL and only listed resources are cached', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    try {
+      const { client, request } = createClient({ ttl: 500, resources: ['campaign'] });
+      await client.campaigns.find(7);
+      await client.creatives.query();
+      await client.creatives.query();
+      expect(request).toHaveBeenCalledTimes(3);
+
+      now.mockReturnValue(1400);
+      await client.campaigns.find(7);
+      expect(request).toHaveBeenCalledTimes(3);
+
+      now.mockReturnValue(1600);
+      await client.campaigns.find(7);
+      expect(request).toHaveBeenCalledTimes(4);
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  test('MemoryCacheStore evicts the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', { success: true, payload: 1 }, 1000);
+    await store.set('b', { success: true, payload: 2 }, 1000);
+    await store.get('a');
+    await store.set('c', { success: true, payload: 3 }, 1000);
+
+    expect(store.size).toBe(2);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('a')).toEqual({ success: true, payload: 1 });
+  });
+});
@@ -0,0 +1,134 @@
+import { BeeswaxSchemaError, ENTITY_SCHEMAS, createConsoleLogger, validateEntity } from '../src';
+import { MockBeeswaxServer } from '../src/testing';
+
+const ADVERTISER_ID = 1;
+
+const lineItem = {
+  campaign_id: 10,
+  name: 'Desktop',
+  type: 'banner',
+  budget_type: 'spend including vendor fees',
+  spend_budget: { lifetime: '2000', include_fees: true },
+  bidding: { strategy: 'CPM', values: { cpm_bid: 2.5 }, pacing: 'none' },
+  start_date: '2025-03-01 00:00:00',
+  end_date: '2025-03-31 23:59:59'
+};
+
+describe('validateEntity', () => {
+  const schema = ENTITY_SCHEMAS.line_item;
+
+  test('accepts a valid body', () => {
+    expect(validateEntity(schema, lineItem)).toEqual([]);
+  });
+
+  test('reports unknown fields with the closest known name', () => {
+    expect(validateEntity(schema, { ...lineItem, line_item_budjet: 500, colour: 'red' })).toEqual([
+      expect.objectContaining({ code: 'unknown', path: 'line_item_budjet', message: 'is not a known field; did you mean line_item_budget?' }),
+      expect.objectContaining({ code: 'unknown', path: 'colour', message: 'is not a known field' })
+    ]);
+  });
+
+  test('reports nested problems with their path', () => {
+    const issues = validateEntity(schema, {
+      ...lineItem,
+      type: 'billboard',
+      spend_budget: { lifetime: 'lots' },
+      bidding: { strategy: 'CPC', values: { cpm_bid: -1 } },
+      frequency_caps: { limits: [{ duration: 3600, impressions: 3 }, { impressions: 0 }] },
+      start_date: '03/01/2025'
+    });
+
+    expect(issues.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+      'type: must be one of banner, video, native',
+      'spend_budget.lifetime: must be a number',
+      'bidding.values.cpm_bid: must be at least 0',
+      'start_date: must be a date like 2025-03-01 00:00:00',
+      'frequency_caps.limits[1].duration: is required',
+      'frequency_caps.limits[1].impressions: must be at least 1',
+      'bidding.values.cpc_bid: is required for the CPC strategy'
+    ]);
+  });
+
+  test('requires fields on create only', () => {
+    const campaign = ENTITY_SCHEMAS.campaign;
+
+    expect(validateEntity(campaign, { budget: 100 }).map(issue => issue.path)).toEqual(['advertiser_id', 'start_date', 'name']);
+    expect(validateEntity(campaign, { budget: 100 }, 'edit')).toEqual([]);
+    expect(validateEntity(campaign, { start_date: '2025-03-31', end_date: '2025-03-01' }, 'edit')).toEqual([
+      expect.objectContaining({ path: 'end_date', message: 'must be after start_date' })
+    ]);
+  });
+
+  test('ignores unknown fields and required ones in responses', () => {
+    expect(validateEntity(ENTITY_SCHEMAS.campaign, { campaign_id: 1, api_only_field: 'x' }, 'response')).toEqual([]);
+    expect(validateEntity(ENTITY_SCHEMAS.campaign, { campaign_id: 'one' }, 'response')).toEqual([
+      expect.objectContaining({ code: 'type', path: 'campaign_id', message: 'must be an integer' })
+    ]);
+  });
+});
+
+describe('schemaValidation client option', () => {
+  function createServer() {
+    return new MockBeeswaxServer({
+      seed: { advertiser: [{ advertiser_id: ADVERTISER_ID, advertiser_name: 'Acme' }] }
+    });
+  }
+
+  const campaignOptions = {
+    advertiser_id: ADVERTISER_ID,
+    name: 'Spring Sale',
+    budget: 5000,
+    start_date: '2025-03-01 00:00:00',
+    end_date: '2025-03-31 23:59:59'
+  };
+
+  test('rejects invalid create and edit bodies before sending them', async () => {
+    const server = createServer();
+    const client = server.createClient({ schemaValidation: true, logger: createConsoleLogger('silent') });
+    await client.authenticate();
+    const campaign = (await client.campaigns.create(campaignOptions)).payload!;
+
+    const error = await client.createLineItem({ campaign_id: campaign.campaign_id!, name: 'Desktop', line_item_budjet: 500 })
+      .catch(caught => caught);
+    expect(error).toBeInstanceOf(BeeswaxSchemaError);
+    expect(error.message).toBe(
+      'LineItem create body failed validation: line_item_budjet: is not a known field; did you mean line_item_budget?'
+    );
+    expect(error.fieldErrors).toEqual({ line_item_budjet: ['is not a known field; did you mean line_item_budget?'] });
+
+    await expect(client.campaigns.edit(campaign.campaign_id!, { budget_type: 'daily' }))
+      .rejects.toMatchObject({ issues: [expect.objectContaining({ code: 'enum', path: 'budget_type' })] });
+
+    expect(server.requests.filter(request => request.method !== 'GET').map(request => request.path)).toEqual([
+      '/rest/authenticate',
+      '/rest/campaign/strict'
+    ]);
+  });
+
+  test('checks responses in strict mode', async () => {
+    const server = createServer();
+    const client = server.createClient({ schemaValidation: 'strict', logger: createConsoleLogger('silent') });
+
+    const response = await client.macros.createFullCampaign({
+      ...campaignOptions,
+      line_items: [{ name: 'Desktop', creatives: [{ name: 'Leaderboard', width: 728, height: 90 }] }]
+    });
+    expect(response.success).toBe(true);
+
+    server.insert('campaign', { campaign_id: 99, advertiser_id: ADVERTISER_ID, campaign_name: 'Broken', campaign_budget: 'lots' });
+    await expect(client.campaigns.find(99)).rejects.toThrow(
+      'Campaign response failed validation: campaign_budget: must be a number'
+    );
+    await expect(client.campaigns.query({ campaign_name: 'Broken' })).rejects.toMatchObject({
+      fieldErrors: { '[0].campaign_budget': ['must be a number'] }
+    });
+  });
+
+  test('is off by default', async () => {
+    const server = createServer();
+    const client = server.createClient({ logger: createConsoleLogger('silent') });
+
+    const created = await client.segments.create({ advertiser_id: ADVERTISER_ID, segment_name: 'Visitors', segmnt_ttl: 30 });
+    expect(created.success).toBe(true);
+  });
+});
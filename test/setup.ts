@@ -13,7 +13,7 @@ const originalError = console.error;
 beforeAll(() => {
   console.error = jest.fn((...args) => {
     // Only log non-expected errors
-    if (!args[0]?.toString().includes('Full campaign creation error')) {
+    if (!args[0]?.toString().includes('Full campaign creation')) {
       originalError(...args);
     }
   });
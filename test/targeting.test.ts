@@ -0,0 +1,72 @@
+import { BeeswaxClient, TargetingExpressionBuilder } from '../src';
+
+describe('Targeting Expressions', () => {
+  let client: BeeswaxClient;
+
+  beforeEach(() => {
+    client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' }
+    });
+  });
+
+  describe('TargetingExpressionBuilder', () => {
+    test('should build include/exclude rules per module', () => {
+      const targeting = new TargetingExpressionBuilder()
+        .geo({ include: { country: ['USA'] }, exclude: { region: ['USA-AK'] } })
+        .include('geo', { country: ['CAN', 'USA'] })
+        .timeOfDay({ include: { day_of_week: [1, 2, 3] } })
+        .build();
+
+      expect(targeting).toEqual({
+        geo: [{ include: { country: ['USA', 'CAN'] }, exclude: { region: ['USA-AK'] } }],
+        time_of_day: [{ include: { day_of_week: [1, 2, 3] } }]
+      });
+    });
+
+    test('should round-trip an existing targeting object', () => {
+      const targeting = {
+        device: [{ include: { device_type: [1] } }],
+        segment: [{ exclude: { segment: ['stinger-123'] } }]
+      };
+
+      expect(TargetingExpressionBuilder.from(targeting).build()).toEqual(targeting);
+      expect(TargetingExpressionBuilder.from(targeting).clear('device').build()).toEqual({
+        segment: [{ exclude: { segment: ['stinger-123'] } }]
+      });
+    });
+  });
+
+  describe('createLineItem', () => {
+    test('should turn inline targeting into a targeting_expression_id', async () => {
+      const request = jest.spyOn(client, 'request').mockImplementation(async (method, endpoint, options) => {
+        if (endpoint === '/rest/campaign') {
+          return { success: true, payload: [{ campaign_id: 10, advertiser_id: 20, start_date: '2024-01-01' }] };
+        }
+        if (endpoint === '/rest/v2/targeting-expressions') {
+          return { ...options?.body, id: 30 } as any;
+        }
+        if (endpoint === '/rest/v2/line-items') {
+          return { ...options?.body, id: 40 } as any;
+        }
+        throw new Error(`Unexpected ${method} ${endpoint}`);
+      });
+
+      const response = await client.createLineItem({
+        campaign_id: 10,
+        name: 'Geo Line Item',
+        targeting: new TargetingExpressionBuilder().geo({ include: { country: ['USA'] } })
+      });
+
+      expect(request).toHaveBeenCalledWith('POST', '/rest/v2/targeting-expressions', {
+        body: expect.objectContaining({
+          advertiser_id: 20,
+          type: 'banner',
+          targeting: { geo: [{ include: { country: ['USA'] } }] }
+        })
+      });
+      expect(response.payload?.targeting_expression_id).toBe(30);
+      expect(response.payload).not.toHaveProperty('targeting');
+    });
+  });
+});
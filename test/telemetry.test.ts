@@ -0,0 +1,121 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { BeeswaxClient, Telemetry, createConsoleLogger, TelemetryMeter, TelemetrySpan, TelemetryTracer, endpointTemplate } from '../src';
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  attributes: Record<string, unknown>;
+  parent?: RecordedSpan;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+// Records spans and tracks the active one like the OpenTelemetry context manager
+function createTracer() {
+  const spans: RecordedSpan[] = [];
+  const active = new AsyncLocalStorage<RecordedSpan>();
+  const tracer: TelemetryTracer = {
+    startActiveSpan: (name, options, fn) => {
+      const recorded: RecordedSpan = { name, kind: options.kind, attributes: { ...options.attributes }, parent: active.getStore(), ended: false };
+      spans.push(recorded);
+      const span: TelemetrySpan = {
+        setAttribute: (key, value) => { recorded.attributes[key] = value; },
+        setStatus: status => { recorded.status = status; },
+        recordException: () => undefined,
+        end: () => { recorded.ended = true; }
+      };
+      return active.run(recorded, () => fn(span)) as any;
+    }
+  };
+  return { tracer, spans };
+}
+
+function createMeter() {
+  const recorded: Array<{ name: string; value: number; attributes?: Record<string, unknown> }> = [];
+  const meter: TelemetryMeter = {
+    createCounter: name => ({ add: (value, attributes) => recorded.push({ name, value, attributes }) }),
+    createHistogram: name => ({ record: (value, attributes) => recorded.push({ name, value, attributes }) })
+  };
+  return { meter, recorded };
+}
+
+describe('Telemetry', () => {
+  function createClient(telemetry: ConstructorParameters<typeof Telemetry>[0]) {
+    const client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      telemetry,
+      logger: createConsoleLogger('silent'),
+      rateLimit: { maxRateLimitRetries: 1 }
+    });
+    let throttled = false;
+    (client as any).axiosInstance.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      if (config.url === '/rest/v2/campaigns/42' && !throttled) {
+        throttled = true;
+        throw new AxiosError('Too many requests', 'ERR_BAD_REQUEST', config, {}, {
+          data: {}, status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '0' }, config
+        });
+      }
+      if (config.url === '/rest/segment') {
+        throw new AxiosError('Server error', 'ERR_BAD_RESPONSE', config, {}, {
+          data: { success: false }, status: 503, statusText: 'Unavailable', headers: {}, config
+        });
+      }
+      return { data: { success: true, payload: [] }, status: 200, statusText: 'OK', headers: {}, config };
+    };
+    return client;
+  }
+
+  test('endpointTemplate strips ids, query strings and hosts', () => {
+    expect(endpointTemplate('/rest/v2/campaigns/123?fields=a')).toBe('/rest/v2/campaigns/{id}');
+    expect(endpointTemplate('https://reports.beeswax.com/rest/report_queue/download/9')).toBe('/rest/report_queue/download/{id}');
+  });
+
+  test('requests produce client spans and metrics', async () => {
+    const { tracer, spans } = createTracer();
+    const { meter, recorded } = createMeter();
+    const client = createClient({ tracer, meter });
+
+    await client.request('GET', '/rest/v2/campaigns/42');
+    await expect(client.segments.query()).rejects.toThrow();
+
+    expect(spans.map(span => span.name)).toEqual(['Beeswax GET /rest/v2/campaigns/{id}', 'Beeswax GET /rest/segment']);
+    expect(spans[0]).toEqual(expect.objectContaining({
+      kind: 2,
+      ended: true,
+      attributes: expect.objectContaining({
+        'http.request.method': 'GET',
+        'url.template': '/rest/v2/campaigns/{id}',
+        'http.response.status_code': 200,
+        'beeswax.retry_count': 1
+      })
+    }));
+    expect(spans[1].attributes).toEqual(expect.objectContaining({ 'beeswax.resource': 'segment', 'http.response.status_code': 503 }));
+    expect(spans[1].status).toEqual({ code: 2, message: expect.any(String) });
+
+    expect(recorded.filter(entry => entry.name === 'beeswax.client.requests')).toHaveLength(2);
+    expect(recorded.filter(entry => entry.name === 'beeswax.client.request.duration').every(entry => entry.value >= 0)).toBe(true);
+    expect(recorded.filter(entry => entry.name === 'beeswax.client.errors')).toEqual([
+      { name: 'beeswax.client.errors', value: 1, attributes: expect.objectContaining({ 'error.type': 'BeeswaxServerError' }) }
+    ]);
+  });
+
+  test('macros are parent spans of their requests', async () => {
+    const { tracer, spans } = createTracer();
+    const client = createClient({ tracer, meter: createMeter().meter });
+
+    await client.macros.bulkUpdateCampaignStatus([1, 2], false);
+
+    const [macro, ...requests] = spans;
+    expect(macro).toEqual(expect.objectContaining({ name: 'Beeswax bulkUpdateCampaignStatus', kind: 0, ended: true }));
+    expect(requests).toHaveLength(4); // An edit and a read-back per campaign
+    expect(requests.every(span => span.parent === macro)).toBe(true);
+  });
+
+  test('is a no-op without @opentelemetry/api or when disabled', async () => {
+    const client = createClient(false);
+    await expect(client.request('GET', '/rest/campaign')).resolves.toEqual({ success: true, payload: [] });
+    await expect(new Telemetry().span('noop', 0, {}, async span => span)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  BeeswaxClient,
+  BeeswaxValidationError,
+  CampaignV2Resource,
+  CampaignResource,
+  createBeeswaxError
+} from '../src';
+
+describe('v2 API resources', () => {
+  let client: BeeswaxClient;
+  let request: jest.SpyInstance;
+
+  beforeEach(() => {
+    client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' },
+      apiVersion: 'v2'
+    });
+    request = jest.spyOn(client, 'request');
+  });
+
+  test('should select resource implementations by apiVersion', () => {
+    const v1Client = new BeeswaxClient({
+      apiRoot: 'https://example.api.beeswax.com',
+      creds: { email: 'test@example.com', password: 'test_password' }
+    });
+
+    expect(v1Client.apiVersion).toBe('v1');
+    expect(v1Client.campaigns).toBeInstanceOf(CampaignResource);
+    expect(client.campaigns).toBeInstanceOf(CampaignV2Resource);
+  });
+
+  test('should map v1 field names on create and mirror id onto campaign_id', async () => {
+    request.mockImplementation(async (_method, _endpoint, options) => ({ ...options?.body, id: 99 }));
+
+    const response = await client.campaigns.create({
+      advertiser_id: 1,
+      campaign_name: 'Spring',
+      campaign_budget: 5000,
+      budget_type: 2
+    });
+
+    expect(request).toHaveBeenCalledWith('POST', '/rest/v2/campaigns', {
+      body: { advertiser_id: 1, name: 'Spring', budget: 5000, budget_type: 'spend including vendor fees' }
+    });
+    expect(response.payload).toMatchObject({ id: 99, campaign_id: 99, name: 'Spring' });
+  });
+
+  test('should use RESTful paths for find, edit and delete', async () => {
+    request.mockResolvedValue({ id: 5, name: 'Creative' });
+
+    await client.creatives.find(5);
+    expect(request).toHaveBeenLastCalledWith('GET', '/rest/v2/creatives/5');
+
+    await client.creatives.edit(5, { creative_type: 1 });
+    expect(request).toHaveBeenLastCalledWith('PATCH', '/rest/v2/creatives/5', { body: { type: 'video' } });
+
+    const deleted = await client.creatives.delete(5);
+    expect(request).toHaveBeenLastCalledWith('DELETE', '/rest/v2/creatives/5');
+    expect(deleted.payload).toEqual({ id: 5, creative_id: 5 });
+  });
+
+  test('should page lists with limit/offset and read results', async () => {
+    request
+      .mockResolvedValueOnce({ results: [{ id: 1 }, { id: 2 }], next: 'next-page' })
+      .mockResolvedValueOnce({ results: [{ id: 3 }], next: null });
+
+    const response = await client.lineItems.queryAll({ campaign_id: 7 }, { pageSize: 2 });
+
+    expect(response.payload?.map(li => li.line_item_id)).toEqual([1, 2, 3]);
+    expect(request).toHaveBeenNthCalledWith(1, 'GET', '/rest/v2/line-items', {
+      params: { campaign_id: 7, limit: 2, offset: 0, ordering: 'id' }
+    });
+    expect(request).toHaveBeenNthCalledWith(2, 'GET', '/rest/v2/line-items', {
+      params: { campaign_id: 7, limit: 2, offset: 2, ordering: 'id' }
+    });
+  });
+
+  test('should parse v2 error bodies into field errors', () => {
+    const error = createBeeswaxError(400, {
+      errors: { name: ['This field is required.'], non_field_errors: ['Dates overlap.'] }
+    }) as BeeswaxValidationError;
+
+    expect(error).toBeInstanceOf(BeeswaxValidationError);
+    expect(error.fieldErrors).toEqual({
+      name: ['This field is required.'],
+      _general: ['Dates overlap.']
+    });
+  });
+});